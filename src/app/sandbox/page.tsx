@@ -1,20 +1,33 @@
 'use client';
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { NodeType } from '@/core/types';
+import { NodeType, LevelObjective } from '@/core/types';
 import { useGraphStore } from '@/core/graph/graphStore';
-import { SimulationEngine, SimulationSnapshot } from '@/core/sim/engine';
+import { NodeMetricsSnapshot } from '@/core/sim/engine';
+import { DEFAULT_TICK_MS } from '@/core/sim/clock';
+import { MetricsHistorySeries } from '@/core/sim/history';
+import { SimulationWorkerClient } from '@/core/sim/worker/client';
+import { CompactSnapshot } from '@/core/sim/worker/protocol';
 import { Metrics } from '@/core/sim/metrics';
+import { CostEstimate } from '@/core/sim/cost';
+import { GraphVariant } from '@/core/sim/compare';
+import { Finding, analyzeRun, findingsByNode } from '@/core/sim/analyzer';
+import { ActiveFaults, ChaosEvent, FaultSpec, noFaults } from '@/core/sim/chaos';
 import NodePalette from '@/components/canvas/NodePalette';
 import Canvas from '@/components/canvas/Canvas';
 import InspectorPanel from '@/components/inspector/InspectorPanel';
 import RunControls from '@/components/sim/RunControls';
 import MetricsPanel from '@/components/sim/MetricsPanel';
+import CapacityPlanner from '@/components/sim/CapacityPlanner';
+import ComparisonPanel from '@/components/sim/ComparisonPanel';
+import ChaosScenarioPanel from '@/components/sim/ChaosScenarioPanel';
 import CodePreview from '@/components/generator/CodePreview';
 import ExportDialog from '@/components/generator/ExportDialog';
 import NodeCodeEditor from '@/components/sandbox/NodeCodeEditor';
 import GraphCodeView from '@/components/sandbox/GraphCodeView';
 import TestRunnerModal from '@/components/debug/TestRunnerModal';
+import TraceViewer from '@/components/sim/TraceViewer';
+import MetricsChart from '@/components/sim/MetricsChart';
 import Link from 'next/link';
 
 // =============================================================================
@@ -28,15 +41,34 @@ export default function SandboxPage() {
   const [isSimulating, setIsSimulating] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [metrics, setMetrics] = useState<Metrics | null>(null);
+  const [cost, setCost] = useState<CostEstimate | null>(null);
   const [tick, setTick] = useState(0);
-  const [simulationMetrics, setSimulationMetrics] = useState<Map<string, { utilization: number; requestCount: number }>>(new Map());
+  const [seed, setSeed] = useState<number | undefined>(undefined);
+  const [speed, setSpeed] = useState(1);
+  const [tickMs, setTickMs] = useState(DEFAULT_TICK_MS);
+  const [simulationMetrics, setSimulationMetrics] = useState<Map<string, { utilization: number; requestCount: number; replicas: number; provisioningReplicas: number }>>(new Map());
+  const [nodeMetrics, setNodeMetrics] = useState<Map<string, NodeMetricsSnapshot>>(new Map());
+  const [findings, setFindings] = useState<Map<string, Finding[]>>(new Map());
+  const [faults, setFaults] = useState<ActiveFaults>(noFaults());
+  const [openBreakers, setOpenBreakers] = useState<string[]>([]);
   const [rightPanel, setRightPanel] = useState<RightPanel>('inspector');
   const [viewMode, setViewMode] = useState<'visual' | 'code'>('visual');
   const [exportOpen, setExportOpen] = useState(false);
   const [testOpen, setTestOpen] = useState(false);
+  const [traceOpen, setTraceOpen] = useState(false);
+  const [chartOpen, setChartOpen] = useState(false);
+  const [stressOpen, setStressOpen] = useState(false);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [chaosOpen, setChaosOpen] = useState(false);
+  // Faults scheduled for the run; a new run starts with them
+  const [scenario, setScenario] = useState<ChaosEvent[]>([]);
+  const [pinnedVariants, setPinnedVariants] = useState<GraphVariant[]>([]);
+  const [history, setHistory] = useState<MetricsHistorySeries | null>(null);
 
-  const engineRef = useRef<SimulationEngine | null>(null);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  // The engine itself lives in a worker; this is the page's handle on it
+  const simRef = useRef<SimulationWorkerClient | null>(null);
+  // Tick length the worker's engine was created with
+  const simTickMsRef = useRef(tickMs);
 
   const { nodes, edges } = useGraphStore();
 
@@ -122,27 +154,55 @@ export default function SandboxPage() {
   }, [serverState.pid, serverState.logs]);
 
   // Handle simulation updates
-  const handleSimulationUpdate = useCallback((snapshot: SimulationSnapshot) => {
+  const handleSimulationUpdate = useCallback((snapshot: CompactSnapshot) => {
     setTick(snapshot.tick);
+    setSeed(snapshot.seed);
     setMetrics(snapshot.metrics);
+    setCost(snapshot.cost);
 
-    const nodeViz = new Map<string, { utilization: number; requestCount: number }>();
+    const nodeViz = new Map<string, { utilization: number; requestCount: number; replicas: number; provisioningReplicas: number }>();
     for (const [nodeId, m] of snapshot.nodeMetrics) {
       nodeViz.set(nodeId, {
         utilization: m.utilization,
         requestCount: m.throughput,
+        replicas: m.replicas,
+        provisioningReplicas: m.provisioningReplicas,
       });
     }
     setSimulationMetrics(nodeViz);
+    setNodeMetrics(snapshot.nodeMetrics);
+    setFindings(findingsByNode(analyzeRun(useGraphStore.getState(), snapshot)));
+    setFaults(snapshot.faults);
+    setOpenBreakers(snapshot.openBreakers);
   }, []);
 
-  // Start simulation
-  const handleStart = useCallback(() => {
-    if (!engineRef.current) {
-      engineRef.current = new SimulationEngine({ nodes, edges, selectedNodeId: null, selectedEdgeId: null });
+  // Controls the worker couldn't carry out land in the log panel
+  const handleSimulationError = useCallback((message: string) => {
+    setServerState(prev => ({
+      ...prev,
+      logs: [...prev.logs, `Simulation error: ${message}`],
+    }));
+  }, []);
+
+  // Spin up a worker for the current graph if there isn't one yet. The tick
+  // length only changes before a run starts, so a new one re-creates the engine.
+  const ensureSimulation = useCallback((): SimulationWorkerClient => {
+    const graph = { nodes, edges, selectedNodeId: null, selectedEdgeId: null };
+    if (!simRef.current) {
+      simRef.current = new SimulationWorkerClient(handleSimulationUpdate, handleSimulationError);
+      simRef.current.init(graph, { tickMs, chaos: scenario });
+    } else if (simTickMsRef.current !== tickMs) {
+      simRef.current.init(graph, { tickMs, chaos: scenario });
     } else {
-      engineRef.current.updateGraph({ nodes, edges, selectedNodeId: null, selectedEdgeId: null });
+      simRef.current.updateGraph(graph);
     }
+    simTickMsRef.current = tickMs;
+    return simRef.current;
+  }, [nodes, edges, tickMs, scenario, handleSimulationUpdate, handleSimulationError]);
+
+  // Start simulation
+  const handleStart = useCallback(() => {
+    ensureSimulation().start(speed);
 
     setIsSimulating(true);
     setIsPaused(false);
@@ -151,56 +211,101 @@ export default function SandboxPage() {
     if (!serverState.running && !isStartingServer) {
       handleStartServer();
     }
+  }, [ensureSimulation, speed, serverState.running, isStartingServer, handleStartServer]);
 
-    intervalRef.current = setInterval(() => {
-      if (engineRef.current) {
-        const snapshot = engineRef.current.step();
-        handleSimulationUpdate(snapshot);
-      }
-    }, 100);
-  }, [nodes, edges, handleSimulationUpdate, serverState.running, isStartingServer, handleStartServer]);
+  // Change playback speed, live if running
+  const handleSpeedChange = useCallback((value: number) => {
+    setSpeed(value);
+    simRef.current?.setSpeed(value);
+  }, []);
 
   // Pause simulation
   const handlePause = useCallback(() => {
     setIsPaused(true);
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
+    simRef.current?.pause();
   }, []);
 
   // Step simulation
   const handleStep = useCallback(() => {
-    if (!engineRef.current) {
-      engineRef.current = new SimulationEngine({ nodes, edges, selectedNodeId: null, selectedEdgeId: null });
-    }
-
-    const snapshot = engineRef.current.step();
-    handleSimulationUpdate(snapshot);
+    ensureSimulation().step();
     setIsSimulating(true);
     setIsPaused(true);
-  }, [nodes, edges, handleSimulationUpdate]);
+  }, [ensureSimulation]);
+
+  // Chaos: faults take effect from the next tick
+  const handleInjectFault = useCallback((fault: FaultSpec) => {
+    ensureSimulation().scheduleFault(fault);
+  }, [ensureSimulation]);
+
+  const handleClearFaults = useCallback((targetId: string) => {
+    simRef.current?.clearFaults(targetId);
+  }, []);
+
+  // The running engine's timeline includes faults injected from the canvas
+  const loadScenario = useCallback(() => {
+    return simRef.current ? simRef.current.getChaosScenario() : Promise.resolve(scenario);
+  }, [scenario]);
+
+  const handleApplyScenario = useCallback((events: ChaosEvent[]) => {
+    setScenario(events);
+    simRef.current?.setChaosScenario(events);
+    setChaosOpen(false);
+  }, []);
 
   // Reset simulation
   const handleReset = useCallback(() => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
-    engineRef.current = null;
+    simRef.current?.terminate();
+    simRef.current = null;
     setIsSimulating(false);
     setIsPaused(false);
     setMetrics(null);
+    setCost(null);
     setTick(0);
     setSimulationMetrics(new Map());
+    setNodeMetrics(new Map());
+    setFindings(new Map());
+    setFaults(noFaults());
+    setOpenBreakers([]);
+    setHistory(null);
+  }, []);
+
+  // Outlier traces from the current run
+  const getTraces = useCallback(async (percentile: number) => {
+    // A reset mid-query rejects it; there is no run to trace any more
+    return simRef.current ? simRef.current.getOutlierTraces(percentile).catch(() => []) : [];
   }, []);
 
+  // Stress test the graph as it stands, at the run's tick length
+  const findCapacity = useCallback((objectives: LevelObjective[]) => {
+    return ensureSimulation().findCapacity({ nodes, edges, selectedNodeId: null, selectedEdgeId: null }, { objectives, tickMs });
+  }, [ensureSimulation, nodes, edges, tickMs]);
+
+  // A/B: pinned copies of the graph to compare the current one against
+  const handlePinVariant = useCallback(() => {
+    setPinnedVariants((pinned) => [
+      ...pinned,
+      {
+        id: `variant_${Date.now()}`,
+        label: `Variant ${String.fromCharCode(65 + pinned.length)}`,
+        graph: { nodes, edges, selectedNodeId: null, selectedEdgeId: null },
+      },
+    ]);
+  }, [nodes, edges]);
+
+  const compareVariants = useCallback((variants: GraphVariant[]) => {
+    return ensureSimulation().compareVariants(variants, { tickMs });
+  }, [ensureSimulation, tickMs]);
+
+  // Keep the open chart in step with the run
+  useEffect(() => {
+    if (!chartOpen) return;
+    simRef.current?.getHistory().then(setHistory, () => setHistory(null));
+  }, [chartOpen, tick]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
+      simRef.current?.terminate();
     };
   }, []);
 
@@ -218,10 +323,61 @@ export default function SandboxPage() {
             onPause={handlePause}
             onStep={handleStep}
             onReset={handleReset}
+            speed={speed}
+            onSpeedChange={handleSpeedChange}
+            tickMs={tickMs}
+            onTickMsChange={setTickMs}
           />
         </div>
 
         <div className="flex items-center gap-2">
+          {/* Trace Viewer */}
+          <button
+            onClick={() => setTraceOpen(true)}
+            disabled={!isSimulating}
+            className="px-3 py-1.5 bg-secondary text-secondary-foreground border border-border rounded-lg hover:bg-secondary/80 transition-colors text-xs font-medium flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <span>🔎</span>
+            <span className="hidden sm:inline">Traces</span>
+          </button>
+
+          {/* Metrics Charts */}
+          <button
+            onClick={() => setChartOpen(true)}
+            disabled={!isSimulating}
+            className="px-3 py-1.5 bg-secondary text-secondary-foreground border border-border rounded-lg hover:bg-secondary/80 transition-colors text-xs font-medium flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <span>📈</span>
+            <span className="hidden sm:inline">Charts</span>
+          </button>
+
+          {/* Chaos Scenario */}
+          <button
+            onClick={() => setChaosOpen(true)}
+            className="px-3 py-1.5 bg-secondary text-secondary-foreground border border-border rounded-lg hover:bg-secondary/80 transition-colors text-xs font-medium flex items-center gap-1"
+          >
+            <span>🌪️</span>
+            <span className="hidden sm:inline">Chaos</span>
+          </button>
+
+          {/* Compare */}
+          <button
+            onClick={() => setCompareOpen(true)}
+            className="px-3 py-1.5 bg-secondary text-secondary-foreground border border-border rounded-lg hover:bg-secondary/80 transition-colors text-xs font-medium flex items-center gap-1"
+          >
+            <span>⚖️</span>
+            <span className="hidden sm:inline">Compare</span>
+          </button>
+
+          {/* Stress Test */}
+          <button
+            onClick={() => setStressOpen(true)}
+            className="px-3 py-1.5 bg-secondary text-secondary-foreground border border-border rounded-lg hover:bg-secondary/80 transition-colors text-xs font-medium flex items-center gap-1"
+          >
+            <span>🏋️</span>
+            <span className="hidden sm:inline">Stress Test</span>
+          </button>
+
           {/* Test Runner */}
           <button
             onClick={() => setTestOpen(true)}
@@ -278,11 +434,16 @@ export default function SandboxPage() {
               draggedNodeType={draggedNodeType}
               simulationMetrics={simulationMetrics}
               isSimulating={isSimulating && !isPaused}
+              findings={findings}
+              faults={faults}
+              openBreakers={openBreakers}
+              onInjectFault={handleInjectFault}
+              onClearFaults={handleClearFaults}
             />
 
             {/* Right: Inspector or Code Preview */}
             {rightPanel === 'inspector' ? (
-              <InspectorPanel />
+              <InspectorPanel nodeMetrics={nodeMetrics} />
             ) : (
               <div className="w-[480px] border-l border-slate-700/50">
                 <CodePreview />
@@ -304,13 +465,48 @@ export default function SandboxPage() {
       </div>
 
       {/* Bottom: Metrics */}
-      <MetricsPanel metrics={metrics} tick={tick} />
+      <MetricsPanel metrics={metrics} tick={tick} tickMs={tickMs} seed={seed} cost={cost} />
 
       {/* Export Dialog */}
       <ExportDialog open={exportOpen} onClose={() => setExportOpen(false)} />
 
       {/* Test Runner Modal */}
       {testOpen && <TestRunnerModal onClose={() => setTestOpen(false)} />}
+
+      {/* Trace Viewer */}
+      {traceOpen && <TraceViewer nodes={nodes} getTraces={getTraces} onClose={() => setTraceOpen(false)} />}
+
+      {/* Metrics Charts */}
+      {chartOpen && history && (
+        <MetricsChart nodes={nodes} history={history} onClose={() => setChartOpen(false)} />
+      )}
+
+      {/* Chaos Scenario */}
+      {chaosOpen && (
+        <ChaosScenarioPanel
+          nodes={nodes}
+          edges={edges}
+          tick={tick}
+          loadScenario={loadScenario}
+          onApply={handleApplyScenario}
+          onClose={() => setChaosOpen(false)}
+        />
+      )}
+
+      {/* Capacity Planner */}
+      {stressOpen && <CapacityPlanner findCapacity={findCapacity} onClose={() => setStressOpen(false)} />}
+
+      {/* Variant Comparison */}
+      {compareOpen && (
+        <ComparisonPanel
+          graph={{ nodes, edges, selectedNodeId: null, selectedEdgeId: null }}
+          pinned={pinnedVariants}
+          onPin={handlePinVariant}
+          onUnpin={(id) => setPinnedVariants((pinned) => pinned.filter((v) => v.id !== id))}
+          compareVariants={compareVariants}
+          onClose={() => setCompareOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -3,8 +3,13 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { NodeType } from '@/core/types';
 import { useGraphStore } from '@/core/graph/graphStore';
-import { SimulationEngine, SimulationSnapshot } from '@/core/sim/engine';
+import { NodeMetricsSnapshot } from '@/core/sim/engine';
+import { DEFAULT_TICK_MS, ticksToSeconds } from '@/core/sim/clock';
+import { SimulationWorkerClient } from '@/core/sim/worker/client';
+import { CompactSnapshot } from '@/core/sim/worker/protocol';
 import { Metrics } from '@/core/sim/metrics';
+import { CostEstimate } from '@/core/sim/cost';
+import { Finding, analyzeRun, findingsByNode } from '@/core/sim/analyzer';
 import { TUTORIAL_LEVELS, getLevel } from '@/core/tutorial/levels';
 import { evaluateLevel, EvaluationResult } from '@/core/tutorial/evaluator';
 import NodePalette from '@/components/canvas/NodePalette';
@@ -25,12 +30,22 @@ export default function TutorialPage() {
   const [isSimulating, setIsSimulating] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [metrics, setMetrics] = useState<Metrics | null>(null);
+  const [cost, setCost] = useState<CostEstimate | null>(null);
   const [tick, setTick] = useState(0);
+  const [seed, setSeed] = useState<number | undefined>(undefined);
+  const [speed, setSpeed] = useState(1);
+  const [tickMs, setTickMs] = useState(DEFAULT_TICK_MS);
   const [evaluation, setEvaluation] = useState<EvaluationResult | null>(null);
-  const [simulationMetrics, setSimulationMetrics] = useState<Map<string, { utilization: number; requestCount: number }>>(new Map());
+  const [simulationMetrics, setSimulationMetrics] = useState<Map<string, { utilization: number; requestCount: number; replicas: number; provisioningReplicas: number }>>(new Map());
+  const [nodeMetrics, setNodeMetrics] = useState<Map<string, NodeMetricsSnapshot>>(new Map());
+  const [findings, setFindings] = useState<Map<string, Finding[]>>(new Map());
+  const [openBreakers, setOpenBreakers] = useState<string[]>([]);
+  const [simError, setSimError] = useState<string | null>(null);
 
-  const engineRef = useRef<SimulationEngine | null>(null);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  // The engine itself lives in a worker; this is the page's handle on it
+  const simRef = useRef<SimulationWorkerClient | null>(null);
+  // Tick length the worker's engine was created with
+  const simTickMsRef = useRef(tickMs);
 
   const { nodes, edges, loadGraph, clearGraph } = useGraphStore();
 
@@ -44,86 +59,114 @@ export default function TutorialPage() {
       loadGraph(level.starterGraph);
       setEvaluation(null);
       setMetrics(null);
+      setCost(null);
       setTick(0);
-      engineRef.current = null;
+      setSimError(null);
+      simRef.current?.terminate();
+      simRef.current = null;
     }
   }, [loadGraph]);
 
   // Handle simulation updates
-  const handleSimulationUpdate = useCallback((snapshot: SimulationSnapshot) => {
+  const handleSimulationUpdate = useCallback((snapshot: CompactSnapshot) => {
     setTick(snapshot.tick);
+    setSeed(snapshot.seed);
     setMetrics(snapshot.metrics);
+    setCost(snapshot.cost);
 
     // Evaluate objectives
-    if (currentLevel && snapshot.tick > 50) {
+    if (currentLevel && ticksToSeconds(snapshot.tick, snapshot.tickMs) > 5) {
       const result = evaluateLevel(currentLevel, snapshot.metrics);
       setEvaluation(result);
     }
 
     // Convert node metrics for canvas visualization
-    const nodeViz = new Map<string, { utilization: number; requestCount: number }>();
+    const nodeViz = new Map<string, { utilization: number; requestCount: number; replicas: number; provisioningReplicas: number }>();
     for (const [nodeId, m] of snapshot.nodeMetrics) {
       nodeViz.set(nodeId, {
         utilization: m.utilization,
         requestCount: m.throughput,
+        replicas: m.replicas,
+        provisioningReplicas: m.provisioningReplicas,
       });
     }
     setSimulationMetrics(nodeViz);
+    setNodeMetrics(snapshot.nodeMetrics);
+    setFindings(findingsByNode(analyzeRun(useGraphStore.getState(), snapshot)));
+    setOpenBreakers(snapshot.openBreakers);
   }, [currentLevel]);
 
-  // Start simulation
-  const handleStart = useCallback(() => {
-    if (!engineRef.current) {
-      engineRef.current = new SimulationEngine({ nodes, edges, selectedNodeId: null, selectedEdgeId: null });
+  // The worker outlives renders, so route its snapshots to the latest handler
+  const updateRef = useRef(handleSimulationUpdate);
+  useEffect(() => {
+    updateRef.current = handleSimulationUpdate;
+  }, [handleSimulationUpdate]);
+
+  // A failure in the worker stops the run where it is and says why
+  const handleSimulationError = useCallback((message: string) => {
+    simRef.current?.pause();
+    setIsPaused(true);
+    setSimError(message);
+  }, []);
+
+  // Spin up a worker for the current graph if there isn't one yet. The tick
+  // length only changes before a run starts, so a new one re-creates the engine.
+  const ensureSimulation = useCallback((): SimulationWorkerClient => {
+    const graph = { nodes, edges, selectedNodeId: null, selectedEdgeId: null };
+    if (!simRef.current) {
+      simRef.current = new SimulationWorkerClient((snapshot) => updateRef.current(snapshot), handleSimulationError);
+      simRef.current.init(graph, { tickMs });
+    } else if (simTickMsRef.current !== tickMs) {
+      simRef.current.init(graph, { tickMs });
     } else {
-      engineRef.current.updateGraph({ nodes, edges, selectedNodeId: null, selectedEdgeId: null });
+      simRef.current.updateGraph(graph);
     }
+    simTickMsRef.current = tickMs;
+    return simRef.current;
+  }, [nodes, edges, tickMs, handleSimulationError]);
 
+  // Start simulation
+  const handleStart = useCallback(() => {
+    setSimError(null);
+    ensureSimulation().start(speed);
     setIsSimulating(true);
     setIsPaused(false);
+  }, [ensureSimulation, speed]);
 
-    intervalRef.current = setInterval(() => {
-      if (engineRef.current) {
-        const snapshot = engineRef.current.step();
-        handleSimulationUpdate(snapshot);
-      }
-    }, 100);
-  }, [nodes, edges, handleSimulationUpdate]);
+  // Change playback speed, live if running
+  const handleSpeedChange = useCallback((value: number) => {
+    setSpeed(value);
+    simRef.current?.setSpeed(value);
+  }, []);
 
   // Pause simulation
   const handlePause = useCallback(() => {
     setIsPaused(true);
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
+    simRef.current?.pause();
   }, []);
 
   // Step simulation
   const handleStep = useCallback(() => {
-    if (!engineRef.current) {
-      engineRef.current = new SimulationEngine({ nodes, edges, selectedNodeId: null, selectedEdgeId: null });
-    }
-    
-    const snapshot = engineRef.current.step();
-    handleSimulationUpdate(snapshot);
+    ensureSimulation().step();
     setIsSimulating(true);
     setIsPaused(true);
-  }, [nodes, edges, handleSimulationUpdate]);
+  }, [ensureSimulation]);
 
   // Reset simulation
   const handleReset = useCallback(() => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
-    engineRef.current = null;
+    simRef.current?.terminate();
+    simRef.current = null;
     setIsSimulating(false);
     setIsPaused(false);
     setMetrics(null);
+    setCost(null);
     setTick(0);
     setEvaluation(null);
+    setSimError(null);
     setSimulationMetrics(new Map());
+    setNodeMetrics(new Map());
+    setFindings(new Map());
+    setOpenBreakers([]);
 
     // Reload level graph
     if (currentLevel) {
@@ -137,6 +180,7 @@ export default function TutorialPage() {
     clearGraph();
     setEvaluation(null);
     setMetrics(null);
+    setCost(null);
     handleReset();
   }, [clearGraph, handleReset]);
 
@@ -148,9 +192,7 @@ export default function TutorialPage() {
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
+      simRef.current?.terminate();
     };
   }, []);
 
@@ -283,6 +325,10 @@ export default function TutorialPage() {
           onPause={handlePause}
           onStep={handleStep}
           onReset={handleReset}
+          speed={speed}
+          onSpeedChange={handleSpeedChange}
+          tickMs={tickMs}
+          onTickMsChange={setTickMs}
         />
 
         <div className="w-32" />
@@ -298,10 +344,19 @@ export default function TutorialPage() {
           draggedNodeType={draggedNodeType}
           simulationMetrics={simulationMetrics}
           isSimulating={isSimulating && !isPaused}
+          findings={findings}
+          openBreakers={openBreakers}
         />
 
         {/* Right: Inspector */}
-        <InspectorPanel />
+        <InspectorPanel nodeMetrics={nodeMetrics} />
+
+        {simError && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 px-4 py-2 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">
+            Simulation stopped: {simError}
+            <button onClick={() => setSimError(null)} className="text-red-400/70 hover:text-red-300">✕</button>
+          </div>
+        )}
 
         {/* Tutorial Overlay */}
         {currentLevel && (
@@ -315,7 +370,7 @@ export default function TutorialPage() {
       </div>
 
       {/* Bottom: Metrics */}
-      <MetricsPanel metrics={metrics} tick={tick} />
+      <MetricsPanel metrics={metrics} tick={tick} tickMs={tickMs} seed={seed} cost={cost} />
     </div>
   );
 }
@@ -5,6 +5,10 @@ import { NodeType } from '@/core/types';
 import { useGraphStore } from '@/core/graph/graphStore';
 import NodeRenderer from './NodeRenderer';
 import EdgeRenderer from './EdgeRenderer';
+import { Finding } from '@/core/sim/analyzer';
+import { ActiveFaults, FaultSpec, DEFAULT_INJECTED_ERROR_RATE } from '@/core/sim/chaos';
+import { nodePlacement } from '@/core/sim/network';
+import ContextMenu, { ContextMenuItem } from './ContextMenu';
 
 // =============================================================================
 // Canvas — pan + zoom + snap-to-grid SVG/HTML canvas
@@ -20,8 +24,14 @@ function snapToGrid(value: number): number {
 
 interface CanvasProps {
   draggedNodeType: NodeType | null;
-  simulationMetrics?: Map<string, { utilization: number; requestCount: number }>;
+  simulationMetrics?: Map<string, { utilization: number; requestCount: number; replicas?: number; provisioningReplicas?: number }>;
   isSimulating?: boolean;
+  findings?: Map<string, Finding[]>;
+  faults?: ActiveFaults;
+  openBreakers?: string[]; // edges whose circuit breaker has tripped
+  // Chaos actions in the right-click menu; omitted = no menu
+  onInjectFault?: (fault: FaultSpec) => void;
+  onClearFaults?: (targetId: string) => void;
 }
 
 // Replace entire Canvas functional component logic
@@ -29,6 +39,11 @@ export default function Canvas({
   draggedNodeType,
   simulationMetrics,
   isSimulating = false,
+  findings,
+  faults,
+  openBreakers,
+  onInjectFault,
+  onClearFaults,
 }: CanvasProps) {
   const canvasRef = useRef<HTMLDivElement>(null);
 
@@ -45,6 +60,10 @@ export default function Canvas({
   // Edge drag state (connection)
   const [draggedEdge, setDraggedEdge] = useState<{ sourceId: string; px: number; py: number } | null>(null);
 
+  // Right-click menu, positioned in screen space relative to the canvas
+  const [menu, setMenu] = useState<{ x: number; y: number; kind: 'node' | 'edge'; id: string } | null>(null);
+  const closeMenu = useCallback(() => setMenu(null), []);
+
   const {
     nodes,
     edges,
@@ -84,6 +103,7 @@ export default function Canvas({
 
   // ---------- Pan ----------
   const handleCanvasMouseDown = (e: React.MouseEvent) => {
+    setMenu(null);
     // Only start pan on middle-click or when clicking the background
     if (e.button === 1 || (e.button === 0 && e.target === canvasRef.current || e.target === canvasRef.current?.querySelector('.grid-bg'))) {
       setIsPanning(true);
@@ -177,6 +197,7 @@ export default function Canvas({
   const handleNodeDragStart = useCallback(
     (nodeId: string, e: React.MouseEvent) => {
       e.stopPropagation();
+      setMenu(null);
       const node = nodes.find((n) => n.id === nodeId);
       if (!node) return;
 
@@ -211,6 +232,55 @@ export default function Canvas({
     }
   }, [draggedEdge, addEdge]);
 
+  // ---------- Chaos context menu ----------
+  const openMenu = (kind: 'node' | 'edge', id: string, e: React.MouseEvent) => {
+    if (!onInjectFault) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = canvasRef.current?.getBoundingClientRect();
+    setMenu({ x: e.clientX - (rect?.left ?? 0), y: e.clientY - (rect?.top ?? 0), kind, id });
+  };
+
+  const menuItems = (): ContextMenuItem[] => {
+    if (!menu || !onInjectFault) return [];
+    const clear = { label: 'Recover', icon: '💚', onClick: () => onClearFaults?.(menu.id) };
+
+    if (menu.kind === 'edge') {
+      return faults?.partitioned.includes(menu.id)
+        ? [{ ...clear, label: 'Heal link' }]
+        : [{ label: 'Partition link', icon: '✂️', danger: true, onClick: () => onInjectFault({ kind: 'PARTITION', targetId: menu.id }) }];
+    }
+
+    const node = nodes.find((n) => n.id === menu.id);
+    const region = node ? nodePlacement(node).region : undefined;
+    // A node down with its region comes back when the region does
+    if (region && faults?.regions.includes(region)) {
+      return [{ ...clear, label: `Restore ${region}`, onClick: () => onClearFaults?.(region) }];
+    }
+
+    const isFaulted =
+      !!faults && (faults.down.includes(menu.id) || faults.degraded.includes(menu.id) || menu.id in faults.errorRates);
+    const items: ContextMenuItem[] = [
+      { label: 'Fail node', icon: '💥', danger: true, onClick: () => onInjectFault({ kind: 'KILL', targetId: menu.id }) },
+      { label: 'Degrade (latency ×5, capacity ½)', icon: '🐢', onClick: () => onInjectFault({ kind: 'DEGRADE', targetId: menu.id }) },
+      {
+        label: `Raise error rate to ${DEFAULT_INJECTED_ERROR_RATE * 100}%`,
+        icon: '⚡',
+        onClick: () => onInjectFault({ kind: 'ERROR_RATE', targetId: menu.id, errorRate: DEFAULT_INJECTED_ERROR_RATE }),
+      },
+    ];
+    if (region) {
+      items.push({ label: `Take down ${region}`, icon: '🌐', danger: true, onClick: () => onInjectFault({ kind: 'REGION_OUTAGE', targetId: region }) });
+    }
+    return isFaulted ? [...items, clear] : items;
+  };
+
+  const menuTitle = menu
+    ? menu.kind === 'node'
+      ? nodes.find((n) => n.id === menu.id)?.label ?? 'Node'
+      : 'Link'
+    : '';
+
   return (
     <div
       ref={canvasRef}
@@ -274,13 +344,20 @@ export default function Canvas({
           {edges.map((edge) => {
             const metrics = simulationMetrics?.get(edge.sourceId);
             return (
-              <g key={edge.id} onClick={(e) => { e.stopPropagation(); selectEdge(edge.id); }} className="cursor-pointer pointer-events-auto">
+              <g
+                key={edge.id}
+                onClick={(e) => { e.stopPropagation(); selectEdge(edge.id); }}
+                onContextMenu={(e) => openMenu('edge', edge.id, e)}
+                className="cursor-pointer pointer-events-auto"
+              >
                 <EdgeRenderer
                   edge={edge}
                   nodes={nodes}
                   isActive={isSimulating && !!metrics}
                   requestCount={metrics?.requestCount || 0}
-                // We can pass isSelected prop if EdgeRenderer supports it
+                  isSelected={selectedEdgeId === edge.id}
+                  isPartitioned={faults?.partitioned.includes(edge.id)}
+                  isTripped={openBreakers?.includes(edge.id)}
                 />
                 {/* Highlight for selection */}
                 {selectedEdgeId === edge.id && (
@@ -334,7 +411,14 @@ export default function Canvas({
                 onSelect={() => selectNode(node.id)}
                 onDoubleClick={() => { }} // Double click no longer needed for connect? Keep for safety.
                 onDragStart={(e) => handleNodeDragStart(node.id, e)}
+                onContextMenu={(e) => openMenu('node', node.id, e)}
                 utilization={metrics?.utilization || 0}
+                replicas={metrics?.replicas}
+                provisioningReplicas={metrics?.provisioningReplicas}
+                findings={findings?.get(node.id)}
+                isDown={faults?.down.includes(node.id)}
+                isDegraded={faults?.degraded.includes(node.id)}
+                injectedErrorRate={faults?.errorRates[node.id]}
               />
 
               {/* Connection Handles (Overlay on top of NodeRenderer) */}
@@ -356,6 +440,8 @@ export default function Canvas({
         })}
       </div>
 
+      {menu && <ContextMenu x={menu.x} y={menu.y} title={menuTitle} items={menuItems()} onClose={closeMenu} />}
+
       {nodes.length === 0 && (
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
           <div className="text-center text-slate-500">
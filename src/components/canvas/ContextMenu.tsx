@@ -0,0 +1,59 @@
+'use client';
+
+import { useEffect } from 'react';
+
+// =============================================================================
+// Context Menu — right-click actions for a node or edge on the canvas
+// =============================================================================
+
+export interface ContextMenuItem {
+  label: string;
+  icon: string;
+  onClick: () => void;
+  danger?: boolean;
+}
+
+interface ContextMenuProps {
+  x: number; // px from the canvas' top-left corner
+  y: number;
+  title: string;
+  items: ContextMenuItem[];
+  onClose: () => void;
+}
+
+export default function ContextMenu({ x, y, title, items, onClose }: ContextMenuProps) {
+  // Escape closes the menu; clicks elsewhere are handled by the canvas
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="absolute z-50 min-w-48 bg-slate-900 border border-slate-700 rounded-lg shadow-2xl py-1 text-xs"
+      style={{ left: x, top: y }}
+      onMouseDown={(e) => e.stopPropagation()}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      <p className="px-3 py-1.5 text-[10px] font-semibold text-slate-500 uppercase tracking-wider truncate">{title}</p>
+      {items.map((item) => (
+        <button
+          key={item.label}
+          onClick={() => {
+            item.onClick();
+            onClose();
+          }}
+          className={`w-full text-left px-3 py-1.5 flex items-center gap-2 hover:bg-slate-800 transition-colors ${
+            item.danger ? 'text-red-400' : 'text-slate-200'
+          }`}
+        >
+          <span>{item.icon}</span>
+          <span>{item.label}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -11,6 +11,8 @@ interface EdgeRendererProps {
   nodes: NodeData[];
   isActive?: boolean; // Show animation during simulation
   requestCount?: number; // Number of requests flowing through
+  isPartitioned?: boolean; // Chaos: the link is cut
+  isTripped?: boolean; // The edge's circuit breaker is open
 }
 
 export default function EdgeRenderer({
@@ -19,6 +21,8 @@ export default function EdgeRenderer({
   isActive = false,
   requestCount = 0,
   isSelected = false,
+  isPartitioned = false,
+  isTripped = false,
 }: EdgeRendererProps & { isSelected?: boolean }) {
   const sourceNode = nodes.find((n) => n.id === edge.sourceId);
   const targetNode = nodes.find((n) => n.id === edge.targetId);
@@ -35,8 +39,18 @@ export default function EdgeRenderer({
   const midX = (x1 + x2) / 2;
   const path = `M ${x1} ${y1} C ${midX} ${y1}, ${midX} ${y2}, ${x2} ${y2}`;
 
-  const strokeColor = isSelected ? 'var(--color-ring)' : (isActive ? 'var(--color-primary)' : 'var(--color-muted-foreground)');
+  const mode = edge.mode ?? 'SHARE';
+  const baseColor = mode === 'ON_ERROR' ? 'var(--color-destructive)' : 'var(--color-muted-foreground)';
+  const strokeColor = isSelected
+    ? 'var(--color-ring)'
+    : isPartitioned
+      ? 'var(--color-destructive)'
+      : isTripped
+        ? '#f59e0b'
+        : (isActive ? 'var(--color-primary)' : baseColor);
   const strokeWidth = isSelected ? 4 : (isActive ? 3 : 2); // thicker when selected
+  // Broadcast edges are dashed, error paths dotted
+  const dashArray = isPartitioned ? '4,6' : mode === 'BROADCAST' ? '8,4' : mode === 'ON_ERROR' ? '2,4' : undefined;
 
   return (
     <g>
@@ -46,6 +60,7 @@ export default function EdgeRenderer({
         fill="none"
         stroke={strokeColor}
         strokeWidth={strokeWidth}
+        strokeDasharray={dashArray}
         strokeLinecap="round"
         className={isActive ? 'transition-all duration-300' : ''}
       />
@@ -53,11 +68,60 @@ export default function EdgeRenderer({
       {/* Arrow head */}
       <polygon
         points={`${x2},${y2} ${x2 - 10},${y2 - 5} ${x2 - 10},${y2 + 5}`}
-        fill={isActive ? 'var(--color-primary)' : 'var(--color-muted-foreground)'}
+        fill={isActive ? 'var(--color-primary)' : baseColor}
       />
 
+      {/* Response arrow back to the caller for SYNC calls */}
+      {edge.callMode === 'SYNC' && (
+        <polygon
+          points={`${x1},${y1} ${x1 + 10},${y1 - 5} ${x1 + 10},${y1 + 5}`}
+          fill={isActive ? 'var(--color-primary)' : baseColor}
+        />
+      )}
+
+      {/* Weight label for non-default shares */}
+      {mode !== 'BROADCAST' && edge.weight !== undefined && edge.weight !== 1 && (
+        <text
+          x={midX}
+          y={(y1 + y2) / 2 + 16}
+          textAnchor="middle"
+          fill="var(--color-muted-foreground)"
+          fontSize="10"
+          fontFamily="monospace"
+        >
+          w={edge.weight}
+        </text>
+      )}
+
+      {/* Cut marker on a partitioned link */}
+      {isPartitioned && (
+        <text
+          x={midX}
+          y={(y1 + y2) / 2 + 5}
+          textAnchor="middle"
+          fill="var(--color-destructive)"
+          fontSize="16"
+          fontWeight="bold"
+        >
+          ✕
+        </text>
+      )}
+
+      {/* Breaker marker on a tripped call path */}
+      {isTripped && !isPartitioned && (
+        <text
+          x={midX}
+          y={(y1 + y2) / 2 + 5}
+          textAnchor="middle"
+          fill="#f59e0b"
+          fontSize="14"
+        >
+          ⚡
+        </text>
+      )}
+
       {/* Animated dots for active edges */}
-      {isActive && (
+      {isActive && !isPartitioned && !isTripped && (
         <>
           <circle r="4" fill="var(--color-primary)">
             <animateMotion
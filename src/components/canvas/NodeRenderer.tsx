@@ -1,6 +1,7 @@
 'use client';
 
 import { NodeData, NODE_VISUALS } from '@/core/types';
+import { Finding, SEVERITY_RANK } from '@/core/sim/analyzer';
 
 // =============================================================================
 // Node Renderer — renders a single node on the canvas
@@ -12,7 +13,61 @@ interface NodeRendererProps {
   onSelect: () => void;
   onDoubleClick: () => void;
   onDragStart: (e: React.MouseEvent) => void;
+  onContextMenu?: (e: React.MouseEvent) => void;
   utilization?: number; // 0-1 for visual feedback during simulation
+  replicas?: number; // autoscaled replicas serving traffic
+  provisioningReplicas?: number; // replicas still starting up
+  findings?: Finding[]; // analyzer results about this node
+  // Injected chaos faults
+  isDown?: boolean;
+  isDegraded?: boolean;
+  injectedErrorRate?: number;
+}
+
+const FINDING_STYLES = {
+  critical: { icon: '⛔', badge: 'bg-red-500 text-white', text: 'text-red-400' },
+  warning: { icon: '⚠️', badge: 'bg-yellow-500 text-slate-900', text: 'text-yellow-400' },
+  info: { icon: 'ℹ️', badge: 'bg-blue-500 text-white', text: 'text-blue-400' },
+};
+
+// Badge with a hover card explaining each finding and how to fix it
+function FindingsBadge({ findings }: { findings: Finding[] }) {
+  const worst = findings.reduce((a, b) => (SEVERITY_RANK[b.severity] > SEVERITY_RANK[a.severity] ? b : a));
+  const style = FINDING_STYLES[worst.severity];
+
+  return (
+    <div className="absolute -top-2 -right-2 group z-10" onMouseDown={(e) => e.stopPropagation()}>
+      <div className={`min-w-5 h-5 px-1 rounded-full flex items-center justify-center text-[10px] font-bold shadow ${style.badge}`}>
+        {style.icon}{findings.length > 1 && <span className="ml-0.5">{findings.length}</span>}
+      </div>
+      <div className="hidden group-hover:block absolute left-6 top-0 w-64 bg-slate-900 border border-slate-700 rounded-lg shadow-2xl p-3 space-y-3 cursor-default">
+        {findings.map((f) => (
+          <div key={f.id} className="text-xs">
+            <p className={`font-semibold ${FINDING_STYLES[f.severity].text}`}>
+              {FINDING_STYLES[f.severity].icon} {f.title}
+            </p>
+            <p className="text-slate-300 mt-1">{f.detail}</p>
+            <p className="text-green-400 mt-1">→ {f.suggestion}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Tags along the top edge naming the faults currently injected into the node
+function FaultTags({ isDown, isDegraded, injectedErrorRate }: { isDown: boolean; isDegraded: boolean; injectedErrorRate?: number }) {
+  return (
+    <div className="absolute -top-2.5 left-2 flex gap-1">
+      {isDown && <span className="px-1.5 rounded bg-red-600 text-white text-[9px] font-bold tracking-wider">DOWN</span>}
+      {isDegraded && <span className="px-1.5 rounded bg-amber-500 text-slate-900 text-[9px] font-bold tracking-wider">SLOW</span>}
+      {injectedErrorRate !== undefined && (
+        <span className="px-1.5 rounded bg-orange-500 text-white text-[9px] font-bold tracking-wider">
+          ERR {(injectedErrorRate * 100).toFixed(0)}%
+        </span>
+      )}
+    </div>
+  );
 }
 
 export default function NodeRenderer({
@@ -21,7 +76,14 @@ export default function NodeRenderer({
   onSelect,
   onDoubleClick,
   onDragStart,
+  onContextMenu,
   utilization = 0,
+  replicas = 1,
+  provisioningReplicas = 0,
+  findings = [],
+  isDown = false,
+  isDegraded = false,
+  injectedErrorRate,
 }: NodeRendererProps) {
   const visual = NODE_VISUALS[node.type] ?? NODE_VISUALS.REST_API;
 
@@ -37,7 +99,7 @@ export default function NodeRenderer({
     <div
       className={`
         absolute w-32 h-24 rounded-xl cursor-move
-        ${visual.bgClass} border-2 ${visual.borderClass}
+        ${visual.bgClass} border-2 ${isDown ? 'border-red-500 border-dashed' : visual.borderClass}
         ${isSelected ? 'ring-2 ring-white ring-offset-2 ring-offset-slate-900' : ''}
         backdrop-blur-sm shadow-lg
         transition-shadow duration-200
@@ -58,15 +120,21 @@ export default function NodeRenderer({
         onDoubleClick();
       }}
       onMouseDown={onDragStart}
+      onContextMenu={onContextMenu}
     >
       {/* Node Icon */}
-      <span className="text-2xl">{visual.icon}</span>
+      <span className={`text-2xl ${isDown ? 'grayscale opacity-40' : ''}`}>{visual.icon}</span>
 
       {/* Node Label */}
-      <span className="text-xs font-semibold text-foreground text-center px-2 truncate w-full">
+      <span className={`text-xs font-semibold text-center px-2 truncate w-full ${isDown ? 'text-muted-foreground line-through' : 'text-foreground'}`}>
         {node.label}
       </span>
 
+      {/* Chaos faults */}
+      {(isDown || isDegraded || injectedErrorRate !== undefined) && (
+        <FaultTags isDown={isDown} isDegraded={isDegraded} injectedErrorRate={injectedErrorRate} />
+      )}
+
       {/* Utilization Bar (only show during simulation) */}
       {utilization > 0 && (
         <div className="absolute bottom-1 left-2 right-2 h-1 bg-slate-700 rounded-full overflow-hidden">
@@ -77,6 +145,20 @@ export default function NodeRenderer({
         </div>
       )}
 
+      {/* Replica count while autoscaling has more than one (or some starting) */}
+      {(replicas > 1 || provisioningReplicas > 0) && (
+        <div
+          className="absolute -bottom-2.5 right-2 px-1.5 rounded bg-slate-800 border border-slate-600 text-[9px] font-mono font-bold text-slate-200"
+          title={`${replicas} replicas serving${provisioningReplicas > 0 ? `, ${provisioningReplicas} starting` : ''}`}
+        >
+          ×{replicas}
+          {provisioningReplicas > 0 && <span className="text-amber-400"> +{provisioningReplicas}</span>}
+        </div>
+      )}
+
+      {/* Analyzer findings */}
+      {findings.length > 0 && <FindingsBadge findings={findings} />}
+
       {/* Connection points */}
       <div className="absolute -left-2 top-1/2 w-3 h-3 bg-slate-600 border border-slate-400 rounded-full transform -translate-y-1/2" />
       <div className="absolute -right-2 top-1/2 w-3 h-3 bg-slate-600 border border-slate-400 rounded-full transform -translate-y-1/2" />
@@ -1,17 +1,24 @@
 'use client';
 
+import { useState } from 'react';
 import { useGraphStore } from '@/core/graph/graphStore';
+import { NodeMetricsSnapshot } from '@/core/sim/engine';
+import NodeMetricsTab from './NodeMetricsTab';
 import {
   NodeType,
   ClientConfig,
+  TrafficShape,
+  KeyDistribution,
   ApiConfig,
   DatabaseConfig,
   CacheConfig,
+  CacheEvictionPolicy,
   QueueConfig,
   WorkerConfig,
   LoadBalancerConfig,
   ApiGatewayConfig,
   RateLimiterConfig,
+  RateLimitAlgorithm,
   RestApiConfig,
   GraphqlApiConfig,
   AuthServiceConfig,
@@ -23,8 +30,27 @@ import {
   BatchProcessorConfig,
   AnalyticsSinkConfig,
   CustomLogicConfig,
+  EdgeData,
+  NodeData,
+  NetworkLink,
+  Placement,
+  EdgeRouteMode,
+  EdgeCallMode,
+  ServiceTimeConfig,
+  ServiceTimeDistribution,
+  AutoscalingPolicy,
+  SCALABLE_NODE_TYPES,
   NODE_VISUALS,
 } from '@/core/types';
+import { meanServiceTime } from '@/core/sim/distributions';
+import {
+  cacheCapacity,
+  DEFAULT_CACHE_MEMORY_MB,
+  DEFAULT_ENTRY_SIZE_KB,
+  DEFAULT_KEYSPACE_SIZE,
+  DEFAULT_ZIPF_SKEW,
+} from '@/core/sim/cache';
+import { DEFAULT_PAYLOAD_KB, REGIONS, ZONES, linkLatencyMs, nodePlacement } from '@/core/sim/network';
 
 // =============================================================================
 // Inspector Panel — configures the selected node
@@ -149,10 +175,49 @@ function TextInput({
 // --------------- Config forms per node type ---------------
 
 function ClientForm({ config, onChange }: { config: ClientConfig; onChange: (c: Partial<ClientConfig>) => void }) {
+  const shape = config.trafficShape ?? 'CONSTANT';
   return (
     <>
       <Slider label="Requests/sec" value={config.rps} min={10} max={2000} step={10} unit=" RPS" onChange={(v) => onChange({ rps: v })} />
       <Slider label="Burst Multiplier" value={config.burstMultiplier} min={1} max={10} step={0.5} unit="x" onChange={(v) => onChange({ burstMultiplier: v })} />
+      <SelectField<TrafficShape> label="Traffic Shape" value={shape} options={[
+        { value: 'CONSTANT', label: 'Constant' },
+        { value: 'RAMP', label: 'Ramp Up' },
+        { value: 'SINE', label: 'Sine Wave (Diurnal)' },
+        { value: 'SPIKE', label: 'Periodic Spikes' },
+        { value: 'STEP', label: 'Step' },
+        { value: 'POISSON', label: 'Poisson Arrivals' },
+      ]} onChange={(v) => onChange({ trafficShape: v })} />
+      {shape === 'RAMP' && (
+        <Slider label="Ramp Duration" value={(config.rampDurationMs ?? 10000) / 1000} min={1} max={120} step={1} unit="s" onChange={(v) => onChange({ rampDurationMs: v * 1000 })} />
+      )}
+      {shape === 'SINE' && (
+        <>
+          <Slider label="Period" value={(config.periodMs ?? 10000) / 1000} min={2} max={300} step={1} unit="s" onChange={(v) => onChange({ periodMs: v * 1000 })} />
+          <Slider label="Amplitude" value={(config.amplitude ?? 0.5) * 100} min={0} max={100} step={5} unit="%" onChange={(v) => onChange({ amplitude: v / 100 })} />
+        </>
+      )}
+      {shape === 'SPIKE' && (
+        <>
+          <Slider label="Spike Every" value={(config.periodMs ?? 10000) / 1000} min={2} max={300} step={1} unit="s" onChange={(v) => onChange({ periodMs: v * 1000 })} />
+          <Slider label="Spike Duration" value={(config.spikeDurationMs ?? 2000) / 1000} min={0.5} max={60} step={0.5} unit="s" onChange={(v) => onChange({ spikeDurationMs: v * 1000 })} />
+        </>
+      )}
+      {shape === 'STEP' && (
+        <Slider label="Step At" value={(config.stepAtMs ?? 5000) / 1000} min={1} max={300} step={1} unit="s" onChange={(v) => onChange({ stepAtMs: v * 1000 })} />
+      )}
+      <Slider label="Writes" value={(config.writeRatio ?? 0) * 100} min={0} max={100} step={5} unit="%" onChange={(v) => onChange({ writeRatio: v / 100 })} />
+      <SelectField<KeyDistribution | 'NONE'> label="Request Keys" value={config.keyDistribution ?? 'NONE'} options={[
+        { value: 'NONE', label: 'None (caches use hit rate)' },
+        { value: 'UNIFORM', label: 'Uniform' },
+        { value: 'ZIPF', label: 'Zipf (hot keys)' },
+      ]} onChange={(v) => onChange({ keyDistribution: v === 'NONE' ? undefined : v })} />
+      {config.keyDistribution && (
+        <Slider label="Keyspace" value={config.keyspaceSize ?? DEFAULT_KEYSPACE_SIZE} min={100} max={1000000} step={100} unit=" keys" onChange={(v) => onChange({ keyspaceSize: v })} />
+      )}
+      {config.keyDistribution === 'ZIPF' && (
+        <Slider label="Skew" value={config.zipfSkew ?? DEFAULT_ZIPF_SKEW} min={0.1} max={2} step={0.1} onChange={(v) => onChange({ zipfSkew: v })} />
+      )}
     </>
   );
 }
@@ -187,10 +252,23 @@ function ApiGatewayForm({ config, onChange }: { config: ApiGatewayConfig; onChan
 }
 
 function RateLimiterForm({ config, onChange }: { config: RateLimiterConfig; onChange: (c: Partial<RateLimiterConfig>) => void }) {
+  const algorithm = config.algorithm ?? 'TOKEN_BUCKET';
   return (
     <>
+      <SelectField<RateLimitAlgorithm> label="Algorithm" value={algorithm} options={[
+        { value: 'TOKEN_BUCKET', label: 'Token Bucket' },
+        { value: 'FIXED_WINDOW', label: 'Fixed Window' },
+        { value: 'SLIDING_WINDOW', label: 'Sliding Window' },
+      ]} onChange={(v) => onChange({ algorithm: v })} />
       <Slider label="Max Requests" value={config.maxRequests} min={10} max={1000} step={10} onChange={(v) => onChange({ maxRequests: v })} />
       <Slider label="Window" value={config.windowMs / 1000} min={1} max={300} step={1} unit="s" onChange={(v) => onChange({ windowMs: v * 1000 })} />
+      {algorithm === 'TOKEN_BUCKET' && (
+        <Slider label="Burst Size" value={config.burstSize ?? config.maxRequests} min={1} max={2000} step={1} onChange={(v) => onChange({ burstSize: v })} />
+      )}
+      <SelectField label="Limit Per" value={config.keyBy ?? 'GLOBAL'} options={[
+        { value: 'GLOBAL', label: 'All traffic' },
+        { value: 'CLIENT', label: 'Each client' },
+      ]} onChange={(v) => onChange({ keyBy: v })} />
       <Slider label="Capacity" value={config.capacity} min={100} max={5000} step={100} unit=" RPS" onChange={(v) => onChange({ capacity: v })} />
     </>
   );
@@ -254,7 +332,9 @@ function CacheForm({ config, onChange }: { config: CacheConfig; onChange: (c: Pa
   return (
     <>
       <Slider label="Capacity" value={config.capacity} min={100} max={2000} step={50} unit=" RPS" onChange={(v) => onChange({ capacity: v })} />
-      <Slider label="Hit Rate" value={config.hitRate * 100} min={0} max={100} step={5} unit="%" onChange={(v) => onChange({ hitRate: v / 100 })} />
+      {!config.keyspaceModel && (
+        <Slider label="Hit Rate" value={config.hitRate * 100} min={0} max={100} step={5} unit="%" onChange={(v) => onChange({ hitRate: v / 100 })} />
+      )}
       <Slider label="TTL" value={config.ttl} min={30} max={3600} step={30} unit="s" onChange={(v) => onChange({ ttl: v })} />
     </>
   );
@@ -265,24 +345,33 @@ function RedisCacheForm({ config, onChange }: { config: RedisCacheConfig; onChan
     <>
       <Slider label="Capacity" value={config.capacity} min={100} max={5000} step={100} unit=" RPS" onChange={(v) => onChange({ capacity: v })} />
       <Slider label="Base Latency" value={config.baseLatency} min={1} max={20} step={1} unit="ms" onChange={(v) => onChange({ baseLatency: v })} />
-      <Slider label="Hit Rate" value={config.hitRate * 100} min={0} max={100} step={5} unit="%" onChange={(v) => onChange({ hitRate: v / 100 })} />
+      {!config.keyspaceModel && (
+        <Slider label="Hit Rate" value={config.hitRate * 100} min={0} max={100} step={5} unit="%" onChange={(v) => onChange({ hitRate: v / 100 })} />
+      )}
       <Slider label="TTL" value={config.ttl} min={30} max={3600} step={30} unit="s" onChange={(v) => onChange({ ttl: v })} />
       <Slider label="Max Memory" value={config.maxMemoryMB} min={64} max={4096} step={64} unit="MB" onChange={(v) => onChange({ maxMemoryMB: v })} />
-      <SelectField label="Eviction Policy" value={config.evictionPolicy} options={[
-        { value: 'LRU', label: 'LRU (Least Recently Used)' },
-        { value: 'LFU', label: 'LFU (Least Frequently Used)' },
-        { value: 'RANDOM', label: 'Random' },
-        { value: 'TTL', label: 'TTL (Volatile)' },
-      ]} onChange={(v) => onChange({ evictionPolicy: v })} />
+      <EvictionPolicyField value={config.evictionPolicy} onChange={(v) => onChange({ evictionPolicy: v })} />
     </>
   );
 }
 
+function EvictionPolicyField({ value, onChange }: { value: CacheEvictionPolicy; onChange: (v: CacheEvictionPolicy) => void }) {
+  return (
+    <SelectField label="Eviction Policy" value={value} options={[
+      { value: 'LRU', label: 'LRU (Least Recently Used)' },
+      { value: 'LFU', label: 'LFU (Least Frequently Used)' },
+      { value: 'RANDOM', label: 'Random' },
+      { value: 'TTL', label: 'TTL (Volatile)' },
+    ]} onChange={onChange} />
+  );
+}
+
 function DatabaseForm({ config, onChange }: { config: DatabaseConfig; onChange: (c: Partial<DatabaseConfig>) => void }) {
   return (
     <>
       <Slider label="Capacity" value={config.capacity} min={20} max={500} step={10} unit=" RPS" onChange={(v) => onChange({ capacity: v })} />
       <Slider label="Base Latency" value={config.baseLatency} min={10} max={200} step={5} unit="ms" onChange={(v) => onChange({ baseLatency: v })} />
+      <Slider label="Write Latency" value={config.writeLatency ?? config.baseLatency} min={10} max={400} step={5} unit="ms" onChange={(v) => onChange({ writeLatency: v })} />
       <Slider label="Max Connections" value={config.maxConnections} min={10} max={200} step={5} onChange={(v) => onChange({ maxConnections: v })} />
     </>
   );
@@ -293,8 +382,16 @@ function SqlDatabaseForm({ config, onChange }: { config: SqlDatabaseConfig; onCh
     <>
       <Slider label="Capacity" value={config.capacity} min={20} max={500} step={10} unit=" RPS" onChange={(v) => onChange({ capacity: v })} />
       <Slider label="Base Latency" value={config.baseLatency} min={5} max={200} step={5} unit="ms" onChange={(v) => onChange({ baseLatency: v })} />
+      <Slider label="Write Latency" value={config.writeLatency ?? config.baseLatency} min={5} max={400} step={5} unit="ms" onChange={(v) => onChange({ writeLatency: v })} />
       <Slider label="Max Connections" value={config.maxConnections} min={10} max={200} step={5} onChange={(v) => onChange({ maxConnections: v })} />
       <Slider label="Pool Size" value={config.poolSize} min={5} max={100} step={5} onChange={(v) => onChange({ poolSize: v })} />
+      <Slider label="Read Replicas" value={config.readReplicas ?? 0} min={0} max={10} step={1} onChange={(v) => onChange({ readReplicas: v })} />
+      {(config.readReplicas ?? 0) > 0 && (
+        <>
+          <Slider label="Replication Lag" value={config.replicationLagMs ?? 100} min={0} max={5000} step={50} unit="ms" onChange={(v) => onChange({ replicationLagMs: v })} />
+          <ReplicaRegionField value={config.replicaRegion} onChange={(v) => onChange({ replicaRegion: v })} />
+        </>
+      )}
       <SelectField label="Engine" value={config.engine} options={[
         { value: 'POSTGRES', label: 'PostgreSQL' },
         { value: 'MYSQL', label: 'MySQL' },
@@ -309,8 +406,15 @@ function NosqlDatabaseForm({ config, onChange }: { config: NosqlDatabaseConfig;
     <>
       <Slider label="Capacity" value={config.capacity} min={50} max={1000} step={50} unit=" RPS" onChange={(v) => onChange({ capacity: v })} />
       <Slider label="Base Latency" value={config.baseLatency} min={5} max={100} step={5} unit="ms" onChange={(v) => onChange({ baseLatency: v })} />
+      <Slider label="Write Latency" value={config.writeLatency ?? config.baseLatency} min={5} max={200} step={5} unit="ms" onChange={(v) => onChange({ writeLatency: v })} />
       <Slider label="Max Connections" value={config.maxConnections} min={10} max={500} step={10} onChange={(v) => onChange({ maxConnections: v })} />
       <Slider label="Replica Count" value={config.replicaCount} min={1} max={7} step={1} onChange={(v) => onChange({ replicaCount: v })} />
+      {config.replicaCount > 1 && (
+        <>
+          <Slider label="Replication Lag" value={config.replicationLagMs ?? 100} min={0} max={5000} step={50} unit="ms" onChange={(v) => onChange({ replicationLagMs: v })} />
+          <ReplicaRegionField value={config.replicaRegion} onChange={(v) => onChange({ replicaRegion: v })} />
+        </>
+      )}
       <SelectField label="Engine" value={config.engine} options={[
         { value: 'MONGODB', label: 'MongoDB' },
         { value: 'DYNAMODB', label: 'DynamoDB' },
@@ -325,8 +429,8 @@ function ObjectStorageForm({ config, onChange }: { config: ObjectStorageConfig;
     <>
       <Slider label="Capacity" value={config.capacity} min={50} max={2000} step={50} unit=" RPS" onChange={(v) => onChange({ capacity: v })} />
       <Slider label="Base Latency" value={config.baseLatency} min={10} max={500} step={10} unit="ms" onChange={(v) => onChange({ baseLatency: v })} />
+      <Slider label="Write Latency" value={config.writeLatency ?? config.baseLatency} min={10} max={1000} step={10} unit="ms" onChange={(v) => onChange({ writeLatency: v })} />
       <Slider label="Max Object Size" value={config.maxObjectSizeMB} min={1} max={5000} step={10} unit="MB" onChange={(v) => onChange({ maxObjectSizeMB: v })} />
-      <TextInput label="Region" value={config.region} onChange={(v) => onChange({ region: v })} />
     </>
   );
 }
@@ -404,11 +508,357 @@ function CustomLogicForm({ config, onChange }: { config: CustomLogicConfig; onCh
   );
 }
 
+// --------------- Placement ---------------
+
+// Known regions, plus the current one if it was typed by hand
+function regionOptions(current?: string): { value: string; label: string }[] {
+  const regions = current && !REGIONS.includes(current) ? [...REGIONS, current] : REGIONS;
+  return regions.map((r) => ({ value: r, label: r }));
+}
+
+// Reads go to the replicas, so a replica region near the clients cuts read latency
+function ReplicaRegionField({ value, onChange }: { value?: string; onChange: (v: string | undefined) => void }) {
+  return (
+    <SelectField label="Replica Region" value={value ?? ''} options={[
+      { value: '', label: 'With the primary' },
+      ...regionOptions(value),
+    ]} onChange={(v) => onChange(v || undefined)} />
+  );
+}
+
+function PlacementForm({ node, onChange }: { node: NodeData; onChange: (c: Partial<Placement>) => void }) {
+  const placement = nodePlacement(node);
+  return (
+    <div className="mt-4 pt-4 border-t border-border">
+      <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3">Placement</h4>
+      <SelectField label="Region" value={placement.region} options={regionOptions(placement.region)}
+        onChange={(v) => onChange({ region: v })} />
+      <SelectField label="Zone" value={placement.zone} options={[
+        { value: '', label: 'Any' },
+        ...ZONES.map((z) => ({ value: z, label: `${placement.region}${z}` })),
+      ]} onChange={(v) => onChange({ zone: v || undefined })} />
+      <p className="text-muted-foreground text-xs">
+        Calls between regions pay the latency between them on every hop, and Sync calls again on the way back; calls between zones of one region add
+        about a millisecond. A region outage takes down every node placed in it.
+      </p>
+    </div>
+  );
+}
+
+// --------------- Service time ---------------
+
+// Node types whose requests are served one by one at baseLatency
+const NO_SERVICE_TIME: NodeType[] = ['CLIENT', 'QUEUE', 'RATE_LIMITER', 'BATCH_PROCESSOR'];
+
+function ServiceTimeForm({
+  config,
+  onChange,
+}: {
+  config: ServiceTimeConfig & { baseLatency: number };
+  onChange: (c: Partial<ServiceTimeConfig>) => void;
+}) {
+  const distribution = config.serviceTime ?? 'CONSTANT';
+  return (
+    <div className="mt-4 pt-4 border-t border-border">
+      <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3">Service Time</h4>
+      <SelectField<ServiceTimeDistribution> label="Distribution" value={distribution} options={[
+        { value: 'CONSTANT', label: 'Constant' },
+        { value: 'EXPONENTIAL', label: 'Exponential' },
+        { value: 'LOG_NORMAL', label: 'Log-normal' },
+        { value: 'BIMODAL', label: 'Bimodal (pauses)' },
+      ]} onChange={(v) => onChange({ serviceTime: v })} />
+      {distribution === 'LOG_NORMAL' && (
+        <Slider label="Sigma" value={config.serviceTimeSigma ?? 0.5} min={0.1} max={2} step={0.1} onChange={(v) => onChange({ serviceTimeSigma: v })} />
+      )}
+      {distribution === 'BIMODAL' && (
+        <>
+          <Slider label="Slow Path" value={(config.slowPathRate ?? 0.05) * 100} min={1} max={50} step={1} unit="%" onChange={(v) => onChange({ slowPathRate: v / 100 })} />
+          <Slider label="Slow Path Cost" value={config.slowPathMultiplier ?? 10} min={2} max={100} step={1} unit="x" onChange={(v) => onChange({ slowPathMultiplier: v })} />
+        </>
+      )}
+      <p className="text-muted-foreground text-xs">
+        {distribution === 'CONSTANT'
+          ? 'Every request takes exactly the base latency, so p50 and p95 match until requests queue.'
+          : `Averages ${meanServiceTime(config, config.baseLatency).toFixed(1)} ms per request, but the slow draws set p95 and p99 well above the mean.`}
+      </p>
+    </div>
+  );
+}
+
+// --------------- Concurrency ---------------
+
+function ConcurrencyForm({
+  config,
+  onChange,
+}: {
+  config: ServiceTimeConfig & { capacity: number; baseLatency: number; maxConcurrency?: number };
+  onChange: (c: { maxConcurrency?: number }) => void;
+}) {
+  // Little's law: slots busy at full capacity = rate × time each request holds one
+  const busyAtCapacity = Math.max(1, Math.ceil((config.capacity * meanServiceTime(config, config.baseLatency)) / 1000));
+  return (
+    <div className="mt-4 pt-4 border-t border-border">
+      <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3">Concurrency</h4>
+      <Toggle label="Limit Open Calls" value={config.maxConcurrency !== undefined} onChange={(v) => onChange({ maxConcurrency: v ? busyAtCapacity : undefined })} />
+      {config.maxConcurrency !== undefined && (
+        <Slider label="Max Concurrency" value={config.maxConcurrency} min={1} max={Math.max(500, busyAtCapacity * 4)} step={1} onChange={(v) => onChange({ maxConcurrency: v })} />
+      )}
+      <p className="text-muted-foreground text-xs">
+        {config.maxConcurrency === undefined
+          ? 'Unlimited: the node keeps taking work however many Sync calls it is waiting on.'
+          : `Each open Sync call holds a slot, so a slow callee stalls this node once all are taken. Serving at full capacity keeps about ${busyAtCapacity} busy before any waiting.`}
+      </p>
+    </div>
+  );
+}
+
+// --------------- Cache keyspace ---------------
+
+function CacheKeyspaceForm({
+  config,
+  withMemory,
+  onChange,
+}: {
+  config: CacheConfig;
+  withMemory: boolean; // REDIS_CACHE already shows memory and eviction
+  onChange: (c: Partial<CacheConfig>) => void;
+}) {
+  return (
+    <div className="mt-4 pt-4 border-t border-border">
+      <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3">Keyspace Model</h4>
+      <Toggle label="Track Entries" value={!!config.keyspaceModel} onChange={(v) => onChange({ keyspaceModel: v })} />
+      {config.keyspaceModel && (
+        <>
+          <Slider label="Entry Size" value={config.entrySizeKB ?? DEFAULT_ENTRY_SIZE_KB} min={1} max={1024} step={1} unit="KB" onChange={(v) => onChange({ entrySizeKB: v })} />
+          {withMemory && (
+            <>
+              <Slider label="Max Memory" value={config.maxMemoryMB ?? DEFAULT_CACHE_MEMORY_MB} min={64} max={4096} step={64} unit="MB" onChange={(v) => onChange({ maxMemoryMB: v })} />
+              <EvictionPolicyField value={config.evictionPolicy ?? 'LRU'} onChange={(v) => onChange({ evictionPolicy: v })} />
+            </>
+          )}
+          <p className="text-muted-foreground text-xs">
+            Holds up to {cacheCapacity(config).toLocaleString()} entries. Hit rate now depends on the keys clients
+            request: the cache starts cold, and expiring hot keys send a burst of misses downstream.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+// --------------- Autoscaling ---------------
+
+const DEFAULT_AUTOSCALING: AutoscalingPolicy = {
+  minReplicas: 1,
+  maxReplicas: 5,
+  targetUtilization: 0.7,
+  cooldownTicks: 30,
+  provisioningTicks: 20,
+};
+
+function AutoscalingForm({
+  policy,
+  onChange,
+}: {
+  policy?: AutoscalingPolicy;
+  onChange: (c: { autoscaling?: AutoscalingPolicy }) => void;
+}) {
+  const update = (patch: Partial<AutoscalingPolicy>) => {
+    const next = { ...DEFAULT_AUTOSCALING, ...policy, ...patch };
+    // Keep the range valid whichever end moved
+    if (patch.minReplicas !== undefined) next.maxReplicas = Math.max(next.maxReplicas, next.minReplicas);
+    if (patch.maxReplicas !== undefined) next.minReplicas = Math.min(next.minReplicas, next.maxReplicas);
+    onChange({ autoscaling: next });
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-border">
+      <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3">Autoscaling</h4>
+      <Toggle label="Enabled" value={!!policy} onChange={(v) => onChange({ autoscaling: v ? DEFAULT_AUTOSCALING : undefined })} />
+      {policy && (
+        <>
+          <Slider label="Min Replicas" value={policy.minReplicas} min={1} max={20} onChange={(v) => update({ minReplicas: v })} />
+          <Slider label="Max Replicas" value={policy.maxReplicas} min={1} max={50} onChange={(v) => update({ maxReplicas: v })} />
+          <Slider label="Target Utilization" value={policy.targetUtilization * 100} min={10} max={95} step={5} unit="%" onChange={(v) => update({ targetUtilization: v / 100 })} />
+          <Slider label="Cooldown" value={policy.cooldownTicks} min={1} max={300} step={1} unit=" ticks" onChange={(v) => update({ cooldownTicks: v })} />
+          <Slider label="Provisioning Delay" value={policy.provisioningTicks} min={0} max={300} step={1} unit=" ticks" onChange={(v) => update({ provisioningTicks: v })} />
+          <p className="text-muted-foreground text-xs">
+            Each replica adds the node&apos;s full capacity. A high minimum wastes idle replicas; a low one leaves
+            traffic queueing while new replicas provision.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+// --------------- Edge routing ---------------
+
+function EdgeForm({
+  edge,
+  defaultLatencyMs,
+  onChange,
+}: {
+  edge: EdgeData;
+  defaultLatencyMs: number; // one-way latency between the endpoints' regions
+  onChange: (e: Partial<EdgeData>) => void;
+}) {
+  const mode = edge.mode ?? 'SHARE';
+  return (
+    <>
+      <SelectField<EdgeRouteMode> label="Routing Mode" value={mode} options={[
+        { value: 'SHARE', label: 'Share (weighted split)' },
+        { value: 'BROADCAST', label: 'Broadcast (fan-out copy)' },
+        { value: 'ON_ERROR', label: 'On Error (fallback path)' },
+      ]} onChange={(v) => onChange({ mode: v })} />
+      <SelectField<EdgeCallMode> label="Call Mode" value={edge.callMode ?? 'ASYNC'} options={[
+        { value: 'ASYNC', label: 'Async (fire-and-forget)' },
+        { value: 'SYNC', label: 'Sync (wait for response)' },
+      ]} onChange={(v) => onChange({ callMode: v })} />
+      {mode !== 'BROADCAST' && (
+        <Slider label="Weight" value={edge.weight ?? 1} min={0} max={10} step={1} onChange={(v) => onChange({ weight: v })} />
+      )}
+      <p className="text-muted-foreground text-xs">
+        {mode === 'SHARE' && 'Requests are split across sibling Share edges in proportion to their weights. Load balancers apply their algorithm to this split.'}
+        {mode === 'BROADCAST' && 'Every request is also copied down this edge. The original completes once all copies finish.'}
+        {mode === 'ON_ERROR' && 'Only requests that fail at the source node take this edge, e.g. to a fallback service.'}
+      </p>
+      {edge.callMode === 'SYNC' && (
+        <p className="text-muted-foreground text-xs mt-2">
+          The source holds a concurrency slot until the call returns, so a slow target backs up into the caller.
+        </p>
+      )}
+      <NetworkForm edge={edge} defaultLatencyMs={defaultLatencyMs} onChange={onChange} />
+      <ResilienceForm edge={edge} onChange={onChange} />
+    </>
+  );
+}
+
+// Latency, bandwidth and loss of the link; unset values follow the endpoints' placement
+function NetworkForm({
+  edge,
+  defaultLatencyMs,
+  onChange,
+}: {
+  edge: EdgeData;
+  defaultLatencyMs: number;
+  onChange: (e: Partial<EdgeData>) => void;
+}) {
+  const network = edge.network ?? {};
+  const update = (patch: Partial<NetworkLink>) => onChange({ network: { ...network, ...patch } });
+  return (
+    <div className="mt-4 pt-4 border-t border-border">
+      <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3">Network</h4>
+      <Slider label="Latency" value={network.latencyMs ?? defaultLatencyMs} min={0} max={300} step={1}
+        unit={network.latencyMs === undefined ? 'ms (from regions)' : 'ms'} onChange={(v) => update({ latencyMs: v })} />
+      {network.latencyMs !== undefined && (
+        <button
+          onClick={() => update({ latencyMs: undefined })}
+          className="mb-3 text-xs text-primary hover:underline"
+        >
+          Use region latency ({defaultLatencyMs}ms)
+        </button>
+      )}
+      <Slider label="Bandwidth" value={network.bandwidthMbps ?? 0} min={0} max={1000} step={10}
+        unit={network.bandwidthMbps ? ' Mbps' : ' (unlimited)'} onChange={(v) => update({ bandwidthMbps: v > 0 ? v : undefined })} />
+      {network.bandwidthMbps !== undefined && (
+        <Slider label="Payload" value={network.payloadKB ?? DEFAULT_PAYLOAD_KB} min={1} max={1024} step={1} unit="KB"
+          onChange={(v) => update({ payloadKB: v })} />
+      )}
+      <Slider label="Packet Loss" value={(network.packetLoss ?? 0) * 100} min={0} max={20} step={0.5} unit="%"
+        onChange={(v) => update({ packetLoss: v > 0 ? v / 100 : undefined })} />
+      <p className="text-muted-foreground text-xs">
+        Each request pays the latency on the way there, and a Sync call again when its answer comes back. A saturated link queues requests
+        behind each other, and each lost request waits out a retransmission timeout before going again.
+      </p>
+    </div>
+  );
+}
+
+// Caller-side timeout, retry and circuit breaker policy for an edge
+function ResilienceForm({ edge, onChange }: { edge: EdgeData; onChange: (e: Partial<EdgeData>) => void }) {
+  const retry = edge.retry;
+  const breaker = edge.circuitBreaker;
+  return (
+    <div className="mt-4 pt-4 border-t border-border">
+      <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3">Resilience</h4>
+      <Slider label="Timeout" value={edge.timeoutMs ?? 0} min={0} max={5000} step={50} unit={edge.timeoutMs ? 'ms' : ' (off)'}
+        onChange={(v) => onChange({ timeoutMs: v > 0 ? v : undefined })} />
+      <Slider label="Retries" value={retry?.maxRetries ?? 0} min={0} max={5}
+        onChange={(v) => onChange({ retry: v > 0 ? { backoffMs: 100, jitter: 0.5, ...retry, maxRetries: v } : undefined })} />
+      {retry && (
+        <>
+          <Slider label="Backoff" value={retry.backoffMs} min={10} max={2000} step={10} unit="ms"
+            onChange={(v) => onChange({ retry: { ...retry, backoffMs: v } })} />
+          <Slider label="Jitter" value={retry.jitter} min={0} max={1} step={0.1}
+            onChange={(v) => onChange({ retry: { ...retry, jitter: v } })} />
+        </>
+      )}
+      <Toggle label="Circuit Breaker" value={!!breaker}
+        onChange={(v) => onChange({ circuitBreaker: v ? { failureThreshold: 5, openMs: 5000 } : undefined })} />
+      {breaker && (
+        <>
+          <Slider label="Failures to Open" value={breaker.failureThreshold} min={1} max={50}
+            onChange={(v) => onChange({ circuitBreaker: { ...breaker, failureThreshold: v } })} />
+          <Slider label="Open For" value={breaker.openMs} min={500} max={30000} step={500} unit="ms"
+            onChange={(v) => onChange({ circuitBreaker: { ...breaker, openMs: v } })} />
+        </>
+      )}
+      <p className="text-muted-foreground text-xs">
+        Slow calls past the timeout count as errors. Failed calls are retried after a doubling, jittered backoff,
+        adding load to the target; an open breaker fast-fails calls until the target has had time to recover.
+      </p>
+    </div>
+  );
+}
+
 // --------------- Main Inspector ---------------
 
-export default function InspectorPanel() {
-  const { selectedNodeId, nodes, updateNodeConfig, removeNode } = useGraphStore();
+interface InspectorPanelProps {
+  /** Live per-node metrics while a simulation is running */
+  nodeMetrics?: Map<string, NodeMetricsSnapshot>;
+}
+
+export default function InspectorPanel({ nodeMetrics }: InspectorPanelProps = {}) {
+  const { selectedNodeId, selectedEdgeId, nodes, edges, updateNodeConfig, updateEdge, removeNode, removeEdge } = useGraphStore();
+  const [tab, setTab] = useState<'config' | 'metrics'>('config');
   const selectedNode = nodes.find((n) => n.id === selectedNodeId);
+  const selectedEdge = edges.find((e) => e.id === selectedEdgeId);
+
+  if (!selectedNode && selectedEdge) {
+    const source = nodes.find((n) => n.id === selectedEdge.sourceId);
+    const target = nodes.find((n) => n.id === selectedEdge.targetId);
+    return (
+      <div className="w-72 bg-card/80 backdrop-blur-md border-l border-border p-4 flex flex-col">
+        <h2 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-4">
+          Inspector
+        </h2>
+
+        {/* Edge Info */}
+        <div className="bg-muted/50 rounded-lg p-3 mb-4 border border-border">
+          <h3 className="text-foreground font-medium text-sm truncate">
+            {source?.label ?? selectedEdge.sourceId} → {target?.label ?? selectedEdge.targetId}
+          </h3>
+          <p className="text-muted-foreground text-[10px] font-mono">{selectedEdge.id}</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          <EdgeForm
+            edge={selectedEdge}
+            defaultLatencyMs={source && target ? linkLatencyMs({ ...selectedEdge, network: undefined }, source, target) : 0}
+            onChange={(patch) => updateEdge(selectedEdge.id, patch)}
+          />
+        </div>
+
+        <button
+          onClick={() => removeEdge(selectedEdge.id)}
+          className="mt-4 w-full py-2 bg-destructive/10 text-destructive rounded-lg hover:bg-destructive/20 transition-colors text-sm hover:shadow-[0_0_10px_rgba(239,68,68,0.2)]"
+        >
+          Delete Edge
+        </button>
+      </div>
+    );
+  }
 
   if (!selectedNode) {
     return (
@@ -422,6 +872,8 @@ export default function InspectorPanel() {
   }
 
   const visual = NODE_VISUALS[selectedNode.type];
+  const liveMetrics = nodeMetrics?.get(selectedNode.id);
+  const showMetrics = tab === 'metrics' && liveMetrics;
   const handleChange = (config: Record<string, unknown>) => {
     updateNodeConfig(selectedNode.id, config);
   };
@@ -469,59 +921,113 @@ export default function InspectorPanel() {
         </div>
       </div>
 
-      {/* Job Spec / Description */}
-      {!['CLIENT', 'CUSTOM_LOGIC'].includes(selectedNode.type) && (
-        <div className="mb-4">
-          <label className="text-muted-foreground text-sm block mb-1">Job Description</label>
-          <textarea
-            value={(selectedNode.config as any).jobSpec || ''}
-            onChange={(e) => handleChange({ jobSpec: e.target.value })}
-            placeholder="Describe what this node does..."
-            className="w-full bg-secondary text-foreground rounded-lg px-3 py-2 text-xs font-mono border border-border h-16 resize-none focus:outline-none focus:ring-1 focus:ring-primary"
-          />
-          <button
-            onClick={async () => {
-              const description = (selectedNode.config as any).jobSpec;
-              if (!description) {
-                alert('Please add a description first');
-                return;
-              }
-              const btn = document.activeElement as HTMLButtonElement;
-              if (btn) btn.disabled = true;
-              try {
-                const res = await fetch('/api/v1/ai/generate', {
-                  method: 'POST',
-                  headers: { 'Content-Type': 'application/json' },
-                  body: JSON.stringify({
-                    nodeId: selectedNode.id,
-                    nodeType: selectedNode.type,
-                    nodeLabel: selectedNode.label,
-                    description,
-                    currentCode: (selectedNode.config as any).customCode,
-                  }),
-                });
-                const data = await res.json();
-                if (data.success && data.code) {
-                  handleChange({ customCode: data.code });
-                  alert('✅ Code generated! Switch to Code view to see it.');
-                } else {
-                  alert('Failed to generate: ' + (data.error || 'Unknown error'));
-                }
-              } catch (err: any) {
-                alert('Error: ' + err.message);
-              } finally {
-                if (btn) btn.disabled = false;
-              }
-            }}
-            className="mt-2 w-full py-1.5 bg-gradient-to-r from-primary to-purple-600 text-primary-foreground rounded-lg hover:opacity-90 transition-opacity text-xs font-medium flex items-center justify-center gap-1"
-          >
-            ✨ Generate Code
-          </button>
+      {/* Config / Metrics tabs (metrics only exist during a run) */}
+      {liveMetrics && (
+        <div className="flex bg-muted rounded-lg border border-border overflow-hidden mb-4">
+          {(['config', 'metrics'] as const).map((t) => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`flex-1 px-3 py-1.5 text-xs font-medium capitalize transition-colors ${tab === t
+                ? 'bg-primary/20 text-primary'
+                : 'text-muted-foreground hover:text-foreground'
+                }`}
+            >
+              {t}
+            </button>
+          ))}
         </div>
       )}
 
-      {/* Config Form */}
-      <div className="flex-1 overflow-y-auto">{renderForm()}</div>
+      {showMetrics ? (
+        <div className="flex-1 overflow-y-auto">
+          <NodeMetricsTab metrics={liveMetrics} />
+        </div>
+      ) : (
+        <>
+          {/* Job Spec / Description */}
+          {!['CLIENT', 'CUSTOM_LOGIC'].includes(selectedNode.type) && (
+            <div className="mb-4">
+              <label className="text-muted-foreground text-sm block mb-1">Job Description</label>
+              <textarea
+                value={(selectedNode.config as any).jobSpec || ''}
+                onChange={(e) => handleChange({ jobSpec: e.target.value })}
+                placeholder="Describe what this node does..."
+                className="w-full bg-secondary text-foreground rounded-lg px-3 py-2 text-xs font-mono border border-border h-16 resize-none focus:outline-none focus:ring-1 focus:ring-primary"
+              />
+              <button
+                onClick={async () => {
+                  const description = (selectedNode.config as any).jobSpec;
+                  if (!description) {
+                    alert('Please add a description first');
+                    return;
+                  }
+                  const btn = document.activeElement as HTMLButtonElement;
+                  if (btn) btn.disabled = true;
+                  try {
+                    const res = await fetch('/api/v1/ai/generate', {
+                      method: 'POST',
+                      headers: { 'Content-Type': 'application/json' },
+                      body: JSON.stringify({
+                        nodeId: selectedNode.id,
+                        nodeType: selectedNode.type,
+                        nodeLabel: selectedNode.label,
+                        description,
+                        currentCode: (selectedNode.config as any).customCode,
+                      }),
+                    });
+                    const data = await res.json();
+                    if (data.success && data.code) {
+                      handleChange({ customCode: data.code });
+                      alert('✅ Code generated! Switch to Code view to see it.');
+                    } else {
+                      alert('Failed to generate: ' + (data.error || 'Unknown error'));
+                    }
+                  } catch (err: any) {
+                    alert('Error: ' + err.message);
+                  } finally {
+                    if (btn) btn.disabled = false;
+                  }
+                }}
+                className="mt-2 w-full py-1.5 bg-gradient-to-r from-primary to-purple-600 text-primary-foreground rounded-lg hover:opacity-90 transition-opacity text-xs font-medium flex items-center justify-center gap-1"
+              >
+                ✨ Generate Code
+              </button>
+            </div>
+          )}
+
+          {/* Config Form */}
+          <div className="flex-1 overflow-y-auto">
+            {renderForm()}
+            {!NO_SERVICE_TIME.includes(selectedNode.type) && (
+              <ServiceTimeForm
+                config={selectedNode.config as ServiceTimeConfig & { baseLatency: number }}
+                onChange={handleChange}
+              />
+            )}
+            {!NO_SERVICE_TIME.includes(selectedNode.type) && (
+              <ConcurrencyForm
+                config={selectedNode.config as ServiceTimeConfig & { capacity: number; baseLatency: number; maxConcurrency?: number }}
+                onChange={handleChange}
+              />
+            )}
+            {(selectedNode.type === 'CACHE' || selectedNode.type === 'REDIS_CACHE') && (
+              <CacheKeyspaceForm
+                config={selectedNode.config as CacheConfig}
+                withMemory={selectedNode.type === 'CACHE'}
+                onChange={handleChange}
+              />
+            )}
+            {SCALABLE_NODE_TYPES.includes(selectedNode.type) && (
+              <AutoscalingForm
+                policy={(selectedNode.config as { autoscaling?: AutoscalingPolicy }).autoscaling}
+                onChange={handleChange}
+              />
+            )}
+            <PlacementForm node={selectedNode} onChange={handleChange} />
+          </div>
+        </>
+      )}
 
       {/* Delete Button */}
       <button
@@ -0,0 +1,126 @@
+'use client';
+
+import { NodeMetricsSnapshot } from '@/core/sim/engine';
+
+// =============================================================================
+// Node Metrics Tab — live drill-down for the selected node during a run
+// =============================================================================
+
+function Stat({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="flex items-baseline justify-between py-1.5 border-b border-border/50" title={hint}>
+      <span className="text-muted-foreground text-xs">{label}</span>
+      <span className="text-foreground text-sm font-mono">{value}</span>
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="mb-4">
+      <h4 className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wider mb-1">{title}</h4>
+      {children}
+    </div>
+  );
+}
+
+export default function NodeMetricsTab({ metrics }: { metrics: NodeMetricsSnapshot }) {
+  const { run, cache, database, consumerLag } = metrics;
+  const lookups = cache ? cache.hits + cache.misses : 0;
+  const ms = (value: number) => `${value.toFixed(1)} ms`;
+
+  return (
+    <div>
+      <Section title="Traffic">
+        <Stat label="Arrivals" value={run.arrivals.toLocaleString()} />
+        <Stat label="Completions" value={run.completions.toLocaleString()} />
+        <Stat label="Errors" value={run.errors.toLocaleString()} />
+        <Stat label="Drops" value={run.drops.toLocaleString()} />
+        {run.throttled > 0 && <Stat label="Throttled" value={run.throttled.toLocaleString()} hint="Refused by a rate limit" />}
+      </Section>
+
+      <Section title="Timing">
+        <Stat label="Avg service time" value={ms(run.avgServiceTime)} />
+        <Stat label="p95 service time" value={ms(run.p95ServiceTime)} />
+        <Stat label="Avg time queued" value={ms(run.avgQueueTime)} />
+        <Stat
+          label="Share of latency"
+          value={`${(run.latencyShare * 100).toFixed(1)}%`}
+          hint="Portion of end-to-end latency of successful requests spent at this node"
+        />
+        <div className="h-1.5 mt-2 bg-muted rounded-full overflow-hidden">
+          <div className="h-full bg-primary" style={{ width: `${run.latencyShare * 100}%` }} />
+        </div>
+      </Section>
+
+      {consumerLag && (
+        <Section title="Consumer Lag">
+          <Stat label="Waiting" value={`${consumerLag.messages.toLocaleString()} msgs`} />
+          <Stat label="Oldest waiting" value={ms(consumerLag.ms)} hint="How long the oldest unconsumed message has been waiting" />
+          {consumerLag.partitions?.map((waiting, p) => (
+            <Stat key={p} label={`Partition ${p}`} value={`${waiting.toLocaleString()} msgs`} />
+          ))}
+        </Section>
+      )}
+
+      {cache && (
+        <Section title="Cache">
+          <Stat
+            label="Hit rate"
+            value={lookups > 0 ? `${((cache.hits / lookups) * 100).toFixed(1)}%` : '—'}
+            hint="Measured from lookups against the entries the cache actually holds"
+          />
+          <Stat label="Entries" value={cache.entries.toLocaleString()} />
+          <Stat
+            label="Herd misses"
+            value={cache.herdMisses.toLocaleString()}
+            hint="Misses on a key another request was already fetching — a thundering herd on the backend"
+          />
+          <Stat label="Expirations" value={cache.expirations.toLocaleString()} />
+          <Stat label="Evictions" value={cache.evictions.toLocaleString()} />
+          <Stat label="Invalidations" value={cache.invalidations.toLocaleString()} hint="Entries dropped because a write changed the key" />
+        </Section>
+      )}
+
+      {database && (
+        <Section title="Database">
+          <Stat label="Read replicas" value={database.readReplicas.toLocaleString()} />
+          {database.readReplicas > 0 && (
+            <>
+              <Stat
+                label="Replica lag"
+                value={ms(database.replicationLagMs)}
+                hint="How far replicas trail the primary: the configured lag plus any backlog of writes still to apply"
+              />
+              <Stat
+                label="Stale reads"
+                value={database.staleReads.toLocaleString()}
+                hint="Keyed reads served by a replica before it had the key's latest write"
+              />
+            </>
+          )}
+          <Stat
+            label="Rejected connections"
+            value={database.rejectedConnections.toLocaleString()}
+            hint="Requests refused because every connection up to maxConnections was in use"
+          />
+        </Section>
+      )}
+
+      <Section title="Right Now">
+        <Stat label="Utilization" value={`${(metrics.utilization * 100).toFixed(0)}%`} />
+        <Stat label="Queue depth" value={metrics.queueDepth.toLocaleString()} />
+        <Stat label="Open sync calls" value={metrics.inFlight.toLocaleString()} />
+        <Stat
+          label="Replicas"
+          value={`${metrics.replicas}${metrics.provisioningReplicas > 0 ? ` (+${metrics.provisioningReplicas} starting)` : ''}`}
+        />
+        <Stat
+          label="Monthly cost"
+          value={`$${metrics.monthlyCost.toFixed(2)}`}
+          hint="Estimated from the node type's cost model at this run's average footprint and traffic"
+        />
+      </Section>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import { useState } from 'react';
+import { LevelObjective } from '@/core/types';
+import { CapacityReport, DEFAULT_CAPACITY_OBJECTIVES } from '@/core/sim/capacity';
+import { formatObjective } from '@/core/tutorial/evaluator';
+
+// -----------------------------------------------------------------------------
+// Capacity Planner — stress-test the graph for its max sustainable RPS
+// -----------------------------------------------------------------------------
+
+interface CapacityPlannerProps {
+  findCapacity: (objectives: LevelObjective[]) => Promise<CapacityReport>;
+  onClose: () => void;
+}
+
+const DEFAULT_P95 = DEFAULT_CAPACITY_OBJECTIVES.find((o) => o.metric === 'p95')?.value ?? 300;
+const DEFAULT_ERROR_RATE = DEFAULT_CAPACITY_OBJECTIVES.find((o) => o.metric === 'errorRate')?.value ?? 0.01;
+
+function formatRps(rps: number): string {
+  return `${rps.toFixed(rps < 10 ? 1 : 0)} RPS`;
+}
+
+export default function CapacityPlanner({ findCapacity, onClose }: CapacityPlannerProps) {
+  const [p95, setP95] = useState(DEFAULT_P95);
+  const [errorPercent, setErrorPercent] = useState(DEFAULT_ERROR_RATE * 100);
+  const [running, setRunning] = useState(false);
+  const [report, setReport] = useState<CapacityReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      setReport(await findCapacity([
+        { metric: 'p95', operator: '<', value: p95 },
+        { metric: 'errorRate', operator: '<', value: errorPercent / 100 },
+      ]));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-3xl max-h-[80vh] flex flex-col shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            🏋️ Stress Test
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">✕</button>
+        </div>
+
+        {/* Targets */}
+        <div className="flex items-end gap-4 px-6 py-4 border-b border-slate-800 text-xs">
+          <label className="flex flex-col gap-1 text-slate-400">
+            p95 below (ms)
+            <input
+              type="number"
+              min={1}
+              value={p95}
+              onChange={(e) => setP95(Number(e.target.value))}
+              className="w-28 bg-slate-800 border border-slate-700 rounded px-2 py-1.5 text-slate-200 font-mono"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            Error rate below (%)
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={errorPercent}
+              onChange={(e) => setErrorPercent(Number(e.target.value))}
+              className="w-28 bg-slate-800 border border-slate-700 rounded px-2 py-1.5 text-slate-200 font-mono"
+            />
+          </label>
+          <button
+            onClick={run}
+            disabled={running}
+            className="px-4 py-1.5 bg-green-500/10 text-green-500 border border-green-500/20 rounded-lg hover:bg-green-500/20 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {running ? 'Running…' : 'Find max RPS'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="px-6 py-2 border-b border-slate-800 text-xs text-red-400">Stress test failed: {error}</div>
+        )}
+
+        {!report ? (
+          <div className="p-10 text-center text-slate-500 text-sm">
+            Scales every client&apos;s rps and searches for the highest load that meets the targets.
+          </div>
+        ) : report.steps.length === 0 ? (
+          <div className="p-10 text-center text-slate-500 text-sm">
+            Add a client with some traffic to stress-test the graph.
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6">
+            {/* Summary */}
+            <div className="mb-4 text-sm text-slate-300">
+              {report.maxRps > 0 ? (
+                <p>
+                  Sustains <span className="font-mono text-green-400">{report.ceilingReached ? '≥ ' : ''}{formatRps(report.maxRps)}</span>
+                  {' '}({(report.maxRps / report.baseRps).toFixed(2)}× today&apos;s {formatRps(report.baseRps)})
+                  {' '}within {report.objectives.map(formatObjective).join(', ')}.
+                </p>
+              ) : (
+                <p className="text-red-400">No load tried met {report.objectives.map(formatObjective).join(', ')}.</p>
+              )}
+              {report.limitedBy && (
+                <p className="mt-1 text-slate-400">
+                  First to saturate: <span className="text-orange-400">{report.limitedBy.label}</span>
+                </p>
+              )}
+            </div>
+
+            {/* Steps, lightest load first */}
+            <table className="w-full text-xs font-mono">
+              <thead>
+                <tr className="text-slate-500 text-left">
+                  <th className="py-1 font-normal">Load</th>
+                  <th className="py-1 font-normal">p95</th>
+                  <th className="py-1 font-normal">Errors</th>
+                  <th className="py-1 font-normal">Refused</th>
+                  <th className="py-1 font-normal">Throughput</th>
+                  <th className="py-1 font-normal">Most loaded</th>
+                  <th className="py-1 font-normal text-right">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...report.steps].sort((a, b) => a.rps - b.rps).map((step) => (
+                  <tr key={step.scale} className="border-t border-slate-800 text-slate-300">
+                    <td className="py-1.5">{formatRps(step.rps)}</td>
+                    <td className="py-1.5">{step.metrics.p95Latency.toFixed(0)}ms</td>
+                    <td className="py-1.5">{(step.metrics.errorRate * 100).toFixed(2)}%</td>
+                    <td className="py-1.5">{((step.metrics.dropRate + step.metrics.throttleRate) * 100).toFixed(2)}%</td>
+                    <td className="py-1.5">{formatRps(step.metrics.throughput)}</td>
+                    <td className={`py-1.5 ${step.bottleneck && step.bottleneck.load > 1 ? 'text-orange-400' : ''}`}>
+                      {step.bottleneck ? `${step.bottleneck.label} (${(step.bottleneck.load * 100).toFixed(0)}%)` : '—'}
+                    </td>
+                    <td className={`py-1.5 text-right ${step.passed ? 'text-green-400' : 'text-red-400'}`}>
+                      {step.passed ? 'pass' : 'fail'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
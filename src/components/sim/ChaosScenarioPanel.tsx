@@ -0,0 +1,216 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { EdgeData, NodeData } from '@/core/types';
+import { ChaosEvent, FaultKind, DEFAULT_INJECTED_ERROR_RATE } from '@/core/sim/chaos';
+import { nodePlacement } from '@/core/sim/network';
+
+// -----------------------------------------------------------------------------
+// Chaos Scenario — faults scheduled by tick, for the current or next run
+// -----------------------------------------------------------------------------
+
+interface ChaosScenarioPanelProps {
+  nodes: NodeData[];
+  edges: EdgeData[];
+  tick: number; // current tick; new faults default to the next one
+  loadScenario: () => Promise<ChaosEvent[]>;
+  onApply: (events: ChaosEvent[]) => void;
+  onClose: () => void;
+}
+
+const FAULT_LABELS: Record<FaultKind, string> = {
+  KILL: '💥 Fail node',
+  DEGRADE: '🐢 Degrade node',
+  ERROR_RATE: '⚡ Raise error rate',
+  PARTITION: '✂️ Partition link',
+  REGION_OUTAGE: '🌐 Region outage',
+};
+
+const DEFAULT_DURATION_TICKS = 50;
+
+let nextEventId = 1;
+
+export default function ChaosScenarioPanel({ nodes, edges, tick, loadScenario, onApply, onClose }: ChaosScenarioPanelProps) {
+  const [events, setEvents] = useState<ChaosEvent[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Draft for the next event
+  const [kind, setKind] = useState<FaultKind>('KILL');
+  const [targetId, setTargetId] = useState('');
+  const [startTick, setStartTick] = useState(tick + 1);
+  const [endTick, setEndTick] = useState<number | ''>(tick + 1 + DEFAULT_DURATION_TICKS);
+  const [errorPercent, setErrorPercent] = useState(DEFAULT_INJECTED_ERROR_RATE * 100);
+
+  useEffect(() => {
+    loadScenario().then(setEvents, (err) => {
+      setError(err instanceof Error ? err.message : String(err));
+      setEvents([]);
+    });
+  }, [loadScenario]);
+
+  const nodeLabel = (id: string) => nodes.find((n) => n.id === id)?.label ?? id;
+  const targets: { value: string; label: string }[] =
+    kind === 'PARTITION'
+      ? edges.map((e) => ({ value: e.id, label: `${nodeLabel(e.sourceId)} → ${nodeLabel(e.targetId)}` }))
+      : kind === 'REGION_OUTAGE'
+        ? [...new Set(nodes.map((n) => nodePlacement(n).region))].map((r) => ({ value: r, label: r }))
+        : nodes.map((n) => ({ value: n.id, label: n.label }));
+  const target = targets.some((t) => t.value === targetId) ? targetId : targets[0]?.value;
+
+  const describeTarget = (event: ChaosEvent) => {
+    if (event.kind === 'REGION_OUTAGE') return event.targetId;
+    if (event.kind !== 'PARTITION') return nodeLabel(event.targetId);
+    const edge = edges.find((e) => e.id === event.targetId);
+    return edge ? `${nodeLabel(edge.sourceId)} → ${nodeLabel(edge.targetId)}` : event.targetId;
+  };
+
+  const add = () => {
+    if (!events || !target) return;
+    const event: ChaosEvent = {
+      id: `scenario_${nextEventId++}`,
+      kind,
+      targetId: target,
+      atTick: startTick,
+      durationTicks: endTick === '' ? undefined : Math.max(1, endTick - startTick),
+      errorRate: kind === 'ERROR_RATE' ? errorPercent / 100 : undefined,
+    };
+    setEvents([...events, event].sort((a, b) => a.atTick - b.atTick));
+  };
+
+  const inputClass = 'bg-slate-800 border border-slate-700 rounded px-2 py-1.5 text-slate-200';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-3xl max-h-[80vh] flex flex-col shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            🌪️ Chaos Scenario
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">✕</button>
+        </div>
+
+        {/* New event */}
+        <div className="flex flex-wrap items-end gap-3 px-6 py-4 border-b border-slate-800 text-xs">
+          <label className="flex flex-col gap-1 text-slate-400">
+            Fault
+            <select value={kind} onChange={(e) => setKind(e.target.value as FaultKind)} className={inputClass}>
+              {(Object.keys(FAULT_LABELS) as FaultKind[]).map((k) => (
+                <option key={k} value={k}>{FAULT_LABELS[k]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            Target
+            <select value={target ?? ''} onChange={(e) => setTargetId(e.target.value)} disabled={targets.length === 0} className={`${inputClass} max-w-48`}>
+              {targets.map((t) => (
+                <option key={t.value} value={t.value}>{t.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            Start tick
+            <input
+              type="number"
+              min={1}
+              value={startTick}
+              onChange={(e) => setStartTick(Math.max(1, Number(e.target.value)))}
+              className={`${inputClass} w-24 font-mono`}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            End tick
+            <input
+              type="number"
+              min={startTick + 1}
+              value={endTick}
+              placeholder="never"
+              onChange={(e) => setEndTick(e.target.value === '' ? '' : Number(e.target.value))}
+              className={`${inputClass} w-24 font-mono`}
+            />
+          </label>
+          {kind === 'ERROR_RATE' && (
+            <label className="flex flex-col gap-1 text-slate-400">
+              Error rate (%)
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={errorPercent}
+                onChange={(e) => setErrorPercent(Math.min(100, Math.max(0, Number(e.target.value))))}
+                className={`${inputClass} w-20 font-mono`}
+              />
+            </label>
+          )}
+          <button
+            onClick={add}
+            disabled={!events || !target}
+            className="px-4 py-1.5 bg-secondary text-secondary-foreground border border-border rounded-lg hover:bg-secondary/80 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add
+          </button>
+        </div>
+
+        {error && (
+          <div className="px-6 py-2 border-b border-slate-800 text-xs text-red-400">Couldn&apos;t load the scenario: {error}</div>
+        )}
+
+        {/* Timeline, first fault first */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {!events ? (
+            <p className="text-center text-slate-500 text-sm">Loading…</p>
+          ) : events.length === 0 ? (
+            <p className="text-center text-slate-500 text-sm">
+              No faults scheduled. Add one above to fail a node, slow it down or cut a link at a set tick; the run is at tick {tick}.
+            </p>
+          ) : (
+            <table className="w-full text-xs font-mono">
+              <thead>
+                <tr className="text-slate-500 text-left">
+                  <th className="py-1 font-normal">Fault</th>
+                  <th className="py-1 font-normal">Target</th>
+                  <th className="py-1 font-normal">Start</th>
+                  <th className="py-1 font-normal">End</th>
+                  <th className="py-1 font-normal" />
+                </tr>
+              </thead>
+              <tbody>
+                {events.map((event) => (
+                  <tr key={event.id} className={`border-t border-slate-800 ${event.atTick <= tick ? 'text-slate-500' : 'text-slate-300'}`}>
+                    <td className="py-1.5">
+                      {FAULT_LABELS[event.kind]}
+                      {event.kind === 'ERROR_RATE' && ` (${((event.errorRate ?? DEFAULT_INJECTED_ERROR_RATE) * 100).toFixed(0)}%)`}
+                    </td>
+                    <td className="py-1.5">{describeTarget(event)}</td>
+                    <td className="py-1.5">{event.atTick}</td>
+                    <td className="py-1.5">{event.durationTicks === undefined ? '—' : event.atTick + event.durationTicks}</td>
+                    <td className="py-1.5 text-right">
+                      <button
+                        onClick={() => setEvents(events.filter((e) => e.id !== event.id))}
+                        className="text-slate-500 hover:text-red-400"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between gap-4 px-6 py-4 border-t border-slate-800 text-xs">
+          <p className="text-slate-500">Faults run from their start tick up to, not including, their end tick. Faults from the canvas menu show up here too.</p>
+          <button
+            onClick={() => events && onApply(events)}
+            disabled={!events}
+            className="px-4 py-1.5 bg-green-500/10 text-green-500 border border-green-500/20 rounded-lg hover:bg-green-500/20 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
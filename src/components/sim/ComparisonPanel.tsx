@@ -0,0 +1,253 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { GraphState, NODE_VISUALS } from '@/core/types';
+import { ComparisonReport, GraphVariant, SweepSpec, numericConfigFields, numericConfigValue, sweepValues, sweepVariants } from '@/core/sim/compare';
+import { HistorySample } from '@/core/sim/history';
+import { LineChart, OVERLAY_COLORS } from './MetricsChart';
+
+// -----------------------------------------------------------------------------
+// Comparison Panel — A/B graph variants or a sweep of one config field
+// -----------------------------------------------------------------------------
+
+type Mode = 'variants' | 'sweep';
+
+type SeriesKey = 'throughput' | 'p95Latency' | 'errorRate';
+
+const SERIES: { key: SeriesKey; label: string; unit: string; scale?: number }[] = [
+  { key: 'throughput', label: 'Throughput', unit: 'RPS' },
+  { key: 'p95Latency', label: 'p95 Latency', unit: 'ms' },
+  { key: 'errorRate', label: 'Error Rate', unit: '%', scale: 100 },
+];
+
+interface ComparisonPanelProps {
+  graph: GraphState;
+  /** Graphs pinned for A/B; the current graph is always compared too. */
+  pinned: GraphVariant[];
+  onPin: () => void;
+  onUnpin: (id: string) => void;
+  compareVariants: (variants: GraphVariant[]) => Promise<ComparisonReport>;
+  onClose: () => void;
+}
+
+export default function ComparisonPanel({ graph, pinned, onPin, onUnpin, compareVariants, onClose }: ComparisonPanelProps) {
+  const nodes = graph.nodes;
+  const [mode, setMode] = useState<Mode>('variants');
+  const [seriesKey, setSeriesKey] = useState<SeriesKey>('p95Latency');
+  const [running, setRunning] = useState(false);
+  const [report, setReport] = useState<ComparisonReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sweepable = nodes.filter((n) => numericConfigFields(n).length > 0);
+  const [sweep, setSweep] = useState<SweepSpec>(() => {
+    const node = sweepable[0];
+    const field = node ? numericConfigFields(node)[0] : '';
+    const value = node ? numericConfigValue(node, field) ?? 0 : 0;
+    return { nodeId: node?.id ?? '', field, from: value / 2, to: value, steps: 5 };
+  });
+  const sweepNode = nodes.find((n) => n.id === sweep.nodeId);
+
+  const series = SERIES.find((s) => s.key === seriesKey)!;
+  const lines = useMemo(() => {
+    if (!report) return [];
+    const toPoints = (samples: HistorySample[]) =>
+      samples.map((s) => ({ tick: s.tick, value: s[seriesKey] * (series.scale ?? 1) }));
+    return report.results.map((r, i) => ({
+      id: r.id,
+      label: r.label,
+      color: OVERLAY_COLORS[i % OVERLAY_COLORS.length],
+      points: toPoints(r.history),
+    }));
+  }, [report, seriesKey, series.scale]);
+
+  const run = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const variants =
+        mode === 'variants' ? [...pinned, { id: 'current', label: 'Current graph', graph }] : sweepVariants(graph, sweep);
+      setReport(await compareVariants(variants));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const canRun = mode === 'variants' ? pinned.length > 0 : sweepNode !== undefined && sweep.field !== '';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-5xl max-h-[85vh] flex flex-col shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            ⚖️ Compare
+          </h2>
+          <div className="flex items-center gap-4">
+            <div className="flex bg-slate-800 rounded-lg border border-slate-700 overflow-hidden">
+              {(['variants', 'sweep'] as Mode[]).map((m) => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={`px-3 py-1.5 text-xs font-medium transition-colors ${mode === m
+                    ? 'bg-blue-500/20 text-blue-400'
+                    : 'text-slate-400 hover:text-white'
+                    }`}
+                >
+                  {m === 'variants' ? 'A/B Variants' : 'Parameter Sweep'}
+                </button>
+              ))}
+            </div>
+            <button onClick={onClose} className="text-slate-400 hover:text-white">✕</button>
+          </div>
+        </div>
+
+        {/* Setup */}
+        <div className="flex items-end gap-4 px-6 py-4 border-b border-slate-800 text-xs">
+          {mode === 'variants' ? (
+            <div className="flex-1 flex flex-wrap items-center gap-2">
+              {pinned.map((v) => (
+                <span key={v.id} className="flex items-center gap-1 px-2 py-1 bg-slate-800 border border-slate-700 rounded text-slate-300">
+                  {v.label}
+                  <button onClick={() => onUnpin(v.id)} className="text-slate-500 hover:text-white">✕</button>
+                </span>
+              ))}
+              <span className="px-2 py-1 border border-dashed border-slate-700 rounded text-slate-400">Current graph</span>
+              <button
+                onClick={onPin}
+                className="px-3 py-1.5 bg-secondary text-secondary-foreground border border-border rounded-lg hover:bg-secondary/80 transition-colors font-medium"
+                title="Save the graph as it is now; edit it and compare against the saved copy"
+              >
+                📌 Pin current graph
+              </button>
+            </div>
+          ) : (
+            <div className="flex-1 flex flex-wrap items-end gap-3">
+              <label className="flex flex-col gap-1 text-slate-400">
+                Node
+                <select
+                  value={sweep.nodeId}
+                  onChange={(e) => {
+                    const node = nodes.find((n) => n.id === e.target.value);
+                    setSweep({ ...sweep, nodeId: e.target.value, field: node ? numericConfigFields(node)[0] ?? '' : '' });
+                  }}
+                  className="bg-slate-800 border border-slate-700 rounded px-2 py-1.5 text-slate-200"
+                >
+                  {sweepable.map((n) => (
+                    <option key={n.id} value={n.id}>{NODE_VISUALS[n.type].icon} {n.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-slate-400">
+                Field
+                <select
+                  value={sweep.field}
+                  onChange={(e) => setSweep({ ...sweep, field: e.target.value })}
+                  className="bg-slate-800 border border-slate-700 rounded px-2 py-1.5 text-slate-200 font-mono"
+                >
+                  {(sweepNode ? numericConfigFields(sweepNode) : []).map((f) => (
+                    <option key={f} value={f}>{f}</option>
+                  ))}
+                </select>
+              </label>
+              {(['from', 'to', 'steps'] as const).map((key) => (
+                <label key={key} className="flex flex-col gap-1 text-slate-400">
+                  {key === 'steps' ? 'Steps' : key === 'from' ? 'From' : 'To'}
+                  <input
+                    type="number"
+                    min={key === 'steps' ? 2 : undefined}
+                    value={sweep[key]}
+                    onChange={(e) => setSweep({ ...sweep, [key]: Number(e.target.value) })}
+                    className="w-24 bg-slate-800 border border-slate-700 rounded px-2 py-1.5 text-slate-200 font-mono"
+                  />
+                </label>
+              ))}
+              <span className="pb-2 text-slate-500 font-mono">
+                {sweepValues(sweep).map((v) => Number(v.toPrecision(3))).join(', ')}
+              </span>
+            </div>
+          )}
+          <button
+            onClick={run}
+            disabled={running || !canRun}
+            className="px-4 py-1.5 bg-green-500/10 text-green-500 border border-green-500/20 rounded-lg hover:bg-green-500/20 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {running ? 'Running…' : 'Run comparison'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="px-6 py-2 border-b border-slate-800 text-xs text-red-400">Comparison failed: {error}</div>
+        )}
+
+        {!report ? (
+          <div className="p-10 text-center text-slate-500 text-sm">
+            {mode === 'variants'
+              ? 'Pin the graph, change it, then compare both under the same seeded traffic.'
+              : 'Runs the graph once per value, with every other setting and the seed held fixed.'}
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6">
+            {/* Metric tabs */}
+            <div className="flex gap-1 mb-2">
+              {SERIES.map((s) => (
+                <button
+                  key={s.key}
+                  onClick={() => setSeriesKey(s.key)}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${seriesKey === s.key
+                    ? 'bg-blue-500/20 text-blue-400'
+                    : 'text-slate-400 hover:bg-slate-800'
+                    }`}
+                >
+                  {s.label}
+                </button>
+              ))}
+            </div>
+            {lines.every((l) => l.points.length === 0) ? (
+              <div className="h-64 flex items-center justify-center text-slate-500 text-sm">
+                Runs shorter than a simulated second have no samples to chart.
+              </div>
+            ) : (
+              <LineChart lines={lines} unit={series.unit} />
+            )}
+
+            {/* Results */}
+            <table className="w-full mt-4 text-xs font-mono">
+              <thead>
+                <tr className="text-slate-500 text-left">
+                  <th className="py-1 font-normal">Variant</th>
+                  <th className="py-1 font-normal">Throughput</th>
+                  <th className="py-1 font-normal">p50</th>
+                  <th className="py-1 font-normal">p95</th>
+                  <th className="py-1 font-normal">p99</th>
+                  <th className="py-1 font-normal">Errors</th>
+                  <th className="py-1 font-normal">Monthly</th>
+                  <th className="py-1 font-normal">Per 1k</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.results.map((r, i) => (
+                  <tr key={r.id} className="border-t border-slate-800 text-slate-300">
+                    <td className="py-1.5">
+                      <span className="inline-block w-3 h-0.5 mr-2 align-middle" style={{ backgroundColor: OVERLAY_COLORS[i % OVERLAY_COLORS.length] }} />
+                      {r.label}
+                    </td>
+                    <td className="py-1.5">{r.metrics.throughput.toFixed(1)}</td>
+                    <td className="py-1.5">{r.metrics.p50Latency.toFixed(0)}ms</td>
+                    <td className="py-1.5">{r.metrics.p95Latency.toFixed(0)}ms</td>
+                    <td className="py-1.5">{r.metrics.p99Latency.toFixed(0)}ms</td>
+                    <td className="py-1.5">{(r.metrics.errorRate * 100).toFixed(2)}%</td>
+                    <td className="py-1.5">${r.cost.monthly.toFixed(2)}</td>
+                    <td className="py-1.5">{r.cost.per1kRequests > 0 ? `$${r.cost.per1kRequests.toFixed(4)}` : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-slate-500">Seed {report.seed} · every variant saw the same client traffic.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
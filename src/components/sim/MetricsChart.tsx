@@ -0,0 +1,200 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { NodeData, NODE_VISUALS } from '@/core/types';
+import { HistorySample, MetricsHistorySeries } from '@/core/sim/history';
+
+// -----------------------------------------------------------------------------
+// Metrics Chart — how the run evolved over time, globally or per node
+// -----------------------------------------------------------------------------
+
+type SeriesKey = Exclude<keyof HistorySample, 'tick'>;
+
+const SERIES: { key: SeriesKey; label: string; unit: string; scale?: number }[] = [
+  { key: 'throughput', label: 'Throughput', unit: 'RPS' },
+  { key: 'p95Latency', label: 'p95 Latency', unit: 'ms' },
+  { key: 'errorRate', label: 'Error Rate', unit: '%', scale: 100 },
+  { key: 'dropRate', label: 'Drop Rate', unit: '%', scale: 100 },
+  { key: 'queueDepth', label: 'Queue Depth', unit: 'req' },
+  { key: 'utilization', label: 'Utilization', unit: '%', scale: 100 },
+  { key: 'replicas', label: 'Replicas', unit: '' },
+];
+
+// Visible window, in samples (one sample per simulated second)
+const ZOOM_LEVELS = [
+  { samples: 30, label: '30s' },
+  { samples: 120, label: '2m' },
+  { samples: Infinity, label: 'All' },
+];
+
+export const OVERLAY_COLORS = ['#f59e0b', '#10b981', '#ec4899', '#8b5cf6', '#06b6d4', '#ef4444'];
+
+interface MetricsChartProps {
+  nodes: NodeData[];
+  history: MetricsHistorySeries;
+  onClose: () => void;
+}
+
+export default function MetricsChart({ nodes, history, onClose }: MetricsChartProps) {
+  const [seriesKey, setSeriesKey] = useState<SeriesKey>('p95Latency');
+  const [zoom, setZoom] = useState(Infinity);
+  const [overlayIds, setOverlayIds] = useState<string[]>([]);
+
+  const series = SERIES.find((s) => s.key === seriesKey)!;
+
+  const lines = useMemo(() => {
+    const visible = (samples: HistorySample[]) =>
+      Number.isFinite(zoom) ? samples.slice(-zoom) : samples;
+    const toPoints = (samples: HistorySample[]) =>
+      visible(samples).map((s) => ({ tick: s.tick, value: s[seriesKey] * (series.scale ?? 1) }));
+
+    return [
+      { id: 'global', label: 'All traffic', color: '#3b82f6', points: toPoints(history.global) },
+      ...overlayIds.map((id, i) => ({
+        id,
+        label: nodes.find((n) => n.id === id)?.label ?? id,
+        color: OVERLAY_COLORS[i % OVERLAY_COLORS.length],
+        points: toPoints(history.nodes.get(id) ?? []),
+      })),
+    ];
+  }, [history, overlayIds, nodes, seriesKey, series.scale, zoom]);
+
+  const toggleOverlay = (id: string) => {
+    setOverlayIds((ids) => (ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-5xl max-h-[85vh] flex flex-col shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            📈 Metrics Over Time
+          </h2>
+          <div className="flex items-center gap-4">
+            <div className="flex bg-slate-800 rounded-lg border border-slate-700 overflow-hidden">
+              {ZOOM_LEVELS.map((z) => (
+                <button
+                  key={z.label}
+                  onClick={() => setZoom(z.samples)}
+                  className={`px-3 py-1.5 text-xs font-medium transition-colors ${zoom === z.samples
+                    ? 'bg-blue-500/20 text-blue-400'
+                    : 'text-slate-400 hover:text-white'
+                    }`}
+                >
+                  {z.label}
+                </button>
+              ))}
+            </div>
+            <button onClick={onClose} className="text-slate-400 hover:text-white">✕</button>
+          </div>
+        </div>
+
+        {/* Metric tabs */}
+        <div className="flex gap-1 px-6 pt-4">
+          {SERIES.map((s) => (
+            <button
+              key={s.key}
+              onClick={() => setSeriesKey(s.key)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${seriesKey === s.key
+                ? 'bg-blue-500/20 text-blue-400'
+                : 'text-slate-400 hover:bg-slate-800'
+                }`}
+            >
+              {s.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+          {/* Chart */}
+          <div className="flex-1 p-6">
+            {history.global.length === 0 ? (
+              <div className="h-64 flex items-center justify-center text-slate-500 text-sm">
+                Samples are taken once per simulated second — keep the simulation running.
+              </div>
+            ) : (
+              <LineChart lines={lines} unit={series.unit} />
+            )}
+            <div className="mt-3 flex flex-wrap gap-4 text-xs text-slate-400">
+              {lines.map((line) => (
+                <span key={line.id} className="flex items-center gap-1">
+                  <span className="w-3 h-0.5" style={{ backgroundColor: line.color }} /> {line.label}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {/* Per-node overlay */}
+          <div className="w-52 border-l border-slate-800 overflow-y-auto p-4">
+            <p className="text-xs text-slate-400 uppercase tracking-wider mb-2">Overlay Nodes</p>
+            {nodes.map((node) => (
+              <label key={node.id} className="flex items-center gap-2 py-1 text-xs text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={overlayIds.includes(node.id)}
+                  onChange={() => toggleOverlay(node.id)}
+                />
+                <span className="truncate">{NODE_VISUALS[node.type].icon} {node.label}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Line Chart
+// -----------------------------------------------------------------------------
+
+export interface ChartLine {
+  id: string;
+  color: string;
+  points: { tick: number; value: number }[];
+}
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 48 };
+
+export function LineChart({ lines, unit }: { lines: ChartLine[]; unit: string }) {
+  const all = lines.flatMap((l) => l.points);
+  const minTick = Math.min(...all.map((p) => p.tick));
+  const maxTick = Math.max(...all.map((p) => p.tick));
+  const maxValue = Math.max(...all.map((p) => p.value), 1e-9);
+
+  const plotW = WIDTH - PADDING.left - PADDING.right;
+  const plotH = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (tick: number) => PADDING.left + (maxTick > minTick ? ((tick - minTick) / (maxTick - minTick)) * plotW : plotW / 2);
+  const y = (value: number) => PADDING.top + plotH - (value / maxValue) * plotH;
+
+  const gridValues = [0, 0.25, 0.5, 0.75, 1].map((f) => f * maxValue);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-64">
+      {gridValues.map((v) => (
+        <g key={v}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(v)} y2={y(v)} stroke="#334155" strokeWidth={0.5} />
+          <text x={PADDING.left - 6} y={y(v) + 3} textAnchor="end" fontSize={10} fill="#64748b">
+            {v >= 100 ? v.toFixed(0) : v.toFixed(1)}
+          </text>
+        </g>
+      ))}
+      <text x={4} y={PADDING.top + 4} fontSize={10} fill="#64748b">{unit}</text>
+      <text x={PADDING.left} y={HEIGHT - 6} fontSize={10} fill="#64748b">t{minTick}</text>
+      <text x={WIDTH - PADDING.right} y={HEIGHT - 6} textAnchor="end" fontSize={10} fill="#64748b">t{maxTick}</text>
+
+      {lines.map((line) => (
+        <polyline
+          key={line.id}
+          fill="none"
+          stroke={line.color}
+          strokeWidth={1.5}
+          points={line.points.map((p) => `${x(p.tick)},${y(p.value)}`).join(' ')}
+        />
+      ))}
+    </svg>
+  );
+}
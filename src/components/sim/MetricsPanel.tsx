@@ -1,6 +1,9 @@
 'use client';
 
 import { Metrics } from '@/core/sim/metrics';
+import { CostEstimate } from '@/core/sim/cost';
+import { LatencyBucket } from '@/core/sim/sketch';
+import { DEFAULT_TICK_MS, ticksToSeconds } from '@/core/sim/clock';
 
 // -----------------------------------------------------------------------------
 // Metric Card
@@ -32,6 +35,43 @@ function MetricCard({ label, value, unit = '', status = 'neutral' }: MetricCardP
   );
 }
 
+// -----------------------------------------------------------------------------
+// Latency Histogram
+// -----------------------------------------------------------------------------
+
+function formatMs(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms.toFixed(ms < 10 ? 1 : 0)}ms`;
+}
+
+function LatencyHistogram({ buckets, p99 }: { buckets: LatencyBucket[]; p99: number }) {
+  if (buckets.length === 0) return null;
+
+  const peak = Math.max(...buckets.map((b) => b.count), 1);
+  const first = buckets[0];
+  const last = buckets[buckets.length - 1];
+
+  return (
+    <div className="mt-3 bg-slate-800/50 rounded-lg p-3 border border-slate-600/30">
+      <p className="text-xs text-slate-400 uppercase tracking-wider mb-2">Latency Distribution</p>
+      <div className="flex items-end gap-0.5 h-16">
+        {buckets.map((b, i) => (
+          <div
+            key={i}
+            className={`flex-1 rounded-t ${b.lowerMs >= p99 ? 'bg-red-500/60' : 'bg-blue-500/60'}`}
+            style={{ height: `${b.count > 0 ? Math.max(4, (b.count / peak) * 100) : 0}%` }}
+            title={`${formatMs(b.lowerMs)} – ${formatMs(b.upperMs)}: ${b.count} requests`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between mt-1 text-xs text-slate-500 font-mono">
+        <span>{formatMs(first.lowerMs)}</span>
+        <span className="text-red-400/80">■ beyond p99</span>
+        <span>{formatMs(last.upperMs)}</span>
+      </div>
+    </div>
+  );
+}
+
 // -----------------------------------------------------------------------------
 // Metrics Panel
 // -----------------------------------------------------------------------------
@@ -39,9 +79,16 @@ function MetricCard({ label, value, unit = '', status = 'neutral' }: MetricCardP
 interface MetricsPanelProps {
   metrics: Metrics | null;
   tick: number;
+  tickMs?: number;
+  seed?: number;
+  cost?: CostEstimate | null;
 }
 
-export default function MetricsPanel({ metrics, tick }: MetricsPanelProps) {
+function formatUsd(usd: number): string {
+  return usd >= 100 ? `$${Math.round(usd).toLocaleString()}` : `$${usd.toFixed(usd < 1 ? 4 : 2)}`;
+}
+
+export default function MetricsPanel({ metrics, tick, tickMs = DEFAULT_TICK_MS, seed, cost }: MetricsPanelProps) {
   if (!metrics) {
     return (
       <div className="bg-slate-900/80 backdrop-blur-sm border-t border-slate-700/50 p-4">
@@ -72,11 +119,13 @@ export default function MetricsPanel({ metrics, tick }: MetricsPanelProps) {
           Metrics
         </h2>
         <span className="text-xs text-slate-500 font-mono">
+          {seed !== undefined && <span className="mr-3">Seed: {seed}</span>}
           Tick: {tick}
+          <span className="ml-3">Sim time: {ticksToSeconds(tick, tickMs).toFixed(1)}s</span>
         </span>
       </div>
 
-      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
         <MetricCard
           label="Throughput"
           value={metrics.throughput}
@@ -89,12 +138,50 @@ export default function MetricsPanel({ metrics, tick }: MetricsPanelProps) {
           unit="ms"
           status="neutral"
         />
+        <MetricCard
+          label="p90 Latency"
+          value={metrics.p90Latency}
+          unit="ms"
+          status="neutral"
+        />
         <MetricCard
           label="p95 Latency"
           value={metrics.p95Latency}
           unit="ms"
           status={latencyStatus}
         />
+        <MetricCard
+          label="p99 Latency"
+          value={metrics.p99Latency}
+          unit="ms"
+          status="neutral"
+        />
+        <MetricCard
+          label="p99.9 Latency"
+          value={metrics.p999Latency}
+          unit="ms"
+          status="neutral"
+        />
+        <MetricCard
+          label="Max Latency"
+          value={metrics.maxLatency}
+          unit="ms"
+          status="neutral"
+        />
+        {cost && (
+          <>
+            <MetricCard
+              label="Monthly Cost"
+              value={formatUsd(cost.monthly)}
+              status="neutral"
+            />
+            <MetricCard
+              label="Cost / 1k Requests"
+              value={cost.per1kRequests > 0 ? formatUsd(cost.per1kRequests) : '—'}
+              status="neutral"
+            />
+          </>
+        )}
         <MetricCard
           label="Error Rate"
           value={(metrics.errorRate * 100).toFixed(2)}
@@ -111,8 +198,41 @@ export default function MetricsPanel({ metrics, tick }: MetricsPanelProps) {
           value={metrics.droppedRequests}
           status={metrics.droppedRequests > 0 ? 'bad' : 'neutral'}
         />
+        <MetricCard
+          label="Throttled"
+          value={metrics.throttledRequests}
+          status={metrics.throttleRate > 0.05 ? 'warning' : 'neutral'}
+        />
+        <MetricCard
+          label="Retry Amplification"
+          value={`${metrics.retryAmplification.toFixed(2)}×`}
+          status={metrics.retryAmplification > 1.5 ? 'bad' : metrics.retryAmplification > 1.1 ? 'warning' : 'neutral'}
+        />
+        <MetricCard
+          label="Timed Out"
+          value={metrics.timedOutCalls.toLocaleString()}
+          status={metrics.timedOutCalls > 0 ? 'warning' : 'neutral'}
+        />
+        {metrics.byOperation.WRITE.completed > 0 && (
+          <>
+            <MetricCard
+              label="Read p95"
+              value={metrics.byOperation.READ.p95Latency}
+              unit="ms"
+              status="neutral"
+            />
+            <MetricCard
+              label="Write p95"
+              value={metrics.byOperation.WRITE.p95Latency}
+              unit="ms"
+              status="neutral"
+            />
+          </>
+        )}
       </div>
 
+      <LatencyHistogram buckets={metrics.latencyHistogram} p99={metrics.p99Latency} />
+
       {/* Status Bar */}
       <div className="mt-3 flex items-center gap-2 text-sm">
         {metrics.p95Latency > 300 && (
@@ -130,6 +250,11 @@ export default function MetricsPanel({ metrics, tick }: MetricsPanelProps) {
             📉 Requests Dropped
           </span>
         )}
+        {metrics.retryAmplification > 1.5 && (
+          <span className="px-2 py-1 bg-red-500/20 text-red-400 rounded text-xs">
+            🔁 Retry Storm
+          </span>
+        )}
         {metrics.p95Latency < 100 && metrics.errorRate < 0.01 && (
           <span className="px-2 py-1 bg-green-500/20 text-green-400 rounded text-xs">
             ✓ System Healthy
@@ -13,8 +13,15 @@ interface RunControlsProps {
   onPause: () => void;
   onStep: () => void;
   onReset: () => void;
+  speed?: number;
+  onSpeedChange?: (speed: number) => void;
+  tickMs?: number;
+  onTickMsChange?: (tickMs: number) => void;
 }
 
+const SPEEDS = [0.25, 0.5, 1, 2, 5, 10, 25, 50];
+const TICK_DURATIONS = [10, 50, 100, 250, 1000];
+
 export default function RunControls({
   isRunning,
   isPaused,
@@ -22,6 +29,10 @@ export default function RunControls({
   onPause,
   onStep,
   onReset,
+  speed = 1,
+  onSpeedChange,
+  tickMs = 100,
+  onTickMsChange,
 }: RunControlsProps) {
   const { clearGraph } = useGraphStore();
 
@@ -73,6 +84,35 @@ export default function RunControls({
         <span className="text-sm font-medium">Reset</span>
       </button>
 
+      {/* Playback speed */}
+      {onSpeedChange && (
+        <select
+          value={speed}
+          onChange={(e) => onSpeedChange(Number(e.target.value))}
+          title="Playback speed (simulated time per real second)"
+          className="bg-secondary text-secondary-foreground border border-border rounded-lg px-2 py-2 text-sm font-mono focus:outline-none focus:ring-1 focus:ring-primary"
+        >
+          {SPEEDS.map((s) => (
+            <option key={s} value={s}>{s}×</option>
+          ))}
+        </select>
+      )}
+
+      {/* Simulated tick length — fixed once a run has started */}
+      {onTickMsChange && (
+        <select
+          value={tickMs}
+          onChange={(e) => onTickMsChange(Number(e.target.value))}
+          disabled={isRunning || isPaused}
+          title="Simulated time per tick (reset to change)"
+          className="bg-secondary text-secondary-foreground border border-border rounded-lg px-2 py-2 text-sm font-mono focus:outline-none focus:ring-1 focus:ring-primary disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {TICK_DURATIONS.map((ms) => (
+            <option key={ms} value={ms}>{ms >= 1000 ? `${ms / 1000}s` : `${ms}ms`}/tick</option>
+          ))}
+        </select>
+      )}
+
       {/* Divider */}
       <div className="w-px h-8 bg-border mx-2" />
 
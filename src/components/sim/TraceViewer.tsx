@@ -0,0 +1,168 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { NodeData, NODE_VISUALS } from '@/core/types';
+import { SimRequest } from '@/core/sim/models';
+import { buildWaterfall } from '@/core/sim/tracing';
+
+// -----------------------------------------------------------------------------
+// Trace Viewer — pick a latency outlier and see where it spent its time
+// -----------------------------------------------------------------------------
+
+const PERCENTILES = [
+  { value: 95, label: 'p95' },
+  { value: 99, label: 'p99' },
+  { value: 100, label: 'Slowest' },
+];
+
+interface TraceViewerProps {
+  nodes: NodeData[];
+  getTraces: (percentile: number) => Promise<SimRequest[]>;
+  onClose: () => void;
+}
+
+export default function TraceViewer({ nodes, getTraces, onClose }: TraceViewerProps) {
+  const [percentile, setPercentile] = useState(95);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const [traces, setTraces] = useState<SimRequest[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getTraces(percentile).then((result) => {
+      if (!cancelled) setTraces(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [getTraces, percentile]);
+  const selected = traces.find((t) => t.id === selectedId) ?? traces[traces.length - 1] ?? null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-4xl max-h-[80vh] flex flex-col shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            🔎 Request Traces
+          </h2>
+          <div className="flex items-center gap-4">
+            <div className="flex bg-slate-800 rounded-lg border border-slate-700 overflow-hidden">
+              {PERCENTILES.map((p) => (
+                <button
+                  key={p.value}
+                  onClick={() => {
+                    setPercentile(p.value);
+                    setSelectedId(null);
+                  }}
+                  className={`px-3 py-1.5 text-xs font-medium transition-colors ${percentile === p.value
+                    ? 'bg-blue-500/20 text-blue-400'
+                    : 'text-slate-400 hover:text-white'
+                    }`}
+                >
+                  {p.label}
+                </button>
+              ))}
+            </div>
+            <button onClick={onClose} className="text-slate-400 hover:text-white">✕</button>
+          </div>
+        </div>
+
+        {traces.length === 0 ? (
+          <div className="p-10 text-center text-slate-500 text-sm">
+            No completed requests yet — run the simulation first.
+          </div>
+        ) : (
+          <div className="flex-1 flex overflow-hidden">
+            {/* Request list */}
+            <div className="w-56 border-r border-slate-800 overflow-y-auto">
+              {[...traces].reverse().map((t) => (
+                <button
+                  key={t.id}
+                  onClick={() => setSelectedId(t.id)}
+                  className={`w-full text-left px-4 py-2 border-b border-slate-800 text-xs font-mono transition-colors ${selected?.id === t.id
+                    ? 'bg-blue-500/10 text-blue-300'
+                    : 'text-slate-400 hover:bg-slate-800/50'
+                    }`}
+                >
+                  <div className="truncate">{t.id}</div>
+                  <div className="text-slate-500">
+                    {t.latency.toFixed(1)}ms · {t.hops.length} hops
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {/* Waterfall */}
+            <div className="flex-1 overflow-y-auto p-6">
+              {selected && <Waterfall request={selected} nodes={nodes} />}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Waterfall
+// -----------------------------------------------------------------------------
+
+function Waterfall({ request, nodes }: { request: SimRequest; nodes: NodeData[] }) {
+  const spans = buildWaterfall(request);
+  const total = Math.max(request.latency, 1);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4 text-sm">
+        <span className="text-slate-300 font-mono">{request.id}</span>
+        <span className="text-slate-400 font-mono">{request.latency.toFixed(1)}ms total</span>
+      </div>
+
+      <div className="space-y-2">
+        {spans.map((span, i) => {
+          const node = nodes.find((n) => n.id === span.nodeId);
+          const visual = node ? NODE_VISUALS[node.type] : undefined;
+          return (
+            <div key={i} className="flex items-center gap-3 text-xs">
+              <div className="w-36 truncate text-slate-300">
+                {visual?.icon} {node?.label ?? span.nodeId}
+              </div>
+              <div className="flex-1 relative h-5 bg-slate-800/50 rounded">
+                {span.networkTime > 0 && (
+                  <div
+                    className="absolute h-full bg-purple-500/40"
+                    style={{ left: `${((span.start - span.networkTime) / total) * 100}%`, width: `${(span.networkTime / total) * 100}%` }}
+                    title={`Network ${span.networkTime.toFixed(1)}ms`}
+                  />
+                )}
+                <div
+                  className="absolute h-full bg-yellow-500/40 rounded-l"
+                  style={{ left: `${(span.start / total) * 100}%`, width: `${(span.queueTime / total) * 100}%` }}
+                  title={`Queued ${span.queueTime.toFixed(1)}ms`}
+                />
+                <div
+                  className="absolute h-full bg-blue-500/70 rounded-r"
+                  style={{
+                    left: `${((span.start + span.queueTime) / total) * 100}%`,
+                    width: `${Math.max(0.5, (span.serviceTime / total) * 100)}%`,
+                  }}
+                  title={`Service ${span.serviceTime.toFixed(1)}ms`}
+                />
+              </div>
+              <div className="w-40 text-right font-mono text-slate-500">
+                {(span.networkTime + span.queueTime + span.serviceTime).toFixed(1)}ms · t{span.enqueueTick}→{span.dequeueTick ?? '…'}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 flex gap-4 text-xs text-slate-500">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 bg-purple-500/40 rounded" /> Network</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 bg-yellow-500/40 rounded" /> Queue wait</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 bg-blue-500/70 rounded" /> Service time</span>
+      </div>
+    </div>
+  );
+}
@@ -29,6 +29,7 @@ interface GraphStore extends GraphState {
   // Edge actions
   addEdge: (sourceId: string, targetId: string) => string | null;
   removeEdge: (id: string) => void;
+  updateEdge: (id: string, patch: Partial<Omit<EdgeData, 'id' | 'sourceId' | 'targetId'>>) => void;
   selectEdge: (id: string | null) => void;
 
   // Graph actions
@@ -142,6 +143,14 @@ export const useGraphStore = create<GraphStore>((set, get) => ({
     }));
   },
 
+  updateEdge: (id, patch) => {
+    set((state) => ({
+      edges: state.edges.map((e) =>
+        e.id === id ? { ...e, ...patch } : e
+      ),
+    }));
+  },
+
   selectEdge: (id: string | null) => {
     set({ selectedEdgeId: id, selectedNodeId: null });
   },
@@ -33,6 +33,16 @@ export interface NodeDefinition {
   codegenPackages: string[];
   /** Short identifier used in generated filenames / variable names. */
   codegenSlug: string;
+  /** What running the node costs, for the simulator's cost estimate. */
+  costModel: NodeCostModel;
+}
+
+/** Approximate cloud list prices in USD. Rates left out cost nothing. */
+export interface NodeCostModel {
+  perInstanceHour?: number; // each running instance: autoscaled replica or database member
+  perGBHour?: number; // provisioned cache memory (maxMemoryMB)
+  perPartitionHour?: number; // STREAM_PROCESSOR partitions
+  perMillionRequests?: number; // requests arriving at the node
 }
 
 // -----------------------------------------------------------------------------
@@ -115,6 +125,29 @@ const CODEGEN_SLUGS: Record<NodeType, string> = {
   CUSTOM_LOGIC: 'customLogic',
 };
 
+const COST_MODELS: Record<NodeType, NodeCostModel> = {
+  CLIENT: {},
+  LOAD_BALANCER: { perInstanceHour: 0.0225, perMillionRequests: 0.8 },
+  API_GATEWAY: { perMillionRequests: 3.5 },
+  RATE_LIMITER: { perInstanceHour: 0.0208 },
+  REST_API: { perInstanceHour: 0.0416 },
+  GRAPHQL_API: { perInstanceHour: 0.0416 },
+  AUTH_SERVICE: { perInstanceHour: 0.0416 },
+  API: { perInstanceHour: 0.0416 },
+  CACHE: { perGBHour: 0.0125 },
+  REDIS_CACHE: { perGBHour: 0.0125 },
+  DATABASE: { perInstanceHour: 0.068 },
+  SQL_DATABASE: { perInstanceHour: 0.068 },
+  NOSQL_DATABASE: { perInstanceHour: 0.05 },
+  OBJECT_STORAGE: { perMillionRequests: 0.4 },
+  QUEUE: { perMillionRequests: 0.4 },
+  WORKER: { perInstanceHour: 0.0416 },
+  STREAM_PROCESSOR: { perInstanceHour: 0.0416, perPartitionHour: 0.015 },
+  BATCH_PROCESSOR: { perInstanceHour: 0.0416 },
+  ANALYTICS_SINK: { perMillionRequests: 0.25 },
+  CUSTOM_LOGIC: { perInstanceHour: 0.0416 },
+};
+
 // Pre-built registry — built once at module load.
 const REGISTRY: Map<NodeType, NodeDefinition> = new Map();
 
@@ -129,6 +162,7 @@ for (const [cat, types] of Object.entries(NODE_CATEGORIES)) {
       defaultConfig: DEFAULT_CONFIGS[type],
       codegenPackages: CODEGEN_PACKAGES[type],
       codegenSlug: CODEGEN_SLUGS[type],
+      costModel: COST_MODELS[type],
     });
   }
 }
@@ -145,6 +179,7 @@ for (const legacyType of ['API', 'CACHE', 'DATABASE'] as NodeType[]) {
       defaultConfig: DEFAULT_CONFIGS[legacyType],
       codegenPackages: CODEGEN_PACKAGES[legacyType],
       codegenSlug: CODEGEN_SLUGS[legacyType],
+      costModel: COST_MODELS[legacyType],
     });
   }
 }
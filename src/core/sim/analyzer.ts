@@ -0,0 +1,313 @@
+// =============================================================================
+// Atlas Learn - Run Analyzer
+// =============================================================================
+// Reads a simulation snapshot alongside the graph and explains what is wrong:
+// which node caps throughput, which queue is growing without bound, and
+// topology anti-patterns such as a cache sitting behind its database.
+// =============================================================================
+
+import {
+  GraphState,
+  NodeData,
+  NodeType,
+  SqlDatabaseConfig,
+  WorkerConfig,
+  StreamProcessorConfig,
+  QueueConfig,
+  RateLimiterConfig,
+} from '@/core/types';
+import { SimulationSnapshot, NodeMetricsSnapshot } from './engine';
+import { ratePerTick, ticksToSeconds } from './clock';
+
+// -----------------------------------------------------------------------------
+// Findings
+// -----------------------------------------------------------------------------
+
+export type FindingSeverity = 'info' | 'warning' | 'critical';
+
+export interface Finding {
+  id: string;
+  nodeId: string;
+  severity: FindingSeverity;
+  title: string;
+  detail: string;
+  suggestion: string;
+}
+
+export const SEVERITY_RANK: Record<FindingSeverity, number> = {
+  info: 0,
+  warning: 1,
+  critical: 2,
+};
+
+// Rates are unreliable until the run has warmed up
+const MIN_SECONDS = 2;
+
+const UTILIZATION_HOT = 0.9;
+const ERROR_RATE_HIGH = 0.05;
+// A partition with this many times its fair share of the backlog is hot
+const PARTITION_SKEW = 2;
+
+const CACHE_TYPES: NodeType[] = ['CACHE', 'REDIS_CACHE'];
+const DATABASE_TYPES: NodeType[] = ['DATABASE', 'SQL_DATABASE', 'NOSQL_DATABASE', 'OBJECT_STORAGE'];
+
+// -----------------------------------------------------------------------------
+// Capacity Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Requests/sec the node can serve, mirroring the capacity rules in
+ * processNode. Null for nodes that don't serve from a capacity-bound queue.
+ */
+function effectiveCapacity(node: NodeData): number | null {
+  const config = node.config as { capacity?: number };
+  switch (node.type) {
+    case 'CLIENT':
+    case 'QUEUE':
+    case 'RATE_LIMITER':
+    case 'BATCH_PROCESSOR':
+      return null;
+    case 'SQL_DATABASE': {
+      const c = node.config as SqlDatabaseConfig;
+      return Math.min(c.capacity, c.poolSize * 10);
+    }
+    case 'WORKER': {
+      const c = node.config as WorkerConfig;
+      return c.capacity * c.concurrency;
+    }
+    case 'STREAM_PROCESSOR': {
+      const c = node.config as StreamProcessorConfig;
+      return c.capacity * c.partitions;
+    }
+    default:
+      return config.capacity ?? null;
+  }
+}
+
+// Capacity across every replica currently serving; database read replicas
+// each add the node's full capacity on top of the primary
+function currentCapacity(node: NodeData, metrics: NodeMetricsSnapshot): number | null {
+  const capacity = effectiveCapacity(node);
+  if (capacity === null) return null;
+  const readReplicas = metrics.database?.readReplicas ?? 0;
+  return capacity * metrics.replicas + readReplicas * (node.config as { capacity: number }).capacity;
+}
+
+/**
+ * Arrival rate over the capacity the node is serving with right now; past 1
+ * it can't keep up. Null for nodes without a capacity to measure against.
+ */
+export function loadFactor(node: NodeData, metrics: NodeMetricsSnapshot, seconds: number): number | null {
+  const capacity = currentCapacity(node, metrics);
+  if (capacity === null || capacity <= 0 || seconds <= 0) return null;
+  return metrics.run.arrivals / seconds / capacity;
+}
+
+function formatRate(rps: number): string {
+  return `${Math.round(rps)} RPS`;
+}
+
+// -----------------------------------------------------------------------------
+// Rules
+// -----------------------------------------------------------------------------
+
+interface RuleContext {
+  node: NodeData;
+  metrics: NodeMetricsSnapshot;
+  arrivalRate: number; // requests/sec over the run
+  tickMs: number;
+}
+
+type Rule = (ctx: RuleContext) => Finding | null;
+
+const sqlPoolRule: Rule = ({ node, arrivalRate }) => {
+  if (node.type !== 'SQL_DATABASE') return null;
+  const c = node.config as SqlDatabaseConfig;
+  const poolLimit = c.poolSize * 10;
+  if (poolLimit >= c.capacity || arrivalRate <= poolLimit) return null;
+
+  return {
+    id: `${node.id}:sql-pool`,
+    nodeId: node.id,
+    severity: 'critical',
+    title: 'Connection pool caps throughput',
+    detail: `Pool of ${c.poolSize} connections (poolSize × 10 = ${formatRate(poolLimit)}) is below the incoming ${formatRate(arrivalRate)}, even though the database could serve ${formatRate(c.capacity)}.`,
+    suggestion: `Raise poolSize to at least ${Math.ceil(arrivalRate / 10)}.`,
+  };
+};
+
+const unboundedQueueRule: Rule = ({ node, metrics, arrivalRate, tickMs }) => {
+  const capacity = currentCapacity(node, metrics);
+  if (capacity === null || arrivalRate <= capacity) return null;
+  // A backlog of more than one tick's worth of work that is still being fed faster than drained
+  if (metrics.queueDepth <= Math.max(1, ratePerTick(capacity, tickMs))) return null;
+
+  const scaleHint =
+    node.type === 'WORKER'
+      ? 'Add workers (concurrency) or raise capacity'
+      : node.type === 'STREAM_PROCESSOR'
+        ? 'Add partitions or raise capacity'
+        : 'Raise capacity, add replicas behind a load balancer, or cache in front';
+
+  return {
+    id: `${node.id}:unbounded-queue`,
+    nodeId: node.id,
+    severity: 'critical',
+    title: 'Queue grows unbounded',
+    detail: `${node.type} capacity (${formatRate(capacity)}) is below the arrival rate (${formatRate(arrivalRate)}); ${metrics.queueDepth} requests are waiting and the backlog keeps growing.`,
+    suggestion: `${scaleHint} to at least ${formatRate(arrivalRate)}.`,
+  };
+};
+
+const hotNodeRule: Rule = ({ node, metrics, arrivalRate }) => {
+  const capacity = currentCapacity(node, metrics);
+  if (capacity === null || metrics.utilization < UTILIZATION_HOT || arrivalRate > capacity) return null;
+
+  return {
+    id: `${node.id}:hot`,
+    nodeId: node.id,
+    severity: 'warning',
+    title: 'Running near capacity',
+    detail: `Utilization is ${(metrics.utilization * 100).toFixed(0)}% with ${formatRate(arrivalRate)} arriving against ${formatRate(capacity)} of capacity; any burst will queue.`,
+    suggestion: 'Leave ~30% headroom: raise capacity or spread load across replicas.',
+  };
+};
+
+const errorRateRule: Rule = ({ node, metrics }) => {
+  const { arrivals, errors } = metrics.run;
+  if (arrivals === 0 || errors / arrivals <= ERROR_RATE_HIGH) return null;
+
+  const configured = (node.config as { errorRate?: number }).errorRate;
+  return {
+    id: `${node.id}:errors`,
+    nodeId: node.id,
+    severity: 'warning',
+    title: 'High error rate',
+    detail: `${((errors / arrivals) * 100).toFixed(1)}% of requests fail here${configured !== undefined ? ` (configured errorRate ${(configured * 100).toFixed(1)}%)` : ''}.`,
+    suggestion: 'Add an ON_ERROR edge to a fallback, or lower the error rate.',
+  };
+};
+
+const dropRule: Rule = ({ node, metrics }) => {
+  const { arrivals, drops } = metrics.run;
+  if (drops === 0) return null;
+
+  const share = arrivals > 0 ? `${((drops / arrivals) * 100).toFixed(1)}%` : `${drops}`;
+  const suggestion =
+    node.type === 'QUEUE'
+      ? `Raise maxSize above ${(node.config as QueueConfig).maxSize} or speed up consumers.`
+      : 'Add capacity upstream of this node.';
+
+  return {
+    id: `${node.id}:drops`,
+    nodeId: node.id,
+    severity: 'warning',
+    title: 'Requests dropped',
+    detail: `${share} of arriving requests are dropped here.`,
+    suggestion,
+  };
+};
+
+const partitionSkewRule: Rule = ({ node, metrics }) => {
+  const partitions = metrics.consumerLag?.partitions;
+  if (!partitions || partitions.length < 2) return null;
+  const total = partitions.reduce((sum, n) => sum + n, 0);
+  const hottest = Math.max(...partitions);
+  // One partition holding most of the backlog while the others keep up
+  if (total < partitions.length || hottest < (PARTITION_SKEW * total) / partitions.length) return null;
+
+  const index = partitions.indexOf(hottest);
+  return {
+    id: `${node.id}:partition-skew`,
+    nodeId: node.id,
+    severity: 'warning',
+    title: 'Hot partition',
+    detail: `Partition ${index} holds ${hottest} of ${total} waiting messages; its consumer lags while the other ${partitions.length - 1} keep up.`,
+    suggestion: 'Spread hot keys (salt or re-key them) — adding partitions does not split a single hot key.',
+  };
+};
+
+const throttleRule: Rule = ({ node, metrics }) => {
+  const { arrivals, throttled } = metrics.run;
+  if (throttled === 0 || node.type !== 'RATE_LIMITER') return null;
+
+  const c = node.config as RateLimiterConfig;
+  return {
+    id: `${node.id}:throttled`,
+    nodeId: node.id,
+    severity: 'info',
+    title: 'Requests throttled',
+    detail: `${((throttled / Math.max(1, arrivals)) * 100).toFixed(1)}% of arriving requests exceed the limit of ${c.maxRequests} per ${c.windowMs / 1000}s${c.keyBy === 'CLIENT' ? ' per client' : ''}.`,
+    suggestion: `Raise maxRequests above ${c.maxRequests} per window if this traffic is legitimate.`,
+  };
+};
+
+const RUN_RULES: Rule[] = [unboundedQueueRule, hotNodeRule, errorRateRule, dropRule, partitionSkewRule, throttleRule];
+
+// Topology checks that don't need a run
+function analyzeTopology(graph: GraphState): Finding[] {
+  const findings: Finding[] = [];
+  const byId = new Map(graph.nodes.map((n) => [n.id, n]));
+
+  for (const edge of graph.edges) {
+    const source = byId.get(edge.sourceId);
+    const target = byId.get(edge.targetId);
+    if (!source || !target) continue;
+
+    if (DATABASE_TYPES.includes(source.type) && CACHE_TYPES.includes(target.type)) {
+      findings.push({
+        id: `${target.id}:cache-after-db`,
+        nodeId: target.id,
+        severity: 'warning',
+        title: 'Cache placed after database',
+        detail: `${target.label} sits behind ${source.label}, so every read still pays for the database before the cache is consulted.`,
+        suggestion: `Route traffic to ${target.label} first and send only misses on to ${source.label}.`,
+      });
+    }
+  }
+
+  return findings;
+}
+
+// -----------------------------------------------------------------------------
+// Analyze
+// -----------------------------------------------------------------------------
+
+/**
+ * Findings for the current run, most severe first. Topology findings are
+ * always reported; run findings wait until the simulation has warmed up.
+ */
+export function analyzeRun(graph: GraphState, snapshot: Pick<SimulationSnapshot, 'tick' | 'tickMs' | 'nodeMetrics'>): Finding[] {
+  const findings = analyzeTopology(graph);
+
+  const seconds = ticksToSeconds(snapshot.tick, snapshot.tickMs);
+  if (seconds >= MIN_SECONDS) {
+    for (const node of graph.nodes) {
+      const metrics = snapshot.nodeMetrics.get(node.id);
+      if (!metrics) continue;
+      const ctx: RuleContext = { node, metrics, arrivalRate: metrics.run.arrivals / seconds, tickMs: snapshot.tickMs };
+
+      // A node that caps throughput is also hot and queueing; report the root cause only
+      const sql = sqlPoolRule(ctx);
+      if (sql) {
+        findings.push(sql);
+        continue;
+      }
+      for (const rule of RUN_RULES) {
+        const finding = rule(ctx);
+        if (finding) findings.push(finding);
+      }
+    }
+  }
+
+  return findings.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+}
+
+/** Groups findings by the node they are about. */
+export function findingsByNode(findings: Finding[]): Map<string, Finding[]> {
+  const grouped = new Map<string, Finding[]>();
+  for (const finding of findings) {
+    grouped.set(finding.nodeId, [...(grouped.get(finding.nodeId) ?? []), finding]);
+  }
+  return grouped;
+}
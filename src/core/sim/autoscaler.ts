@@ -0,0 +1,81 @@
+// =============================================================================
+// Atlas Learn - Autoscaler
+// =============================================================================
+// Adds and removes replicas of scalable nodes during a run, the way a
+// horizontal pod autoscaler would: measure utilization, compare it with a
+// target, and wait out cooldowns and provisioning delays along the way.
+// =============================================================================
+
+import { NodeData, AutoscalingPolicy, SCALABLE_NODE_TYPES } from '@/core/types';
+import { NodeState } from './models';
+
+// Weight of the newest tick in the smoothed utilization; raw per-tick values
+// are too noisy to act on
+const UTILIZATION_SMOOTHING = 0.2;
+
+// Within this band around the target the replica count is left alone
+const TOLERANCE = 0.1;
+
+/** The node's autoscaling policy, if it has one and its type can scale. */
+export function autoscalingPolicy(node: NodeData): AutoscalingPolicy | null {
+  if (!SCALABLE_NODE_TYPES.includes(node.type)) return null;
+  return (node.config as { autoscaling?: AutoscalingPolicy }).autoscaling ?? null;
+}
+
+/** Replicas currently serving traffic (1 for nodes without a policy). */
+export function replicaCount(node: NodeData, state: NodeState): number {
+  const policy = autoscalingPolicy(node);
+  return policy ? (state.replicas ?? policy.minReplicas) : 1;
+}
+
+/** The node as it behaves with `replicas` copies behind it. */
+export function withReplicas(node: NodeData, replicas: number): NodeData {
+  if (replicas === 1) return node;
+  const config = { ...node.config } as { capacity?: number; maxConcurrency?: number };
+  if (config.capacity !== undefined) config.capacity *= replicas;
+  if (config.maxConcurrency !== undefined) config.maxConcurrency *= replicas;
+  return { ...node, config: config as NodeData['config'] };
+}
+
+/**
+ * One autoscaler pass after the node has run for `tick`. Replicas whose
+ * provisioning finished start serving, then the smoothed utilization decides
+ * the desired count: ceil(replicas × utilization / target), clamped to the
+ * policy. Scale-ups are requested all at once and arrive after
+ * `provisioningTicks`; scale-downs retire one replica at a time. Either
+ * action starts the cooldown.
+ */
+export function stepAutoscaler(policy: AutoscalingPolicy, state: NodeState, tick: number) {
+  const clamp = (n: number) => Math.min(policy.maxReplicas, Math.max(policy.minReplicas, n));
+
+  let replicas = clamp(state.replicas ?? policy.minReplicas);
+  const provisioning: number[] = [];
+  for (const readyTick of state.provisioning ?? []) {
+    if (readyTick <= tick) replicas = clamp(replicas + 1);
+    else provisioning.push(readyTick);
+  }
+
+  const utilization =
+    state.smoothedUtilization === undefined
+      ? state.utilization
+      : state.smoothedUtilization + UTILIZATION_SMOOTHING * (state.utilization - state.smoothedUtilization);
+
+  const ratio = utilization / policy.targetUtilization;
+  const coolingDown = state.lastScaleTick !== undefined && tick - state.lastScaleTick < policy.cooldownTicks;
+
+  if (!coolingDown && Math.abs(ratio - 1) > TOLERANCE) {
+    const desired = clamp(Math.ceil(replicas * ratio));
+    const planned = replicas + provisioning.length;
+    if (desired > planned) {
+      for (let i = planned; i < desired; i++) provisioning.push(tick + policy.provisioningTicks);
+      state.lastScaleTick = tick;
+    } else if (desired < replicas && provisioning.length === 0) {
+      replicas--;
+      state.lastScaleTick = tick;
+    }
+  }
+
+  state.replicas = replicas;
+  state.provisioning = provisioning;
+  state.smoothedUtilization = utilization;
+}
@@ -0,0 +1,216 @@
+// =============================================================================
+// Atlas Learn - Keyspace & Cache Store
+// =============================================================================
+// Optional keyspace model: clients tag requests with keys drawn from a uniform
+// or Zipf distribution, and caches hold real entries with TTL expiry and
+// eviction under their memory cap. Hit rate then falls out of the workload
+// (cold starts, expiry stampedes, working sets that don't fit) instead of
+// being a dial.
+// =============================================================================
+
+import { ClientConfig, CacheConfig, CacheEvictionPolicy } from '@/core/types';
+import { Rng } from './random';
+
+export const DEFAULT_KEYSPACE_SIZE = 10000;
+export const DEFAULT_ZIPF_SKEW = 1;
+export const DEFAULT_ENTRY_SIZE_KB = 1;
+export const DEFAULT_CACHE_MEMORY_MB = 256;
+
+// Like Redis, eviction compares a few random entries instead of keeping an
+// exact ordering for every policy
+const EVICTION_SAMPLES = 5;
+
+// -----------------------------------------------------------------------------
+// Key Sampling
+// -----------------------------------------------------------------------------
+
+// Zipf CDFs are costly to build for large keyspaces; keep the last few
+const MAX_CACHED_CDFS = 4;
+const zipfCdfs: Map<string, Float64Array> = new Map();
+
+function zipfCdf(size: number, skew: number): Float64Array {
+  const id = `${size}:${skew}`;
+  let cdf = zipfCdfs.get(id);
+  if (!cdf) {
+    cdf = new Float64Array(size);
+    let total = 0;
+    for (let rank = 0; rank < size; rank++) {
+      total += 1 / Math.pow(rank + 1, skew);
+      cdf[rank] = total;
+    }
+    for (let rank = 0; rank < size; rank++) cdf[rank] /= total;
+
+    if (zipfCdfs.size >= MAX_CACHED_CDFS) {
+      const oldest = zipfCdfs.keys().next().value;
+      if (oldest !== undefined) zipfCdfs.delete(oldest);
+    }
+    zipfCdfs.set(id, cdf);
+  }
+  return cdf;
+}
+
+/**
+ * Key read by a new request, or undefined when the client has no keyspace
+ * (nothing is drawn from the rng then). Under ZIPF, key k is requested in
+ * proportion to 1 / (k + 1)^skew, so key 0 is the hottest.
+ */
+export function sampleKey(config: ClientConfig, rng: Rng): number | undefined {
+  if (!config.keyDistribution) return undefined;
+  const size = Math.max(1, Math.floor(config.keyspaceSize ?? DEFAULT_KEYSPACE_SIZE));
+  if (config.keyDistribution === 'UNIFORM') return Math.floor(rng() * size);
+
+  const cdf = zipfCdf(size, config.zipfSkew ?? DEFAULT_ZIPF_SKEW);
+  const u = rng();
+  let lo = 0;
+  let hi = size - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (cdf[mid] < u) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// -----------------------------------------------------------------------------
+// Cache Store
+// -----------------------------------------------------------------------------
+
+/** Entries that fit in the cache's memory. */
+export function cacheCapacity(config: CacheConfig): number {
+  const memoryKB = (config.maxMemoryMB ?? DEFAULT_CACHE_MEMORY_MB) * 1024;
+  return Math.max(1, Math.floor(memoryKB / (config.entrySizeKB ?? DEFAULT_ENTRY_SIZE_KB)));
+}
+
+export interface CacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  herdMisses: number; // misses on a key another request is already fetching
+  expirations: number;
+  evictions: number;
+  invalidations: number; // entries dropped by writes
+}
+
+interface CacheEntry {
+  expiresAtMs: number;
+  lastUsedMs: number;
+  uses: number;
+}
+
+// A fetch that missed this cache, answering at `atMs`
+interface PendingFill {
+  key: number;
+  atMs: number;
+  ok: boolean;
+}
+
+/**
+ * The entries one cache node holds. Fills happen cache-aside: a request that
+ * missed fills its key when its response would reach the cache, at arrival
+ * plus end-to-end latency. Every lookup for the key before then misses too,
+ * which is what makes cold starts and expiry stampedes hit the backend.
+ */
+export class CacheStore {
+  private entries: Map<number, CacheEntry> = new Map();
+  private keys: number[] = []; // dense copy of the entry keys for sampling
+  private slots: Map<number, number> = new Map(); // key → index in `keys`
+  private fetching: Set<number> = new Set();
+  private pending: PendingFill[] = [];
+  private stats: CacheStats = { entries: 0, hits: 0, misses: 0, herdMisses: 0, expirations: 0, evictions: 0, invalidations: 0 };
+
+  /** Records the outcome of a fetch for `key` that answers at `atMs`. */
+  fetched(key: number, atMs: number, ok: boolean) {
+    this.pending.push({ key, atMs, ok });
+  }
+
+  /**
+   * Applies fetches answered by `nowMs`: successful ones store their value
+   * with a fresh TTL, evicting until it fits; failed ones free the key for
+   * the next miss to fetch.
+   */
+  advanceTo(nowMs: number, config: CacheConfig, rng: Rng) {
+    const due = this.pending.filter((f) => f.atMs <= nowMs).sort((a, b) => a.atMs - b.atMs);
+    if (due.length === 0) return;
+    this.pending = this.pending.filter((f) => f.atMs > nowMs);
+    const capacity = cacheCapacity(config);
+    for (const { key, atMs, ok } of due) {
+      this.fetching.delete(key);
+      if (ok) this.store(key, atMs, config, capacity, rng);
+    }
+  }
+
+  /** Looks `key` up at `nowMs`, dropping it first if its TTL has passed. */
+  get(key: number, nowMs: number): boolean {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAtMs > nowMs) {
+      entry.lastUsedMs = nowMs;
+      entry.uses++;
+      this.stats.hits++;
+      return true;
+    }
+    if (entry) {
+      this.delete(key);
+      this.stats.expirations++;
+    }
+
+    this.stats.misses++;
+    if (this.fetching.has(key)) this.stats.herdMisses++;
+    else this.fetching.add(key);
+    return false;
+  }
+
+  /** Drops `key` because a write changed the value behind it. */
+  invalidate(key: number) {
+    if (!this.entries.has(key)) return;
+    this.delete(key);
+    this.stats.invalidations++;
+  }
+
+  getStats(): CacheStats {
+    return { ...this.stats, entries: this.keys.length };
+  }
+
+  private store(key: number, nowMs: number, config: CacheConfig, capacity: number, rng: Rng) {
+    const expiresAtMs = nowMs + config.ttl * 1000;
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.expiresAtMs = expiresAtMs;
+      return;
+    }
+
+    while (this.keys.length >= capacity) {
+      this.evict(config.evictionPolicy ?? 'LRU', rng);
+    }
+    this.entries.set(key, { expiresAtMs, lastUsedMs: nowMs, uses: 1 });
+    this.slots.set(key, this.keys.length);
+    this.keys.push(key);
+  }
+
+  private evict(policy: CacheEvictionPolicy, rng: Rng) {
+    let victim = this.keys[Math.floor(rng() * this.keys.length)];
+    if (policy !== 'RANDOM') {
+      // Lowest score goes: least recent use, fewest uses, or soonest expiry
+      const score = (entry: CacheEntry) =>
+        policy === 'LRU' ? entry.lastUsedMs : policy === 'LFU' ? entry.uses : entry.expiresAtMs;
+      for (let i = 1; i < EVICTION_SAMPLES; i++) {
+        const candidate = this.keys[Math.floor(rng() * this.keys.length)];
+        if (score(this.entries.get(candidate)!) < score(this.entries.get(victim)!)) victim = candidate;
+      }
+    }
+    this.delete(victim);
+    this.stats.evictions++;
+  }
+
+  // Swap-remove from the dense key list
+  private delete(key: number) {
+    const slot = this.slots.get(key);
+    if (slot === undefined) return;
+    const last = this.keys.pop()!;
+    if (last !== key) {
+      this.keys[slot] = last;
+      this.slots.set(last, slot);
+    }
+    this.slots.delete(key);
+    this.entries.delete(key);
+  }
+}
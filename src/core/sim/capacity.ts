@@ -0,0 +1,206 @@
+// =============================================================================
+// Atlas Learn - Capacity Planning
+// =============================================================================
+// Stress-tests a graph headlessly: scales every CLIENT's rps, runs a fresh
+// engine at each load level and binary-searches for the highest load that
+// still meets a set of objectives.
+// =============================================================================
+
+import { GraphState, ClientConfig, LevelObjective } from '@/core/types';
+import { EvaluationResult, evaluateObjectives } from '@/core/tutorial/evaluator';
+import { SimulationEngine, NodeMetricsSnapshot } from './engine';
+import { Metrics } from './metrics';
+import { loadFactor } from './analyzer';
+import { DEFAULT_TICK_MS, ticksToSeconds } from './clock';
+
+/** p95 under 300ms with fewer than 1% of requests failing. */
+export const DEFAULT_CAPACITY_OBJECTIVES: LevelObjective[] = [
+  { metric: 'p95', operator: '<', value: 300 },
+  { metric: 'errorRate', operator: '<', value: 0.01 },
+];
+
+// Beyond the objectives, a step fails once more than this share of requests
+// is dropped or throttled instead of served...
+const MAX_REFUSED_RATE = 0.01;
+// ...or once goodput falls this far behind the load clients offered
+const MIN_GOODPUT_RATIO = 0.95;
+
+export interface CapacitySweepOptions {
+  objectives?: LevelObjective[];
+  /** Seed shared by every step, so load levels differ only in load (default 1). */
+  seed?: number;
+  tickMs?: number;
+  /** Simulated time each load level runs for (default 30s). */
+  durationMs?: number;
+  /** Stop once the pass/fail bracket is within this fraction (default 0.05). */
+  precision?: number;
+  /** Highest multiple of the configured client rps to try (default 64). */
+  maxScale?: number;
+  /** Lowest multiple to try when the configured load already fails (default 1/64). */
+  minScale?: number;
+}
+
+/** The node with the least headroom at one load level. */
+export interface SaturatedNode {
+  nodeId: string;
+  label: string;
+  load: number; // arrival rate over capacity; past 1 it can't keep up
+}
+
+export interface CapacityStep {
+  scale: number; // multiple of the configured client rps
+  rps: number; // total load offered across clients
+  passed: boolean;
+  objectiveResults: EvaluationResult['objectiveResults'];
+  metrics: Pick<Metrics, 'throughput' | 'p95Latency' | 'errorRate' | 'dropRate' | 'throttleRate'>;
+  bottleneck: SaturatedNode | null;
+}
+
+export interface CapacityReport {
+  objectives: LevelObjective[];
+  baseRps: number; // total client rps as configured
+  maxRps: number; // highest load that met every objective; 0 if none did
+  ceilingReached: boolean; // even maxScale passed, so the true limit is higher
+  limitedBy: SaturatedNode | null; // bottleneck at the lowest load that failed
+  steps: CapacityStep[]; // in the order they ran
+}
+
+/** A copy of the graph with every client's rps multiplied by `scale`. */
+export function scaleClientLoad(graph: GraphState, scale: number): GraphState {
+  return {
+    ...graph,
+    nodes: graph.nodes.map((node) =>
+      node.type === 'CLIENT'
+        ? { ...node, config: { ...node.config, rps: (node.config as ClientConfig).rps * scale } as ClientConfig }
+        : node
+    ),
+  };
+}
+
+function totalClientRps(graph: GraphState): number {
+  return graph.nodes
+    .filter((n) => n.type === 'CLIENT')
+    .reduce((sum, n) => sum + (n.config as ClientConfig).rps, 0);
+}
+
+// Nodes that shed load rather than serve from a capacity (queues, rate
+// limiters) are loaded by what arrives over what they let through
+function refusalLoad(metrics: NodeMetricsSnapshot): number | null {
+  const { arrivals, drops, throttled } = metrics.run;
+  if (drops + throttled === 0) return null;
+  return arrivals / Math.max(1, arrivals - drops - throttled);
+}
+
+function runStep(graph: GraphState, scale: number, baseRps: number, objectives: LevelObjective[], options: CapacitySweepOptions): CapacityStep {
+  const tickMs = options.tickMs ?? DEFAULT_TICK_MS;
+  const scaled = scaleClientLoad(graph, scale);
+  const engine = new SimulationEngine(scaled, { seed: options.seed ?? 1, tickMs });
+  const report = engine.runFor(Math.max(1, Math.round((options.durationMs ?? 30000) / tickMs)));
+  const evaluation = evaluateObjectives(objectives, report.metrics);
+
+  const seconds = ticksToSeconds(report.tick, tickMs);
+  let bottleneck: SaturatedNode | null = null;
+  let overloaded = false;
+  let offered = 0;
+  for (const node of scaled.nodes) {
+    const metrics = report.nodeMetrics.get(node.id);
+    if (!metrics) continue;
+    if (node.type === 'CLIENT') offered += metrics.run.arrivals;
+    const capacityLoad = loadFactor(node, metrics, seconds);
+    if (capacityLoad !== null && capacityLoad > 1) overloaded = true;
+    const load = capacityLoad ?? refusalLoad(metrics);
+    if (load !== null && (!bottleneck || load > bottleneck.load)) {
+      bottleneck = { nodeId: node.id, label: node.label, load };
+    }
+  }
+
+  const { metrics } = report;
+  // Latency and errors only cover what was served; refused or missing traffic fails the step too
+  const served = metrics.dropRate <= MAX_REFUSED_RATE
+    && metrics.throttleRate <= MAX_REFUSED_RATE
+    && metrics.throughput >= (offered / seconds) * MIN_GOODPUT_RATIO;
+
+  return {
+    scale,
+    rps: baseRps * scale,
+    // A backlog that keeps growing fails eventually, even if this run ended before it showed
+    passed: evaluation.passed && served && !overloaded,
+    objectiveResults: evaluation.objectiveResults,
+    metrics: {
+      throughput: metrics.throughput,
+      p95Latency: metrics.p95Latency,
+      errorRate: metrics.errorRate,
+      dropRate: metrics.dropRate,
+      throttleRate: metrics.throttleRate,
+    },
+    bottleneck,
+  };
+}
+
+/**
+ * Finds the highest client load the graph sustains: every objective holds,
+ * no node receives more than its capacity, and nearly all of the load is
+ * served rather than dropped, throttled or left behind.
+ * Starting from the configured rps it doubles (or halves) the load until one
+ * level passes and the next fails, then bisects that bracket.
+ */
+export function findMaxRps(graph: GraphState, options: CapacitySweepOptions = {}): CapacityReport {
+  const objectives = options.objectives ?? DEFAULT_CAPACITY_OBJECTIVES;
+  const precision = options.precision ?? 0.05;
+  const maxScale = options.maxScale ?? 64;
+  const minScale = options.minScale ?? 1 / 64;
+  const baseRps = totalClientRps(graph);
+
+  const steps: CapacityStep[] = [];
+  const report = (lo: number, hi: number): CapacityReport => ({
+    objectives,
+    baseRps,
+    maxRps: baseRps * lo,
+    ceilingReached: hi === Infinity,
+    limitedBy: steps.find((s) => s.scale === hi)?.bottleneck ?? null,
+    steps,
+  });
+  // Without client traffic there is nothing to scale
+  if (baseRps <= 0) return report(0, 0);
+
+  const passes = (scale: number) => {
+    const step = runStep(graph, scale, baseRps, objectives, options);
+    steps.push(step);
+    return step.passed;
+  };
+
+  // Bracket the limit: lo passes, hi fails
+  let lo = 0;
+  let hi = Infinity;
+  if (passes(1)) {
+    lo = 1;
+    while (lo < maxScale) {
+      const next = Math.min(maxScale, lo * 2);
+      if (!passes(next)) {
+        hi = next;
+        break;
+      }
+      lo = next;
+    }
+  } else {
+    hi = 1;
+    while (hi > minScale) {
+      const next = Math.max(minScale, hi / 2);
+      if (passes(next)) {
+        lo = next;
+        break;
+      }
+      hi = next;
+    }
+  }
+
+  if (lo > 0 && hi !== Infinity) {
+    while ((hi - lo) / lo > precision) {
+      const mid = (lo + hi) / 2;
+      if (passes(mid)) lo = mid;
+      else hi = mid;
+    }
+  }
+
+  return report(lo, hi);
+}
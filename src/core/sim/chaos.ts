@@ -0,0 +1,188 @@
+// =============================================================================
+// Atlas Learn - Chaos Scenarios
+// =============================================================================
+// Scheduled faults for the simulator: kill a node, degrade it, partition an
+// edge, raise a node's error rate or take a whole region down at a given
+// tick, then watch the rest of the system respond.
+// =============================================================================
+
+import { NodeData } from '@/core/types';
+import { NodeState, SimRequest, openHop } from './models';
+import { nodePlacement } from './network';
+import { Rng } from './random';
+
+// -----------------------------------------------------------------------------
+// Events
+// -----------------------------------------------------------------------------
+
+export type FaultKind = 'KILL' | 'DEGRADE' | 'PARTITION' | 'ERROR_RATE' | 'REGION_OUTAGE';
+
+export interface ChaosEvent {
+  id: string;
+  kind: FaultKind;
+  targetId: string;        // node id; edge id for PARTITION, region for REGION_OUTAGE
+  atTick: number;          // first tick the fault is in effect
+  durationTicks?: number;  // omitted = lasts for the rest of the run
+  errorRate?: number;      // ERROR_RATE only, 0-1
+}
+
+/** A fault to add to a running scenario; id and start tick are filled in if omitted. */
+export type FaultSpec = Omit<ChaosEvent, 'id' | 'atTick'> & { id?: string; atTick?: number };
+
+// A degraded node is this much slower and has this share of its capacity
+export const DEGRADE_LATENCY_FACTOR = 5;
+export const DEGRADE_CAPACITY_FACTOR = 0.5;
+
+export const DEFAULT_INJECTED_ERROR_RATE = 0.5;
+
+/** Faults in effect at one tick. Plain arrays/objects so it can cross to the page. */
+export interface ActiveFaults {
+  down: string[];                      // node ids
+  degraded: string[];                  // node ids
+  partitioned: string[];               // edge ids
+  errorRates: Record<string, number>;  // node id → injected error rate
+  regions: string[];                   // regions in an outage; their nodes are in `down`
+}
+
+export function isFaultActive(event: ChaosEvent, tick: number): boolean {
+  if (tick < event.atTick) return false;
+  return event.durationTicks === undefined || tick < event.atTick + event.durationTicks;
+}
+
+export function noFaults(): ActiveFaults {
+  return { down: [], degraded: [], partitioned: [], errorRates: {}, regions: [] };
+}
+
+// -----------------------------------------------------------------------------
+// Timeline
+// -----------------------------------------------------------------------------
+
+/** The scenario attached to an engine. Events are kept in firing order. */
+export class ChaosTimeline {
+  private events: ChaosEvent[] = [];
+
+  constructor(events: ChaosEvent[] = []) {
+    events.forEach((e) => this.schedule(e));
+  }
+
+  /** Adds an event, replacing any earlier event with the same id. */
+  schedule(event: ChaosEvent) {
+    this.events = this.events.filter((e) => e.id !== event.id);
+    this.events.push({ ...event });
+    this.events.sort((a, b) => a.atTick - b.atTick);
+  }
+
+  /** Removes the events aimed at `targetId`, or every event when omitted. */
+  clear(targetId?: string) {
+    this.events = targetId === undefined ? [] : this.events.filter((e) => e.targetId !== targetId);
+  }
+
+  getEvents(): ChaosEvent[] {
+    return this.events.map((e) => ({ ...e }));
+  }
+
+  activeAt(tick: number): ActiveFaults {
+    const faults = noFaults();
+    for (const event of this.events) {
+      if (event.atTick > tick) break;
+      if (!isFaultActive(event, tick)) continue;
+      switch (event.kind) {
+        case 'KILL':
+          faults.down.push(event.targetId);
+          break;
+        case 'DEGRADE':
+          faults.degraded.push(event.targetId);
+          break;
+        case 'PARTITION':
+          faults.partitioned.push(event.targetId);
+          break;
+        case 'ERROR_RATE':
+          // Overlapping events on one node: the worst one wins
+          faults.errorRates[event.targetId] = Math.max(
+            faults.errorRates[event.targetId] ?? 0,
+            event.errorRate ?? DEFAULT_INJECTED_ERROR_RATE,
+          );
+          break;
+        case 'REGION_OUTAGE':
+          faults.regions.push(event.targetId);
+          break;
+      }
+    }
+    return faults;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Applying Faults
+// -----------------------------------------------------------------------------
+
+/** Adds every node placed in a region that is out to the downed nodes. */
+export function applyRegionOutages(faults: ActiveFaults, nodes: NodeData[]): ActiveFaults {
+  if (faults.regions.length === 0) return faults;
+  const down = nodes
+    .filter((n) => !faults.down.includes(n.id) && faults.regions.includes(nodePlacement(n).region))
+    .map((n) => n.id);
+  return { ...faults, down: [...faults.down, ...down] };
+}
+
+/** The node as it behaves while degraded: slower and with less capacity. */
+export function degradeNode(node: NodeData): NodeData {
+  const config = { ...node.config } as { capacity?: number; baseLatency?: number };
+  if (config.capacity !== undefined) config.capacity *= DEGRADE_CAPACITY_FACTOR;
+  if (config.baseLatency !== undefined) config.baseLatency *= DEGRADE_LATENCY_FACTOR;
+  return { ...node, config: config as NodeData['config'] };
+}
+
+/**
+ * One tick of a downed node: everything sent to it, and everything it had
+ * queued, fails straight away. Clients stop generating traffic.
+ */
+export function refuseAll(
+  nodeId: string,
+  state: NodeState,
+  incoming: SimRequest[],
+  tick: number,
+): { state: NodeState; outgoing: SimRequest[] } {
+  for (const req of incoming) {
+    openHop(req, nodeId, tick);
+  }
+
+  const refused = [...state.queue, ...incoming];
+  for (const req of refused) {
+    const hop = req.hops[req.hops.length - 1];
+    if (hop) hop.dequeueTick = tick;
+    req.status = 'ERROR';
+    req.failureReason = 'NODE_DOWN';
+  }
+
+  return {
+    state: {
+      ...state,
+      queue: [],
+      completed: [...state.completed, ...refused],
+      utilization: 0,
+      throughput: 0,
+      errorCount: state.errorCount + refused.length,
+    },
+    outgoing: [],
+  };
+}
+
+/**
+ * Fails a share of the requests a node just finished, as if it had answered
+ * them with errors. Failed requests move to the node's completed list.
+ */
+export function injectErrors(state: NodeState, outgoing: SimRequest[], errorRate: number, rng: Rng): SimRequest[] {
+  const passed: SimRequest[] = [];
+  for (const req of outgoing) {
+    if (rng() < errorRate) {
+      req.status = 'ERROR';
+      req.failureReason = 'INJECTED';
+      state.errorCount++;
+      state.completed.push(req);
+    } else {
+      passed.push(req);
+    }
+  }
+  return passed;
+}
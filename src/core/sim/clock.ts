@@ -0,0 +1,23 @@
+// =============================================================================
+// Atlas Learn - Simulation Clock
+// =============================================================================
+// Conversions between ticks and simulated time. Node configs speak in
+// requests/sec and milliseconds; the engine advances in ticks of `tickMs`.
+// =============================================================================
+
+/** Simulated duration of one tick unless a run asks for another. */
+export const DEFAULT_TICK_MS = 100;
+
+export function ticksToSeconds(ticks: number, tickMs: number): number {
+  return (ticks * tickMs) / 1000;
+}
+
+/** Whole ticks in a span of simulated time, never fewer than one. */
+export function msToTicks(ms: number, tickMs: number): number {
+  return Math.max(1, Math.floor(ms / tickMs));
+}
+
+/** How much of a per-second rate falls within one tick (may be fractional). */
+export function ratePerTick(ratePerSecond: number, tickMs: number): number {
+  return (ratePerSecond * tickMs) / 1000;
+}
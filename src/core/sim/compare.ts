@@ -0,0 +1,137 @@
+// =============================================================================
+// Atlas Learn - Variant Comparison
+// =============================================================================
+// Runs several versions of a graph headlessly under the same seed, so they
+// see identical client traffic, and collects their metrics side by side.
+// Variants are either hand-picked graphs (A/B) or generated by sweeping one
+// numeric config field of one node across a range.
+// =============================================================================
+
+import { GraphState, NodeData } from '@/core/types';
+import { SimulationEngine } from './engine';
+import { Metrics } from './metrics';
+import { HistorySample } from './history';
+import { CostEstimate } from './cost';
+import { ChaosEvent } from './chaos';
+import { DEFAULT_TICK_MS } from './clock';
+
+export interface GraphVariant {
+  id: string;
+  label: string;
+  graph: GraphState;
+}
+
+export interface ComparisonOptions {
+  /** Seed shared by every variant (default 1). */
+  seed?: number;
+  tickMs?: number;
+  /** Simulated time each variant runs for (default 30s). */
+  durationMs?: number;
+  /** Faults injected into every variant at the same ticks. */
+  chaos?: ChaosEvent[];
+}
+
+export interface VariantResult {
+  id: string;
+  label: string;
+  metrics: Metrics;
+  cost: CostEstimate;
+  history: HistorySample[]; // global, one sample per simulated second
+}
+
+export interface ComparisonReport {
+  seed: number;
+  tickMs: number;
+  results: VariantResult[]; // in variant order
+}
+
+/** One numeric config field of one node, stepped evenly from `from` to `to`. */
+export interface SweepSpec {
+  nodeId: string;
+  field: string;
+  from: number;
+  to: number;
+  steps: number; // values tried, ends included (at least 2)
+}
+
+// Fields that count things (connections, partitions, replicas...); a sweep
+// over one of these only tries whole numbers
+const COUNT_FIELDS = new Set([
+  'concurrency',
+  'maxConcurrency',
+  'maxConnections',
+  'poolSize',
+  'readReplicas',
+  'replicaCount',
+  'partitions',
+  'maxSize',
+  'maxRequests',
+  'burstSize',
+  'bufferSize',
+  'batchSize',
+  'keyspaceSize',
+  'maxDepth',
+  'maxComplexity',
+]);
+
+/** Config fields of the node that hold a number, and so can be swept. */
+export function numericConfigFields(node: NodeData): string[] {
+  return Object.entries(node.config)
+    .filter(([, value]) => typeof value === 'number')
+    .map(([field]) => field);
+}
+
+/** The node's value for a numeric config field; undefined if it has none. */
+export function numericConfigValue(node: NodeData, field: string): number | undefined {
+  const value = Object.entries(node.config).find(([key]) => key === field)?.[1];
+  return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * The values a sweep tries, evenly spaced with both ends included. Count
+ * fields are rounded to whole numbers, so close values may merge.
+ */
+export function sweepValues(spec: Pick<SweepSpec, 'field' | 'from' | 'to' | 'steps'>): number[] {
+  const steps = Math.max(2, Math.floor(spec.steps));
+  const values = Array.from({ length: steps }, (_, i) => spec.from + ((spec.to - spec.from) * i) / (steps - 1));
+  if (!COUNT_FIELDS.has(spec.field)) return values;
+  return [...new Set(values.map((v) => Math.round(v)))];
+}
+
+/** A copy of `graph` per sweep value, with only the swept field changed. */
+export function sweepVariants(graph: GraphState, spec: SweepSpec): GraphVariant[] {
+  const node = graph.nodes.find((n) => n.id === spec.nodeId);
+  if (!node) throw new Error(`Cannot sweep unknown node ${spec.nodeId}`);
+
+  return sweepValues(spec).map((value) => ({
+    id: `${spec.nodeId}.${spec.field}=${value}`,
+    label: `${node.label} ${spec.field} = ${Number(value.toPrecision(4))}`,
+    graph: {
+      ...graph,
+      nodes: graph.nodes.map((n) =>
+        n.id === spec.nodeId ? { ...n, config: { ...n.config, [spec.field]: value } as NodeData['config'] } : n
+      ),
+    },
+  }));
+}
+
+/** Runs every variant for the same simulated time and seed. */
+export function compareVariants(variants: GraphVariant[], options: ComparisonOptions = {}): ComparisonReport {
+  const seed = options.seed ?? 1;
+  const tickMs = options.tickMs ?? DEFAULT_TICK_MS;
+  const ticks = Math.max(1, Math.round((options.durationMs ?? 30000) / tickMs));
+
+  const results = variants.map((variant) => {
+    const engine = new SimulationEngine(variant.graph, { seed, tickMs, chaos: options.chaos });
+    const report = engine.runFor(ticks);
+    return {
+      id: variant.id,
+      label: variant.label,
+      metrics: report.metrics,
+      cost: report.cost,
+      history: engine.getHistory().global,
+    };
+  });
+
+  return { seed, tickMs, results };
+}
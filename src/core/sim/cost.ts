@@ -0,0 +1,102 @@
+// =============================================================================
+// Atlas Learn - Cost Model
+// =============================================================================
+// Prices a run with the rates each node type carries in the registry. Hourly
+// rates follow the instances, memory and partitions a node runs with; request
+// rates follow the traffic it receives. Both are averaged over the run and
+// extrapolated to a 730-hour month.
+// =============================================================================
+
+import { NodeData, CacheConfig, SqlDatabaseConfig, NosqlDatabaseConfig, StreamProcessorConfig } from '@/core/types';
+import { getNodeDefinition } from '@/core/nodes/registry';
+import { DEFAULT_CACHE_MEMORY_MB } from './cache';
+
+const HOURS_PER_MONTH = 730;
+const SECONDS_PER_MONTH = HOURS_PER_MONTH * 3600;
+
+/** What the architecture would cost if the run's load held all month. */
+export interface CostEstimate {
+  monthly: number; // USD per month
+  per1kRequests: number; // USD per 1,000 successful requests; 0 until one succeeds
+}
+
+/** Instances a node bills for: its replicas, or every member of a database. */
+export function billedInstances(node: NodeData, replicas: number): number {
+  switch (node.type) {
+    case 'SQL_DATABASE':
+      return 1 + ((node.config as SqlDatabaseConfig).readReplicas ?? 0);
+    case 'NOSQL_DATABASE':
+      return Math.max(1, (node.config as NosqlDatabaseConfig).replicaCount);
+    default:
+      return replicas;
+  }
+}
+
+interface NodeUsage {
+  ticks: number;
+  instanceTicks: number;
+  arrivals: number;
+}
+
+/**
+ * Accumulates what each node used tick by tick, so autoscaled replicas are
+ * billed for the time they actually ran.
+ */
+export class CostMeter {
+  private usage: Map<string, NodeUsage> = new Map();
+
+  recordTick(nodeId: string, instances: number, arrivals: number) {
+    const u = this.usage.get(nodeId) ?? { ticks: 0, instanceTicks: 0, arrivals: 0 };
+    u.ticks++;
+    u.instanceTicks += instances;
+    u.arrivals += arrivals;
+    this.usage.set(nodeId, u);
+  }
+
+  /** Monthly USD for one node at its average footprint and traffic so far. */
+  monthlyCost(node: NodeData, tickMs: number): number {
+    const u = this.usage.get(node.id);
+    const model = getNodeDefinition(node.type)?.costModel;
+    if (!u || !model) return 0;
+
+    const instances = u.instanceTicks / u.ticks;
+    const memoryGB =
+      node.type === 'CACHE' || node.type === 'REDIS_CACHE'
+        ? ((node.config as CacheConfig).maxMemoryMB ?? DEFAULT_CACHE_MEMORY_MB) / 1024
+        : 0;
+    const partitions = node.type === 'STREAM_PROCESSOR' ? (node.config as StreamProcessorConfig).partitions : 0;
+    const hourly =
+      instances * (model.perInstanceHour ?? 0) + memoryGB * (model.perGBHour ?? 0) + partitions * (model.perPartitionHour ?? 0);
+
+    const requestsPerSecond = u.arrivals / ((u.ticks * tickMs) / 1000);
+    const requests = (requestsPerSecond * SECONDS_PER_MONTH * (model.perMillionRequests ?? 0)) / 1_000_000;
+
+    return hourly * HOURS_PER_MONTH + requests;
+  }
+
+  /**
+   * The whole graph's monthly cost, and what the run itself cost per 1,000
+   * successful requests.
+   */
+  estimate(nodes: NodeData[], tickMs: number, succeeded: number): CostEstimate {
+    let monthly = 0;
+    let runCost = 0;
+    for (const node of nodes) {
+      const cost = this.monthlyCost(node, tickMs);
+      monthly += cost;
+      runCost += (cost * (this.usage.get(node.id)?.ticks ?? 0) * tickMs) / 1000 / SECONDS_PER_MONTH;
+    }
+    return {
+      monthly,
+      per1kRequests: succeeded > 0 ? (runCost / succeeded) * 1000 : 0,
+    };
+  }
+
+  remove(nodeId: string) {
+    this.usage.delete(nodeId);
+  }
+
+  reset() {
+    this.usage.clear();
+  }
+}
@@ -0,0 +1,59 @@
+// =============================================================================
+// Atlas Learn - Service-Time Distributions
+// =============================================================================
+// Per-request service times drawn around a node's baseLatency, so tail
+// latency comes from the model instead of only from queueing.
+// =============================================================================
+
+import { ServiceTimeConfig } from '@/core/types';
+import { Rng } from './random';
+
+const DEFAULT_SIGMA = 0.5;
+const DEFAULT_SLOW_PATH_RATE = 0.05;
+const DEFAULT_SLOW_PATH_MULTIPLIER = 10;
+
+// Standard normal draw (Box–Muller); 1 - u keeps the log away from zero
+function sampleStandardNormal(rng: Rng): number {
+  const u1 = 1 - rng();
+  const u2 = rng();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Service time in ms for one request.
+ * CONSTANT:    always baseLatency (draws nothing from the rng).
+ * EXPONENTIAL: memoryless, mean baseLatency; most requests are quick, a few slow.
+ * LOG_NORMAL:  right-skewed with mean baseLatency; sigma widens the tail.
+ * BIMODAL:     baseLatency, except a slowPathRate share that takes
+ *              slowPathMultiplier × longer (cache misses, GC pauses).
+ */
+export function sampleServiceTime(config: ServiceTimeConfig, baseLatency: number, rng: Rng): number {
+  switch (config.serviceTime ?? 'CONSTANT') {
+    case 'EXPONENTIAL':
+      return -baseLatency * Math.log(1 - rng());
+
+    case 'LOG_NORMAL': {
+      const sigma = config.serviceTimeSigma ?? DEFAULT_SIGMA;
+      // Shift mu so the mean, not the median, lands on baseLatency
+      const mu = Math.log(baseLatency) - (sigma * sigma) / 2;
+      return Math.exp(mu + sigma * sampleStandardNormal(rng));
+    }
+
+    case 'BIMODAL': {
+      const slow = rng() < (config.slowPathRate ?? DEFAULT_SLOW_PATH_RATE);
+      return slow ? baseLatency * (config.slowPathMultiplier ?? DEFAULT_SLOW_PATH_MULTIPLIER) : baseLatency;
+    }
+
+    case 'CONSTANT':
+    default:
+      return baseLatency;
+  }
+}
+
+/** Long-run average of sampleServiceTime, for capacity hints in the UI. */
+export function meanServiceTime(config: ServiceTimeConfig, baseLatency: number): number {
+  if (config.serviceTime !== 'BIMODAL') return baseLatency;
+  const rate = config.slowPathRate ?? DEFAULT_SLOW_PATH_RATE;
+  const multiplier = config.slowPathMultiplier ?? DEFAULT_SLOW_PATH_MULTIPLIER;
+  return baseLatency * (1 - rate + rate * multiplier);
+}
@@ -2,19 +2,138 @@
 // Atlas Learn - Simulation Engine
 // =============================================================================
 
-import { NodeData, EdgeData, GraphState } from '@/core/types';
-import { SimRequest, NodeState, createInitialNodeState, processNode } from './models';
-import { Metrics, calculateMetrics, RollingMetrics } from './metrics';
+import { NodeData, EdgeData, GraphState, CacheConfig, LoadBalancerConfig } from '@/core/types';
+import { SimRequest, NodeState, SimContext, CallFrame, CallerSlot, ConsumerLag, createInitialNodeState, processNode } from './models';
+import { Metrics, MetricsRecorder, RollingMetrics } from './metrics';
+import { Rng, createRng, deriveSeed, randomSeed } from './random';
+import { DEFAULT_TICK_MS, msToTicks } from './clock';
+import { selectOutliers } from './tracing';
+import { MetricsHistory, MetricsHistorySeries, isSteady } from './history';
+import { NodeStatsTracker, NodeRunMetrics } from './nodeStats';
+import { RoutedRequest, ForkTracker, routeRequests, edgeMode } from './routing';
+import { ActiveFaults, ChaosEvent, ChaosTimeline, FaultSpec, noFaults, applyRegionOutages, degradeNode, refuseAll, injectErrors } from './chaos';
+import { CircuitBreakers, backoffDelay, hasCallPolicy } from './resilience';
+import { autoscalingPolicy, replicaCount, stepAutoscaler, withReplicas } from './autoscaler';
+import { CacheStats } from './cache';
+import { CostEstimate, CostMeter, billedInstances } from './cost';
+import { NetworkLinks } from './network';
+
+// Completed requests kept around for the trace viewer
+const TRACE_BUFFER_SIZE = 5000;
+
+// Fastest wall-clock cadence for live runs; higher speeds run several ticks per frame
+const MIN_FRAME_MS = 50;
+
+export const MIN_SPEED = 0.25;
+export const MAX_SPEED = 50;
+
+// Clients draw from their own stream so that, for one seed, graph variants
+// that differ downstream still receive identical traffic
+const TRAFFIC_STREAM = 1;
+
+// Time for callers other than load balancers to notice a downed target and
+// fail over to a sibling, e.g. a DNS record's TTL running out
+const DEFAULT_FAILOVER_DETECTION_MS = 10000;
+
+// A failed call waiting out its backoff before going back over `edgeId`
+interface PendingRetry {
+  dueTick: number;
+  edgeId: string;
+  request: SimRequest;
+  attempt: number;
+}
+
+// A call's deadline. `request` is the caller's copy from when the call went
+// out; `slot` is the one the caller holds for it over a SYNC edge.
+interface PendingTimeout {
+  dueTick: number;
+  edgeId: string;
+  frame: CallFrame;
+  request: SimRequest;
+  slot?: CallerSlot;
+}
+
+// A request still on the network, reaching `nodeId` at `dueTick`
+interface InTransit {
+  dueTick: number;
+  nodeId: string;
+  request: SimRequest;
+}
 
 // -----------------------------------------------------------------------------
 // Simulation Engine State
 // -----------------------------------------------------------------------------
 
+export interface SimulationOptions {
+  /** Seed for every random draw; the same graph + seed replays identically. */
+  seed?: number;
+  /** Simulated duration of one tick in ms (default 100). */
+  tickMs?: number;
+  /** Faults to inject as the run reaches each event's tick. */
+  chaos?: ChaosEvent[];
+}
+
+export interface DatabaseMetrics {
+  readReplicas: number;
+  replicationLagMs: number; // 0 without replicas
+  staleReads: number; // keyed reads of a key written within the lag window
+  rejectedConnections: number;
+}
+
+export interface NodeMetricsSnapshot {
+  utilization: number;
+  throughput: number;
+  queueDepth: number;
+  inFlight: number;
+  errorCount: number;
+  replicas: number; // serving traffic; 1 unless autoscaled
+  provisioningReplicas: number; // requested but not yet serving
+  cache?: CacheStats; // caches using the keyspace model
+  database?: DatabaseMetrics; // SQL / NoSQL databases
+  consumerLag?: ConsumerLag; // queues, streams, batch jobs and sinks
+  monthlyCost: number; // USD at the node's average footprint and traffic
+  run: NodeRunMetrics;
+}
+
 export interface SimulationSnapshot {
   tick: number;
+  tickMs: number;
+  seed: number;
   nodeStates: Map<string, NodeState>;
   metrics: Metrics;
-  nodeMetrics: Map<string, { utilization: number; throughput: number; queueDepth: number }>;
+  nodeMetrics: Map<string, NodeMetricsSnapshot>;
+  cost: CostEstimate;
+  faults: ActiveFaults;
+  openBreakers: string[]; // edges whose circuit breaker is open or letting a trial call through
+}
+
+/** Outcome of a headless batch run. */
+export interface RunReport {
+  ticksRun: number;           // ticks executed by this call
+  tick: number;               // engine tick at the end of the run
+  seed: number;
+  steady: boolean;            // p95 and throughput settled before the run ended
+  steadyAtTick: number | null;
+  metrics: Metrics;
+  nodeMetrics: Map<string, NodeMetricsSnapshot>;
+  cost: CostEstimate;
+}
+
+export interface SteadyStateOptions {
+  /** Consecutive one-second samples that must agree (default 5). */
+  windowSeconds?: number;
+  /** Give up after this many ticks (default 3000). */
+  maxTicks?: number;
+}
+
+function databaseMetrics(state: NodeState): DatabaseMetrics {
+  const readReplicas = state.readReplicas ?? 0;
+  return {
+    readReplicas,
+    replicationLagMs: readReplicas > 0 ? (state.replicationLagMs ?? 0) : 0,
+    staleReads: state.staleReads ?? 0,
+    rejectedConnections: state.rejectedConnections ?? 0,
+  };
 }
 
 // -----------------------------------------------------------------------------
@@ -23,16 +142,42 @@ export interface SimulationSnapshot {
 
 export class SimulationEngine {
   private graph: GraphState;
+  private seed: number;
+  private rng: Rng;
+  private trafficRng: Rng;
+  private tickMs: number;
   private tick: number = 0;
   private nodeStates: Map<string, NodeState> = new Map();
-  private allCompletedRequests: SimRequest[] = [];
+  private inbox: Map<string, SimRequest[]> = new Map();
+  private forks: ForkTracker = new ForkTracker();
+  private metricsRecorder: MetricsRecorder = new MetricsRecorder();
+  private recentRequests: SimRequest[] = [];
+  private history: MetricsHistory;
+  private nodeStats: NodeStatsTracker = new NodeStatsTracker();
+  private costMeter: CostMeter = new CostMeter();
+  private chaos: ChaosTimeline;
+  private faults: ActiveFaults = noFaults();
+  private nextFaultId: number = 1;
+  private breakers: CircuitBreakers = new CircuitBreakers();
+  private pendingRetries: PendingRetry[] = [];
+  private pendingTimeouts: PendingTimeout[] = [];
+  private network: NetworkLinks = new NetworkLinks();
+  private inTransit: InTransit[] = [];
+  private downSince: Map<string, number> = new Map(); // node id → tick it went down
   private rollingMetrics: RollingMetrics;
   private isRunning: boolean = false;
-  private intervalId: NodeJS.Timeout | null = null;
+  private speed: number = 1;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
   private onUpdate: ((snapshot: SimulationSnapshot) => void) | null = null;
 
-  constructor(graph: GraphState) {
+  constructor(graph: GraphState, options: SimulationOptions = {}) {
     this.graph = graph;
+    this.seed = options.seed ?? randomSeed();
+    this.rng = createRng(this.seed);
+    this.trafficRng = createRng(deriveSeed(this.seed, TRAFFIC_STREAM));
+    this.tickMs = options.tickMs ?? DEFAULT_TICK_MS;
+    this.history = new MetricsHistory(this.tickMs);
+    this.chaos = new ChaosTimeline(options.chaos);
     this.rollingMetrics = new RollingMetrics(100);
     this.initializeNodeStates();
   }
@@ -69,92 +214,541 @@ export class SimulationEngine {
   // -------------------------------------------------------------------------
 
   step(): SimulationSnapshot {
-    this.tick++;
+    this.advance();
+    return this.getSnapshot();
+  }
 
-    // Track requests flowing between nodes
-    const nodeIncoming: Map<string, SimRequest[]> = new Map();
-    for (const node of this.graph.nodes) {
-      nodeIncoming.set(node.id, []);
-    }
+  // One tick of simulation without building a snapshot
+  private advance() {
+    this.tick++;
+    const ctx: SimContext = { tick: this.tick, tickMs: this.tickMs, rng: this.rng };
+    const faults = applyRegionOutages(this.chaos.activeAt(this.tick), this.graph.nodes);
+    this.faults = faults;
+    this.trackDowntime(faults);
+    this.expireCalls();
+    this.sendDueRetries();
+    this.deliverArrivals();
 
     // Process each node
     for (const node of this.graph.nodes) {
       const state = this.nodeStates.get(node.id) || createInitialNodeState();
-      const incoming = nodeIncoming.get(node.id) || [];
 
-      const { state: newState, outgoing } = processNode(node, state, incoming, this.tick);
+      // Requests routed here since this node last ran. Nodes earlier in the
+      // processing order pick up this tick's deliveries on the next tick.
+      const incoming = this.inbox.get(node.id) || [];
+      this.inbox.set(node.id, []);
+
+      // Autoscaled nodes serve with every running replica's capacity
+      const policy = autoscalingPolicy(node);
+      const scaled = policy ? withReplicas(node, replicaCount(node, state)) : node;
+
+      const nodeCtx =
+        node.type === 'QUEUE' ? { ...ctx, pullCapacity: this.consumerDemand(node.id) }
+        : node.type === 'CLIENT' ? { ...ctx, rng: this.trafficRng }
+        : ctx;
+      const result = faults.down.includes(node.id)
+        ? refuseAll(node.id, state, incoming, this.tick)
+        : processNode(faults.degraded.includes(node.id) ? degradeNode(scaled) : scaled, state, incoming, nodeCtx);
+      const newState = result.state;
+      let outgoing = result.outgoing;
+      if (policy) stepAutoscaler(policy, newState, this.tick);
+      const injectedErrorRate = faults.errorRates[node.id];
+      if (injectedErrorRate) outgoing = injectErrors(newState, outgoing, injectedErrorRate, this.rng);
 
       this.nodeStates.set(node.id, newState);
-
-      // Route outgoing requests to connected nodes
-      const edges = this.getOutgoingEdges(node.id); // Get all outgoing edges
-
-      if (outgoing.length > 0) {
-        if (edges.length > 0) {
-          
-          // Generalized Routing: Default to Round Robin for ALL multi-edge nodes
-          // unless specific logic dictates otherwise (e.g., specific broadcast types).
-          // For now, we apply Single-Target Round Robin to everything to avoid "duplication".
-
-          let rrIndex = newState.roundRobinIdx || 0;
-          
-          for (const req of outgoing) {
-             // Pick ONE edge based on index
-             const edge = edges[rrIndex % edges.length];
-             const targetId = edge.targetId;
-             const targetIncoming = nodeIncoming.get(targetId) || [];
-             
-             // Move the request (no cloning needed for single path, but keeping object distinctive is good)
-             targetIncoming.push({ ...req }); 
-             nodeIncoming.set(targetId, targetIncoming);
-             
-             rrIndex++;
+      this.nodeStats.recordTick(node.id, this.tick, incoming, outgoing, newState.completed, node.type === 'CLIENT');
+      this.costMeter.recordTick(node.id, billedInstances(node, replicaCount(node, newState)), incoming.length);
+
+      const edges = this.getOutgoingEdges(node.id);
+
+      // Failed requests take the node's ON_ERROR edges instead of completing
+      if (edges.some((e) => edgeMode(e) === 'ON_ERROR')) {
+        const failed = newState.completed.filter((r) => r.status === 'ERROR');
+        if (failed.length > 0) {
+          newState.completed = newState.completed.filter((r) => r.status !== 'ERROR');
+          for (const req of failed) {
+            req.status = 'PENDING';
+            req.failureReason = undefined;
           }
-          
-          // Update state with new RR index
-          newState.roundRobinIdx = rrIndex;
-          this.nodeStates.set(node.id, newState);
+          this.deliver(routeRequests(node, newState, failed, edges, this.queueDepth, this.forks, this.rng, this.healthyFrom(node), true));
+        }
+      }
 
+      if (outgoing.length > 0) {
+        // A node that only hands work off asynchronously answers its SYNC
+        // callers now, before any fan-out would hold them for the join
+        const handsOff = edges.some((e) => edgeMode(e) !== 'ON_ERROR') && !edges.some((e) => e.callMode === 'SYNC');
+        if (handsOff) outgoing.forEach((r) => this.handOff(r));
+        const routed = routeRequests(node, newState, outgoing, edges, this.queueDepth, this.forks, this.rng, this.healthyFrom(node));
+
+        if (routed.length > 0) {
+          this.deliver(routed);
         } else {
           // No outgoing edge = request completed
           for (const req of outgoing) {
             req.status = 'SUCCESS';
-            this.allCompletedRequests.push(req);
-            this.rollingMetrics.addRequest(req);
+            this.recordCompletion(req);
           }
         }
       }
 
       // Collect completed requests from node state
       for (const req of newState.completed) {
-        this.allCompletedRequests.push(req);
-        this.rollingMetrics.addRequest(req);
+        this.recordCompletion(req);
       }
       newState.completed = []; // Clear after collecting
     }
 
-    return this.getSnapshot();
+    this.history.recordTick(this.tick, this.nodeStates);
+  }
+
+  // Messages a queue's consumers can take this tick: each pulls what it can
+  // start per tick, less what it already has waiting. Consumers that don't
+  // report an intake make the queue fall back to pushing.
+  private consumerDemand(queueId: string): number {
+    const edges = this.getOutgoingEdges(queueId);
+    // A queue nothing consumes from ends the graph: it drains at the default rate
+    if (edges.length === 0) return Infinity;
+    let demand = 0;
+    for (const edge of edges) {
+      const intake = this.nodeStates.get(edge.targetId)?.intake;
+      if (intake === undefined) return Infinity;
+      demand += Math.max(0, Math.ceil(intake) - this.queueDepth(edge.targetId));
+    }
+    return demand;
+  }
+
+  private trackDowntime(faults: ActiveFaults) {
+    for (const nodeId of faults.down) {
+      if (!this.downSince.has(nodeId)) this.downSince.set(nodeId, this.tick);
+    }
+    for (const nodeId of this.downSince.keys()) {
+      if (!faults.down.includes(nodeId)) this.downSince.delete(nodeId);
+    }
+  }
+
+  // Whether `node` still believes each target is up: load balancers notice a
+  // downed target within one health check, other callers after
+  // DEFAULT_FAILOVER_DETECTION_MS. Recovered targets are trusted at once.
+  private healthyFrom(node: NodeData): (nodeId: string) => boolean {
+    if (this.downSince.size === 0) return () => true;
+    const detectionMs = node.type === 'LOAD_BALANCER'
+      ? (node.config as LoadBalancerConfig).healthCheckIntervalMs
+      : DEFAULT_FAILOVER_DETECTION_MS;
+    const detectionTicks = msToTicks(detectionMs, this.tickMs);
+    return (nodeId) => {
+      const since = this.downSince.get(nodeId);
+      return since === undefined || this.tick - since < detectionTicks;
+    };
+  }
+
+  private deliver(routed: RoutedRequest[]) {
+    for (const { edge, request } of routed) {
+      this.send(edge, request, 0);
+    }
+  }
+
+  // Puts one request on an edge; `attempt` > 0 marks a retry
+  private send(edge: EdgeData, request: SimRequest, attempt: number) {
+    let timeout: PendingTimeout | undefined;
+    if (hasCallPolicy(edge)) {
+      this.metricsRecorder.recordCall(attempt);
+      const frame: CallFrame = {
+        edgeId: edge.id,
+        attempt,
+        sentLatency: request.latency,
+        hopCount: request.hops.length,
+        callerCount: request.callers?.length ?? 0,
+      };
+      const callerView: SimRequest = { ...request, hops: request.hops.slice() };
+      request.calls = [...(request.calls ?? []), frame];
+
+      if (!this.breakers.allow(edge, this.tick, this.tickMs)) {
+        frame.rejected = true;
+        request.status = 'ERROR';
+        request.failureReason = 'CIRCUIT_OPEN';
+        this.recordCompletion(request);
+        return;
+      }
+
+      // The deadline runs from now, whether or not the request ever returns
+      if (edge.timeoutMs !== undefined) {
+        const dueTick = this.tick + Math.max(1, Math.ceil(edge.timeoutMs / this.tickMs));
+        timeout = { dueTick, edgeId: edge.id, frame, request: callerView };
+        this.pendingTimeouts.push(timeout);
+      }
+    }
+
+    // A partitioned link loses the request; the sender sees it fail
+    if (this.faults.partitioned.includes(edge.id)) {
+      request.status = 'ERROR';
+      request.failureReason = 'PARTITIONED';
+      this.recordCompletion(request);
+      return;
+    }
+
+    const source = this.getNode(edge.sourceId);
+    const target = this.getNode(edge.targetId);
+    const transfer = source && target
+      ? this.network.transfer(edge, source, target, request, this.tick * this.tickMs, this.rng)
+      : { delayMs: 0, returnMs: 0, lost: false };
+    if (transfer.lost) {
+      request.status = 'ERROR';
+      request.failureReason = 'PACKET_LOSS';
+      this.recordCompletion(request);
+      return;
+    }
+
+    // A SYNC caller keeps a slot open until the callee answers: once its own
+    // work is done, or as soon as the chain of SYNC calls hands off asynchronously
+    if (edge.callMode === 'SYNC') {
+      const callerState = this.nodeStates.get(edge.sourceId);
+      if (callerState) {
+        callerState.inFlight++;
+        const slot: CallerSlot = { nodeId: edge.sourceId, held: true, returnMs: transfer.returnMs, hop: request.hops.length };
+        request.callers = [...(request.callers ?? []), slot];
+        if (timeout) timeout.slot = slot;
+      }
+    } else {
+      this.handOff(request);
+    }
+
+    request.latency += transfer.delayMs;
+    request.transitMs = transfer.delayMs;
+    // Links slower than a tick hold the request back until it would arrive
+    const transitTicks = Math.floor(transfer.delayMs / this.tickMs);
+    if (transitTicks > 0) {
+      this.inTransit.push({ dueTick: this.tick + transitTicks, nodeId: edge.targetId, request });
+      return;
+    }
+    this.enqueue(edge.targetId, request);
+  }
+
+  private enqueue(nodeId: string, request: SimRequest) {
+    const targetIncoming = this.inbox.get(nodeId) || [];
+    targetIncoming.push(request);
+    this.inbox.set(nodeId, targetIncoming);
+  }
+
+  private deliverArrivals() {
+    if (this.inTransit.length === 0) return;
+    const due = this.inTransit.filter((t) => t.dueTick <= this.tick);
+    this.inTransit = this.inTransit.filter((t) => t.dueTick > this.tick);
+    for (const { nodeId, request } of due) this.enqueue(nodeId, request);
+  }
+
+  // Pending work at a node: its queue plus anything delivered but not yet picked up
+  private queueDepth = (nodeId: string): number => {
+    return (this.nodeStates.get(nodeId)?.queue.length ?? 0) + (this.inbox.get(nodeId)?.length ?? 0);
+  };
+
+  // The answer travels back up the call chain, freeing each caller's slot.
+  // The first `keep` callers go on waiting (a retry is on its way to them).
+  private releaseCallers(req: SimRequest, keep: number = 0) {
+    for (const slot of (req.callers ?? []).slice(keep)) this.releaseSlot(slot);
+    req.callers = (req.callers ?? []).slice(0, keep);
+  }
+
+  // Like releaseCallers, for an answer that reaches the callers: each pays
+  // its link's trip back, charged to the hop of the node that answered
+  private answerCallers(req: SimRequest, keep: number = 0) {
+    for (const slot of (req.callers ?? []).slice(keep)) {
+      if (!slot.held) continue;
+      req.latency += slot.returnMs;
+      const hop = req.hops[slot.hop];
+      if (hop) hop.networkTime += slot.returnMs;
+    }
+    this.releaseCallers(req, keep);
+  }
+
+  private releaseSlot(slot: CallerSlot) {
+    if (!slot.held) return;
+    slot.held = false;
+    const callerState = this.nodeStates.get(slot.nodeId);
+    if (callerState) callerState.inFlight = Math.max(0, callerState.inFlight - 1);
+  }
+
+  // The request leaves its chain of SYNC calls for an asynchronous hop, which
+  // answers every open SYNC call along the chain. Calls already past their
+  // deadline are left for their timeout to fail.
+  private handOff(req: SimRequest) {
+    for (const frame of req.calls ?? []) {
+      if (frame.settled || frame.timedOut) continue;
+      const edge = this.graph.edges.find((e) => e.id === frame.edgeId);
+      if (edge?.callMode !== 'SYNC') continue;
+      if (edge.timeoutMs !== undefined && req.latency - frame.sentLatency > edge.timeoutMs) continue;
+      frame.settled = true;
+      if (!frame.rejected) this.breakers.record(edge, false, this.tick);
+    }
+    this.releaseCallers(req);
+  }
+
+  // Answers the request's open policy calls, innermost first: applies
+  // timeouts, feeds circuit breakers and schedules a retry where one is left.
+  // Returns true when the request is done with: it went back out as a retry,
+  // or it is an orphan whose caller already timed out.
+  private settleCalls(req: SimRequest): boolean {
+    while (req.calls && req.calls.length > 0) {
+      const frame = req.calls[req.calls.length - 1];
+      req.calls = req.calls.slice(0, -1);
+      if (frame.timedOut) {
+        this.releaseCallers(req);
+        return true;
+      }
+      if (frame.settled) continue;
+      const edge = this.graph.edges.find((e) => e.id === frame.edgeId);
+      if (!edge) continue;
+      this.answerCallers(req, frame.callerCount);
+
+      // Finished past the deadline, within the tick its timeout was due
+      if (edge.timeoutMs !== undefined && req.latency - frame.sentLatency > edge.timeoutMs) {
+        req.status = 'ERROR';
+        req.failureReason = 'TIMEOUT';
+        req.latency = frame.sentLatency + edge.timeoutMs;
+        this.metricsRecorder.recordTimeout();
+      }
+
+      if (this.answerCall(req, frame, edge)) return true;
+    }
+    return false;
+  }
+
+  // Gives the caller its answer to `frame`, feeding the circuit breaker.
+  // Returns true when the call failed and went back out as a retry.
+  private answerCall(req: SimRequest, frame: CallFrame, edge: EdgeData): boolean {
+    frame.settled = true;
+    const failed = req.status !== 'SUCCESS';
+    if (!frame.rejected) this.breakers.record(edge, failed, this.tick);
+    if (!failed || !edge.retry || frame.attempt >= edge.retry.maxRetries) return false;
+
+    const attempt = frame.attempt + 1;
+    const delay = backoffDelay(edge.retry, attempt, this.rng);
+    this.releaseCallers(req, frame.callerCount);
+    this.pendingRetries.push({
+      dueTick: this.tick + msToTicks(delay, this.tickMs),
+      edgeId: edge.id,
+      attempt,
+      // The caller re-sends the request as it was when the call went out
+      request: {
+        ...req,
+        status: 'PENDING',
+        failureReason: undefined,
+        latency: req.latency + delay,
+        hops: req.hops.slice(0, frame.hopCount),
+      },
+    });
+    return true;
+  }
+
+  // Calls still open at their deadline fail for the caller, who frees its slot
+  // and may retry. The original runs on downstream, using capacity nobody
+  // waits for, and is dropped when it finishes.
+  private expireCalls() {
+    if (this.pendingTimeouts.length === 0) return;
+    const due = this.pendingTimeouts.filter((t) => t.dueTick <= this.tick);
+    this.pendingTimeouts = this.pendingTimeouts.filter((t) => t.dueTick > this.tick);
+    for (const { edgeId, frame, request, slot } of due) {
+      const edge = this.graph.edges.find((e) => e.id === edgeId);
+      if (frame.settled || edge?.timeoutMs === undefined) continue;
+      frame.timedOut = true;
+      if (slot) this.releaseSlot(slot);
+      // Callers further up now wait on the failed call, not on the orphan
+      request.callers = request.callers?.map((s) => {
+        const moved = { ...s };
+        s.held = false;
+        return moved;
+      });
+      request.status = 'ERROR';
+      request.failureReason = 'TIMEOUT';
+      request.latency = frame.sentLatency + edge.timeoutMs;
+      this.metricsRecorder.recordTimeout();
+      if (!this.answerCall(request, frame, edge)) this.recordCompletion(request);
+    }
+  }
+
+  private sendDueRetries() {
+    if (this.pendingRetries.length === 0) return;
+    const due = this.pendingRetries.filter((r) => r.dueTick <= this.tick);
+    this.pendingRetries = this.pendingRetries.filter((r) => r.dueTick > this.tick);
+
+    for (const { edgeId, request, attempt } of due) {
+      const edge = this.graph.edges.find((e) => e.id === edgeId);
+      if (edge) {
+        this.send(edge, request, attempt);
+      } else {
+        // The edge was deleted while the retry waited
+        request.status = 'ERROR';
+        this.recordCompletion(request);
+      }
+    }
+  }
+
+  private recordCompletion(req: SimRequest) {
+    // A failed call with retries left goes back out instead of finishing
+    if (this.settleCalls(req)) return;
+    this.answerCallers(req);
+    this.fillCaches(req);
+    this.finish(req);
+  }
+
+  // Fan-out copies only count once every branch has finished. The joined
+  // request then answers the callers and calls that waited on the fork, and
+  // may itself be a branch of an outer fork.
+  private finish(req: SimRequest) {
+    const done = this.forks.complete(req);
+    if (!done) return;
+    if (done !== req) {
+      if (this.settleCalls(done)) return;
+      this.answerCallers(done);
+      this.finish(done);
+      return;
+    }
+    this.metricsRecorder.record(done);
+    this.recentRequests.push(done);
+    this.history.recordCompletion(done);
+    this.nodeStats.recordCompletion(done);
+    // Trim in batches so the buffer isn't shifted on every completion
+    if (this.recentRequests.length > TRACE_BUFFER_SIZE * 2) {
+      this.recentRequests = this.recentRequests.slice(-TRACE_BUFFER_SIZE);
+    }
+    this.rollingMetrics.addRequest(done);
+  }
+
+  // Caches this keyed read missed learn when its response comes back:
+  // arrival plus end-to-end latency, in simulated time
+  private fillCaches(req: SimRequest) {
+    if (req.key === undefined || req.operation === 'WRITE') return;
+    const answeredAtMs = req.arrivalTick * this.tickMs + req.latency;
+    // Hits end at the cache, so any cache before the last hop was a miss
+    for (const hop of req.hops.slice(0, -1)) {
+      const store = this.nodeStates.get(hop.nodeId)?.cache;
+      if (store && (this.getNode(hop.nodeId)?.config as CacheConfig).keyspaceModel) {
+        store.fetched(req.key, answeredAtMs, req.status === 'SUCCESS');
+      }
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Chaos
+  // -------------------------------------------------------------------------
+
+  /** Replaces the chaos scenario; the new events apply from the next tick. */
+  setChaosScenario(events: ChaosEvent[]) {
+    this.chaos = new ChaosTimeline(events);
+  }
+
+  /**
+   * Adds a fault to the scenario, by default starting on the next tick.
+   * Returns the event id.
+   */
+  scheduleFault(fault: FaultSpec): string {
+    const id = fault.id ?? `fault_${this.nextFaultId++}`;
+    this.chaos.schedule({ ...fault, id, atTick: fault.atTick ?? this.tick + 1 });
+    return id;
+  }
+
+  /** Lifts every fault aimed at `targetId`, or all faults when omitted. */
+  clearFaults(targetId?: string) {
+    this.chaos.clear(targetId);
+  }
+
+  getChaosScenario(): ChaosEvent[] {
+    return this.chaos.getEvents();
+  }
+
+  // -------------------------------------------------------------------------
+  // Headless Runs — as fast as the CPU allows, no timers
+  // -------------------------------------------------------------------------
+
+  /** Runs `ticks` more ticks and reports where the run ended up. */
+  runFor(ticks: number): RunReport {
+    const startTick = this.tick;
+    for (let i = 0; i < ticks; i++) this.advance();
+    return this.buildReport(startTick, null);
+  }
+
+  /**
+   * Runs until p95 latency and throughput stabilise within `tolerance`
+   * (relative spread over the last few seconds) or `maxTicks` pass.
+   */
+  runUntilSteady(tolerance: number = 0.05, options: SteadyStateOptions = {}): RunReport {
+    const windowSeconds = options.windowSeconds ?? 5;
+    const maxTicks = options.maxTicks ?? 3000;
+    const startTick = this.tick;
+
+    while (this.tick - startTick < maxTicks) {
+      const samplesBefore = this.history.sampleCount;
+      this.advance();
+      // Only re-check when a new one-second sample lands
+      if (this.history.sampleCount === samplesBefore) continue;
+      if (isSteady(this.history.recentGlobal(windowSeconds), tolerance, windowSeconds)) {
+        return this.buildReport(startTick, this.tick);
+      }
+    }
+    return this.buildReport(startTick, null);
+  }
+
+  private buildReport(startTick: number, steadyAtTick: number | null): RunReport {
+    const snapshot = this.getSnapshot();
+    return {
+      ticksRun: this.tick - startTick,
+      tick: this.tick,
+      seed: this.seed,
+      steady: steadyAtTick !== null,
+      steadyAtTick,
+      metrics: snapshot.metrics,
+      nodeMetrics: snapshot.nodeMetrics,
+      cost: snapshot.cost,
+    };
   }
 
   // -------------------------------------------------------------------------
   // Control Methods
   // -------------------------------------------------------------------------
 
-  start(onUpdate: (snapshot: SimulationSnapshot) => void, tickIntervalMs: number = 100) {
+  /**
+   * Runs live at `speed` × real time (1 = one simulated second per wall
+   * second), calling `onUpdate` once per frame.
+   */
+  start(onUpdate: (snapshot: SimulationSnapshot) => void, speed: number = this.speed) {
     if (this.isRunning) return;
-    
+
     this.isRunning = true;
     this.onUpdate = onUpdate;
-    
+    this.speed = Math.min(MAX_SPEED, Math.max(MIN_SPEED, speed));
+
+    // Below MIN_FRAME_MS per tick, batch ticks into frames instead
+    const frameMs = Math.max(MIN_FRAME_MS, this.tickMs / this.speed);
+    const ticksPerFrame = (frameMs * this.speed) / this.tickMs;
+    let owed = 0;
+
     this.intervalId = setInterval(() => {
-      const snapshot = this.step();
+      owed += ticksPerFrame;
+      while (owed >= 1) {
+        this.advance();
+        owed--;
+      }
       if (this.onUpdate) {
-        this.onUpdate(snapshot);
+        this.onUpdate(this.getSnapshot());
       }
-    }, tickIntervalMs);
+    }, frameMs);
+  }
+
+  /** Changes playback speed, picking up immediately if running. */
+  setSpeed(speed: number) {
+    this.speed = Math.min(MAX_SPEED, Math.max(MIN_SPEED, speed));
+    if (this.isRunning && this.onUpdate) {
+      const onUpdate = this.onUpdate;
+      this.stopTimer();
+      this.start(onUpdate, this.speed);
+    }
   }
 
   pause() {
+    this.stopTimer();
+  }
+
+  private stopTimer() {
     this.isRunning = false;
     if (this.intervalId) {
       clearInterval(this.intervalId);
@@ -165,12 +759,33 @@ export class SimulationEngine {
   reset() {
     this.pause();
     this.tick = 0;
-    this.allCompletedRequests = [];
+    this.rng = createRng(this.seed);
+    this.trafficRng = createRng(deriveSeed(this.seed, TRAFFIC_STREAM));
+    this.metricsRecorder.reset();
+    this.recentRequests = [];
+    this.history.reset();
+    this.nodeStats.reset();
+    this.costMeter.reset();
+    this.inbox.clear();
+    this.forks.reset();
+    this.faults = noFaults();
+    this.breakers.reset();
+    this.pendingRetries = [];
+    this.pendingTimeouts = [];
+    this.network.reset();
+    this.inTransit = [];
+    this.downSince.clear();
     this.rollingMetrics.reset();
     this.initializeNodeStates();
   }
 
   updateGraph(graph: GraphState) {
+    for (const edge of this.graph.edges) {
+      if (!graph.edges.some((e) => e.id === edge.id)) {
+        this.breakers.remove(edge.id);
+        this.network.remove(edge.id);
+      }
+    }
     this.graph = graph;
     // Keep existing states for nodes that still exist
     const newStates = new Map<string, NodeState>();
@@ -178,6 +793,36 @@ export class SimulationEngine {
       const existing = this.nodeStates.get(node.id);
       newStates.set(node.id, existing || createInitialNodeState());
     }
+
+    // Requests stranded on removed nodes fail as if the node went down, so
+    // their callers hear back and any fan-out they belong to still joins
+    const stranded: SimRequest[] = [];
+    for (const [nodeId, state] of this.nodeStates) {
+      if (!newStates.has(nodeId)) stranded.push(...state.queue);
+    }
+    for (const [nodeId, requests] of this.inbox) {
+      if (!newStates.has(nodeId)) {
+        stranded.push(...requests);
+        this.inbox.delete(nodeId);
+      }
+    }
+    this.inTransit = this.inTransit.filter((t) => {
+      if (newStates.has(t.nodeId)) return true;
+      stranded.push(t.request);
+      return false;
+    });
+    for (const req of stranded) {
+      req.status = 'ERROR';
+      req.failureReason = 'NODE_DOWN';
+      this.recordCompletion(req);
+    }
+
+    for (const nodeId of this.nodeStates.keys()) {
+      if (!newStates.has(nodeId)) {
+        this.nodeStats.remove(nodeId);
+        this.costMeter.remove(nodeId);
+      }
+    }
     this.nodeStates = newStates;
   }
 
@@ -186,24 +831,61 @@ export class SimulationEngine {
   // -------------------------------------------------------------------------
 
   getSnapshot(): SimulationSnapshot {
-    const nodeMetrics = new Map<string, { utilization: number; throughput: number; queueDepth: number }>();
+    const nodeMetrics = new Map<string, NodeMetricsSnapshot>();
     
     for (const [nodeId, state] of this.nodeStates) {
+      const node = this.getNode(nodeId);
       nodeMetrics.set(nodeId, {
         utilization: state.utilization,
         throughput: state.throughput,
         queueDepth: state.queue.length,
+        inFlight: state.inFlight,
+        errorCount: state.errorCount,
+        replicas: node ? replicaCount(node, state) : 1,
+        provisioningReplicas: state.provisioning?.length ?? 0,
+        cache: (node?.config as CacheConfig | undefined)?.keyspaceModel ? state.cache?.getStats() : undefined,
+        consumerLag: state.consumerLag,
+        database: node?.type === 'SQL_DATABASE' || node?.type === 'NOSQL_DATABASE' ? databaseMetrics(state) : undefined,
+        monthlyCost: node ? this.costMeter.monthlyCost(node, this.tickMs) : 0,
+        run: this.nodeStats.getMetrics(nodeId),
       });
     }
 
+    const metrics = this.metricsRecorder.getMetrics(this.tick, this.tickMs);
     return {
       tick: this.tick,
+      tickMs: this.tickMs,
+      seed: this.seed,
       nodeStates: new Map(this.nodeStates),
-      metrics: calculateMetrics(this.allCompletedRequests, this.tick),
+      metrics,
       nodeMetrics,
+      cost: this.costMeter.estimate(this.graph.nodes, this.tickMs, metrics.completedRequests),
+      faults: this.faults,
+      openBreakers: this.breakers.openEdges(),
     };
   }
 
+  // -------------------------------------------------------------------------
+  // Tracing
+  // -------------------------------------------------------------------------
+
+  /**
+   * Recently completed requests around the given latency percentile, with
+   * their hops. Only the last TRACE_BUFFER_SIZE requests are kept.
+   */
+  getOutlierTraces(percentile: number, limit: number = 10): SimRequest[] {
+    return selectOutliers(this.recentRequests, percentile, limit);
+  }
+
+  // -------------------------------------------------------------------------
+  // History
+  // -------------------------------------------------------------------------
+
+  /** Per-second samples for the run so far, globally and per node. */
+  getHistory(): MetricsHistorySeries {
+    return this.history.getSeries();
+  }
+
   get running(): boolean {
     return this.isRunning;
   }
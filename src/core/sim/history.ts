@@ -0,0 +1,240 @@
+// =============================================================================
+// Atlas Learn - Metrics History
+// =============================================================================
+// Bounded time series of windowed metrics, globally and per node, so charts
+// can show how a run evolved instead of only its cumulative totals.
+// =============================================================================
+
+import { SimRequest, NodeState } from './models';
+import { LatencySketch } from './sketch';
+import { DEFAULT_TICK_MS, msToTicks, ticksToSeconds } from './clock';
+
+// -----------------------------------------------------------------------------
+// Ring Buffer
+// -----------------------------------------------------------------------------
+
+export class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private start: number = 0;
+  private size: number = 0;
+
+  constructor(private capacity: number) {
+    this.items = new Array(capacity);
+  }
+
+  push(item: T) {
+    const index = (this.start + this.size) % this.capacity;
+    this.items[index] = item;
+    if (this.size < this.capacity) {
+      this.size++;
+    } else {
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  /** Items oldest first. */
+  toArray(): T[] {
+    const out: T[] = [];
+    for (let i = 0; i < this.size; i++) {
+      out.push(this.items[(this.start + i) % this.capacity] as T);
+    }
+    return out;
+  }
+
+  get length(): number {
+    return this.size;
+  }
+
+  clear() {
+    this.items = new Array(this.capacity);
+    this.start = 0;
+    this.size = 0;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Samples
+// -----------------------------------------------------------------------------
+
+export interface HistorySample {
+  tick: number;           // last tick of the window
+  throughput: number;     // requests/sec finished in the window
+  p95Latency: number;     // ms; per node this is time spent at the node
+  errorRate: number;      // 0-1
+  dropRate: number;       // 0-1
+  queueDepth: number;     // average over the window
+  utilization: number;    // 0-1, average over the window
+  replicas: number;       // average over the window; globally, summed over autoscaled nodes
+}
+
+export interface MetricsHistorySeries {
+  global: HistorySample[];
+  nodes: Map<string, HistorySample[]>;
+}
+
+// Everything observed for one series during the current window
+class WindowAccumulator {
+  latencies = new LatencySketch();
+  finished = 0;
+  errors = 0;
+  drops = 0;
+  queueDepthSum = 0;
+  utilizationSum = 0;
+  replicasSum = 0;
+
+  toSample(tick: number, windowTicks: number, tickMs: number): HistorySample {
+    const seconds = ticksToSeconds(windowTicks, tickMs);
+    return {
+      tick,
+      throughput: seconds > 0 ? (this.finished - this.errors - this.drops) / seconds : 0,
+      p95Latency: this.latencies.quantile(95),
+      errorRate: this.finished > 0 ? this.errors / this.finished : 0,
+      dropRate: this.finished > 0 ? this.drops / this.finished : 0,
+      queueDepth: this.queueDepthSum / windowTicks,
+      utilization: this.utilizationSum / windowTicks,
+      replicas: this.replicasSum / windowTicks,
+    };
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Metrics History
+// -----------------------------------------------------------------------------
+
+/**
+ * Collects one sample per simulated second (rounded to whole ticks) and
+ * keeps the most recent `capacity` samples per series.
+ */
+export class MetricsHistory {
+  private global: RingBuffer<HistorySample>;
+  private nodes: Map<string, RingBuffer<HistorySample>> = new Map();
+  private globalWindow = new WindowAccumulator();
+  private nodeWindows: Map<string, WindowAccumulator> = new Map();
+  private ticksInWindow: number = 0;
+  private samplesTaken: number = 0;
+  private windowTicks: number;
+
+  constructor(
+    private tickMs: number = DEFAULT_TICK_MS,
+    private capacity: number = 600,
+  ) {
+    this.windowTicks = msToTicks(1000, tickMs);
+    this.global = new RingBuffer(capacity);
+  }
+
+  private nodeWindow(nodeId: string): WindowAccumulator {
+    let window = this.nodeWindows.get(nodeId);
+    if (!window) {
+      window = new WindowAccumulator();
+      this.nodeWindows.set(nodeId, window);
+    }
+    return window;
+  }
+
+  /**
+   * Counts a finished request. Per node, each hop counts as work done there,
+   * and a failure is charged to the node the request failed at (its last hop).
+   */
+  recordCompletion(req: SimRequest) {
+    this.globalWindow.finished++;
+    if (req.status === 'SUCCESS') this.globalWindow.latencies.add(req.latency);
+    if (req.status === 'ERROR') this.globalWindow.errors++;
+    if (req.status === 'DROPPED') this.globalWindow.drops++;
+
+    req.hops.forEach((hop, i) => {
+      const window = this.nodeWindow(hop.nodeId);
+      window.finished++;
+      window.latencies.add(hop.queueTime + hop.serviceTime);
+      if (i === req.hops.length - 1) {
+        if (req.status === 'ERROR') window.errors++;
+        if (req.status === 'DROPPED') window.drops++;
+      }
+    });
+  }
+
+  /** Call once per tick after every node has run. */
+  recordTick(tick: number, nodeStates: Map<string, NodeState>) {
+    let busiest = 0;
+    for (const [nodeId, state] of nodeStates) {
+      const window = this.nodeWindow(nodeId);
+      window.queueDepthSum += state.queue.length;
+      window.utilizationSum += state.utilization;
+      window.replicasSum += state.replicas ?? 1;
+      this.globalWindow.queueDepthSum += state.queue.length;
+      this.globalWindow.replicasSum += state.replicas ?? 0;
+      busiest = Math.max(busiest, state.utilization);
+    }
+    // Globally, utilization follows the busiest node (the bottleneck)
+    this.globalWindow.utilizationSum += busiest;
+
+    this.ticksInWindow++;
+    if (this.ticksInWindow < this.windowTicks) return;
+
+    this.global.push(this.globalWindow.toSample(tick, this.ticksInWindow, this.tickMs));
+    this.samplesTaken++;
+    for (const nodeId of nodeStates.keys()) {
+      let series = this.nodes.get(nodeId);
+      if (!series) {
+        series = new RingBuffer(this.capacity);
+        this.nodes.set(nodeId, series);
+      }
+      series.push(this.nodeWindow(nodeId).toSample(tick, this.ticksInWindow, this.tickMs));
+    }
+
+    this.globalWindow = new WindowAccumulator();
+    this.nodeWindows.clear();
+    this.ticksInWindow = 0;
+  }
+
+  /** Samples taken since the last reset, including ones the buffer dropped. */
+  get sampleCount(): number {
+    return this.samplesTaken;
+  }
+
+  /** The newest `count` global samples, oldest first. */
+  recentGlobal(count: number): HistorySample[] {
+    const samples = this.global.toArray();
+    return samples.slice(Math.max(0, samples.length - count));
+  }
+
+  getSeries(): MetricsHistorySeries {
+    const nodes = new Map<string, HistorySample[]>();
+    for (const [nodeId, series] of this.nodes) {
+      nodes.set(nodeId, series.toArray());
+    }
+    return { global: this.global.toArray(), nodes };
+  }
+
+  reset() {
+    this.global.clear();
+    this.nodes.clear();
+    this.globalWindow = new WindowAccumulator();
+    this.nodeWindows.clear();
+    this.ticksInWindow = 0;
+    this.samplesTaken = 0;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Steady State
+// -----------------------------------------------------------------------------
+
+// Spread of a series relative to its mean; an all-zero series counts as flat
+function relativeSpread(values: number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  if (mean === 0) return Math.max(...values) === 0 ? 0 : Infinity;
+  return (Math.max(...values) - Math.min(...values)) / mean;
+}
+
+/**
+ * True once the last `window` samples hold p95 latency and throughput within
+ * `tolerance` (e.g. 0.05 = max and min within 5% of their mean).
+ */
+export function isSteady(samples: HistorySample[], tolerance: number, window: number): boolean {
+  if (samples.length < window) return false;
+  const recent = samples.slice(-window);
+  return (
+    relativeSpread(recent.map((s) => s.p95Latency)) <= tolerance &&
+    relativeSpread(recent.map((s) => s.throughput)) <= tolerance
+  );
+}
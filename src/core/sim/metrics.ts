@@ -2,7 +2,10 @@
 // Atlas Learn - Metrics Calculator
 // =============================================================================
 
+import { RequestOperation } from '@/core/types';
 import { SimRequest } from './models';
+import { LatencySketch, LatencyBucket } from './sketch';
+import { DEFAULT_TICK_MS, ticksToSeconds } from './clock';
 
 // -----------------------------------------------------------------------------
 // Latency Percentile Calculator
@@ -20,56 +23,147 @@ export function calculatePercentile(latencies: number[], percentile: number): nu
 // Global Metrics
 // -----------------------------------------------------------------------------
 
+/** Latency of the successful requests of one operation type. */
+export interface OperationLatency {
+  completed: number;
+  p50Latency: number;
+  p95Latency: number;
+  p99Latency: number;
+}
+
 export interface Metrics {
   throughput: number;      // requests/sec completed
   errorRate: number;       // 0-1
   p50Latency: number;      // ms
+  p90Latency: number;      // ms
   p95Latency: number;      // ms
+  p99Latency: number;      // ms
+  p999Latency: number;     // ms
+  maxLatency: number;      // ms
+  latencyHistogram: LatencyBucket[];
   dropRate: number;        // 0-1
   totalRequests: number;
   completedRequests: number;
   erroredRequests: number;
   droppedRequests: number;
+  throttledRequests: number; // refused by a rate limit; not counted as drops
+  throttleRate: number;      // 0-1
+  // Calls over edges with a timeout/retry/breaker policy
+  retries: number;             // re-sent calls
+  retryAmplification: number;  // calls sent per original call (1 = no retries)
+  timedOutCalls: number;
+  byOperation: Record<RequestOperation, OperationLatency>;
 }
 
-export function calculateMetrics(
-  completedRequests: SimRequest[],
-  tickCount: number
-): Metrics {
-  if (completedRequests.length === 0) {
-    return {
-      throughput: 0,
-      errorRate: 0,
-      p50Latency: 0,
-      p95Latency: 0,
-      dropRate: 0,
-      totalRequests: 0,
-      completedRequests: 0,
-      erroredRequests: 0,
-      droppedRequests: 0,
-    };
+// Bins shown in the latency histogram
+const HISTOGRAM_BUCKETS = 20;
+
+function operationLatency(sketch: LatencySketch): OperationLatency {
+  return {
+    completed: sketch.count,
+    p50Latency: sketch.quantile(50),
+    p95Latency: sketch.quantile(95),
+    p99Latency: sketch.quantile(99),
+  };
+}
+
+/**
+ * Accumulates completed requests into counters and a latency sketch, so a
+ * snapshot costs the same after a million requests as after ten.
+ */
+export class MetricsRecorder {
+  private sketch: LatencySketch = new LatencySketch();
+  private operationSketches: Record<RequestOperation, LatencySketch> = {
+    READ: new LatencySketch(),
+    WRITE: new LatencySketch(),
+  };
+  private total: number = 0;
+  private successful: number = 0;
+  private errored: number = 0;
+  private dropped: number = 0;
+  private throttled: number = 0;
+  private callsSent: number = 0;
+  private retries: number = 0;
+  private timedOut: number = 0;
+
+  record(request: SimRequest) {
+    if (request.status === 'SUCCESS') {
+      this.successful++;
+      this.sketch.add(request.latency);
+      this.operationSketches[request.operation].add(request.latency);
+    } else if (request.status === 'ERROR') {
+      this.errored++;
+    } else if (request.failureReason === 'THROTTLED') {
+      this.throttled++;
+    } else if (request.status === 'DROPPED') {
+      this.dropped++;
+    }
+    this.total++;
   }
 
-  const successful = completedRequests.filter((r) => r.status === 'SUCCESS');
-  const errored = completedRequests.filter((r) => r.status === 'ERROR');
-  const dropped = completedRequests.filter((r) => r.status === 'DROPPED');
+  /** Counts one call over a policy edge; `attempt` > 0 is a retry. */
+  recordCall(attempt: number) {
+    this.callsSent++;
+    if (attempt > 0) this.retries++;
+  }
 
-  const latencies = successful.map((r) => r.latency);
+  recordTimeout() {
+    this.timedOut++;
+  }
 
-  // Convert ticks to seconds (1 tick = 100ms)
-  const seconds = tickCount / 10;
+  getMetrics(tickCount: number, tickMs: number = DEFAULT_TICK_MS): Metrics {
+    const seconds = ticksToSeconds(tickCount, tickMs);
 
-  return {
-    throughput: seconds > 0 ? successful.length / seconds : 0,
-    errorRate: completedRequests.length > 0 ? errored.length / completedRequests.length : 0,
-    p50Latency: calculatePercentile(latencies, 50),
-    p95Latency: calculatePercentile(latencies, 95),
-    dropRate: completedRequests.length > 0 ? dropped.length / completedRequests.length : 0,
-    totalRequests: completedRequests.length,
-    completedRequests: successful.length,
-    erroredRequests: errored.length,
-    droppedRequests: dropped.length,
-  };
+    return {
+      throughput: seconds > 0 ? this.successful / seconds : 0,
+      errorRate: this.total > 0 ? this.errored / this.total : 0,
+      p50Latency: this.sketch.quantile(50),
+      p90Latency: this.sketch.quantile(90),
+      p95Latency: this.sketch.quantile(95),
+      p99Latency: this.sketch.quantile(99),
+      p999Latency: this.sketch.quantile(99.9),
+      maxLatency: this.sketch.maxValue,
+      latencyHistogram: this.sketch.histogram(HISTOGRAM_BUCKETS),
+      dropRate: this.total > 0 ? this.dropped / this.total : 0,
+      totalRequests: this.total,
+      completedRequests: this.successful,
+      erroredRequests: this.errored,
+      droppedRequests: this.dropped,
+      throttledRequests: this.throttled,
+      throttleRate: this.total > 0 ? this.throttled / this.total : 0,
+      retries: this.retries,
+      retryAmplification: this.callsSent > this.retries ? this.callsSent / (this.callsSent - this.retries) : 1,
+      timedOutCalls: this.timedOut,
+      byOperation: {
+        READ: operationLatency(this.operationSketches.READ),
+        WRITE: operationLatency(this.operationSketches.WRITE),
+      },
+    };
+  }
+
+  reset() {
+    this.sketch.reset();
+    this.operationSketches.READ.reset();
+    this.operationSketches.WRITE.reset();
+    this.total = 0;
+    this.successful = 0;
+    this.errored = 0;
+    this.dropped = 0;
+    this.throttled = 0;
+    this.callsSent = 0;
+    this.retries = 0;
+    this.timedOut = 0;
+  }
+}
+
+export function calculateMetrics(
+  completedRequests: SimRequest[],
+  tickCount: number,
+  tickMs: number = DEFAULT_TICK_MS
+): Metrics {
+  const recorder = new MetricsRecorder();
+  completedRequests.forEach((r) => recorder.record(r));
+  return recorder.getMetrics(tickCount, tickMs);
 }
 
 // -----------------------------------------------------------------------------
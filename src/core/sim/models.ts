@@ -28,17 +28,67 @@ import {
   BatchProcessorConfig,
   AnalyticsSinkConfig,
   CustomLogicConfig,
+  ServiceTimeConfig,
+  RequestOperation,
 } from '@/core/types';
+import { Rng } from './random';
+import { sampleArrivals } from './traffic';
+import { ratePerTick, msToTicks } from './clock';
+import { sampleServiceTime } from './distributions';
+import { CacheStore, sampleKey } from './cache';
+import { RateLimiter } from './rateLimit';
 
 // -----------------------------------------------------------------------------
 // Request Interface
 // -----------------------------------------------------------------------------
 
+/** One node visit on a request's journey through the graph. */
+export interface RequestHop {
+  nodeId: string;
+  enqueueTick: number;
+  dequeueTick: number | null; // null while the request is still queued
+  networkTime: number; // ms on the link getting here, and back once a SYNC call is answered
+  queueTime: number; // ms of queueing delay charged at this node
+  serviceTime: number; // ms of processing at this node
+}
+
+/** Why a request failed, when something other than the node's own errorRate caused it. */
+export type FailureReason = 'NODE_DOWN' | 'PARTITIONED' | 'INJECTED' | 'TIMEOUT' | 'CIRCUIT_OPEN' | 'CONNECTION_LIMIT' | 'THROTTLED' | 'PACKET_LOSS';
+
+/** An open call over an edge with a timeout, retry or circuit breaker policy. */
+export interface CallFrame {
+  edgeId: string;
+  attempt: number; // 0 for the first try
+  sentLatency: number; // request latency when the call was made
+  hopCount: number; // hops recorded before the call, restored on retry
+  callerCount: number; // SYNC callers held before the call, kept on retry
+  rejected?: boolean; // fast-failed by an open circuit breaker
+  settled?: boolean; // the caller has its answer: returned, handed off or timed out
+  timedOut?: boolean; // the caller gave up at the deadline; the request runs on orphaned
+}
+
+/** A concurrency slot a SYNC caller holds open for one request. */
+export interface CallerSlot {
+  nodeId: string;
+  held: boolean; // false once freed, so no path frees it twice
+  returnMs: number; // the answer's trip back over the link
+  hop: number; // index of the callee's hop, which the trip back is charged to
+}
+
 export interface SimRequest {
   id: string;
+  originId: string; // CLIENT node that generated the request
+  forkOf?: string; // fan-out this request is a branch of, until the branches join
+  callers?: CallerSlot[]; // SYNC callers holding a slot open for this request
+  calls?: CallFrame[]; // policy-bearing calls still awaiting a response, outermost first
   arrivalTick: number;
   latency: number;
   status: 'PENDING' | 'SUCCESS' | 'ERROR' | 'DROPPED';
+  failureReason?: FailureReason;
+  operation: RequestOperation;
+  key?: number; // key read or written, when the client models a keyspace
+  transitMs?: number; // network delay of the edge it is crossing, charged to the next hop
+  hops: RequestHop[];
 }
 
 // -----------------------------------------------------------------------------
@@ -52,9 +102,51 @@ export interface NodeState {
   utilization: number;
   throughput: number;
   errorCount: number;
-  roundRobinIdx?: number;
+  inFlight: number; // SYNC calls this node is waiting on downstream
+  concurrencyLimit?: number; // slots for inFlight + new work (default: unlimited)
+  roundRobinCredit?: Record<string, number>; // SHARE edge id → smooth weighted round-robin credit
+  errorRoundRobinCredit?: Record<string, number>; // same, for ON_ERROR edges
+  arrivalCarry?: number; // fractional client arrivals carried to the next tick
+  capacityCarry?: number; // fractional service capacity carried to the next tick
+  // Autoscaling (nodes with a policy only)
+  replicas?: number; // replicas serving traffic
+  provisioning?: number[]; // ticks at which requested replicas come online
+  lastScaleTick?: number;
+  smoothedUtilization?: number;
+  cache?: CacheStore; // entries held by a cache using the keyspace model
+  // SQL / NoSQL databases
+  readReplicas?: number;
+  readCapacityCarry?: number; // fractional replica capacity carried to the next tick
+  replicationBacklog?: number; // committed writes the replicas have yet to apply
+  replicationLagMs?: number;
+  lastWrites?: Map<number, number>; // key → ms its latest write committed, within the lag window
+  staleReads?: number;
+  rejectedConnections?: number;
+  // Pull-based consumption
+  intake?: number; // requests the node can start per tick, for upstream queues to pull against
+  consumerLag?: ConsumerLag; // QUEUE, STREAM_PROCESSOR, BATCH_PROCESSOR, ANALYTICS_SINK
+  lastFlushTick?: number; // ANALYTICS_SINK
+  rateLimiter?: RateLimiter; // RATE_LIMITER
 }
 
+/** How far consumers trail what has been produced to a queue, stream or buffer. */
+export interface ConsumerLag {
+  messages: number; // waiting to be consumed
+  ms: number; // age of the oldest waiting message
+  partitions?: number[]; // STREAM_PROCESSOR: messages waiting per partition
+}
+
+/** Everything a node needs to know about the tick it is processing. */
+export interface SimContext {
+  tick: number;
+  tickMs: number; // simulated duration of one tick
+  rng: Rng;
+  pullCapacity?: number; // QUEUE: messages its consumers can take this tick
+}
+
+// QUEUE nodes push to consumers that don't report their intake at up to this rate
+const QUEUE_DRAIN_RPS = 1000;
+
 // -----------------------------------------------------------------------------
 // Helpers
 // -----------------------------------------------------------------------------
@@ -67,29 +159,72 @@ export function createInitialNodeState(): NodeState {
     utilization: 0,
     throughput: 0,
     errorCount: 0,
-    roundRobinIdx: 0,
+    inFlight: 0,
+    roundRobinCredit: {},
   };
 }
 
+/** Starts the request's visit to `nodeId`, charging it the link just crossed. */
+export function openHop(req: SimRequest, nodeId: string, tick: number) {
+  req.hops.push({ nodeId, enqueueTick: tick, dequeueTick: null, networkTime: req.transitMs ?? 0, queueTime: 0, serviceTime: 0 });
+  req.transitMs = undefined;
+}
+
+// Close the request's current hop once it leaves a node's queue
+function recordHop(req: SimRequest, tick: number, serviceTime: number, queueTime: number = 0) {
+  const hop = req.hops[req.hops.length - 1];
+  if (!hop) return;
+  hop.dequeueTick = tick;
+  hop.serviceTime = serviceTime;
+  hop.queueTime = queueTime;
+}
+
+// Age in ms of the oldest waiting request, by when it reached this node
+function oldestAgeMs(waiting: SimRequest[], tick: number, tickMs: number): number {
+  let oldest = tick;
+  for (const req of waiting) {
+    oldest = Math.min(oldest, req.hops[req.hops.length - 1]?.enqueueTick ?? tick);
+  }
+  return (tick - oldest) * tickMs;
+}
+
+function consumerLag(waiting: SimRequest[], tick: number, tickMs: number): ConsumerLag {
+  return { messages: waiting.length, ms: oldestAgeMs(waiting, tick, tickMs) };
+}
+
 // Generate requests from client node
-function generateClientRequests(config: ClientConfig, tick: number): SimRequest[] {
+function generateClientRequests(
+  nodeId: string,
+  config: ClientConfig,
+  state: NodeState,
+  ctx: SimContext,
+): SimRequest[] {
+  const { tick, tickMs, rng } = ctx;
   const requests: SimRequest[] = [];
-  const rps = config.rps * config.burstMultiplier;
-  // 1 tick = 100ms → divide rps by 10 to get per-tick count
-  const requestsThisTick = Math.floor(rps / 10);
+  // The profile is evaluated at the start of this tick
+  const { count, carry } = sampleArrivals(config, (tick - 1) * tickMs, tickMs, state.arrivalCarry ?? 0, rng);
+  state.arrivalCarry = carry;
+  state.throughput = count;
+  const writeRatio = config.writeRatio ?? 0;
 
-  for (let i = 0; i < requestsThisTick; i++) {
+  for (let i = 0; i < count; i++) {
     requests.push({
-      id: `req_${tick}_${i}`,
+      id: `req_${nodeId}_${tick}_${i}`,
+      originId: nodeId,
       arrivalTick: tick,
       latency: 0,
       status: 'PENDING',
+      operation: writeRatio > 0 && rng() < writeRatio ? 'WRITE' : 'READ',
+      key: sampleKey(config, rng),
+      hops: [],
     });
   }
   return requests;
 }
 
-// Process queue with capacity, latency, and error rate
+// Process queue with capacity, latency, and error rate. Each request's service
+// time is drawn from the node's distribution around baseLatency, or around
+// writeLatency for writes to nodes that set one.
 function processNodeQueue(
   state: NodeState,
   queue: SimRequest[],
@@ -97,24 +232,37 @@ function processNodeQueue(
   baseLatency: number,
   errorRate: number,
   outgoing: SimRequest[],
+  ctx: SimContext,
+  timing: ServiceTimeConfig & { writeLatency?: number },
 ): { state: NodeState; outgoing: SimRequest[] } {
+  const { tick, rng } = ctx;
   const newState = { ...state };
-  // capacity is per-second; divide by 10 for per-tick
-  const perTick = Math.max(1, Math.floor(capacity / 10));
-  const toProcess = Math.min(queue.length, perTick);
+  // capacity is per-second; unused fractions of a request carry to the next tick
+  const tickCapacity = ratePerTick(capacity, ctx.tickMs);
+  const budget = tickCapacity + (state.capacityCarry ?? 0);
+  const perTick = Math.floor(budget);
+  // Every open SYNC call ties up a slot, so a slow callee stalls this node.
+  // Slots are a count, not a rate, so only an explicit limit caps them.
+  const freeSlots = Math.max(0, (state.concurrencyLimit ?? Infinity) - state.inFlight);
+  const toProcess = Math.min(queue.length, perTick, freeSlots);
+  newState.capacityCarry = budget - perTick;
   const processed = queue.splice(0, toProcess);
   const remaining = queue;
 
   for (const req of processed) {
-    req.latency += baseLatency;
+    const meanLatency = req.operation === 'WRITE' ? (timing.writeLatency ?? baseLatency) : baseLatency;
+    const serviceTime = sampleServiceTime(timing, meanLatency, rng);
+    req.latency += serviceTime;
 
     // Add queueing delay proportional to queue depth
+    let queueDelay = 0;
     if (capacity > 0) {
-      const queueDelay = (remaining.length / perTick) * baseLatency * 0.5;
+      queueDelay = (remaining.length / perTick) * baseLatency * 0.5;
       req.latency += queueDelay;
     }
+    recordHop(req, tick, serviceTime, queueDelay);
 
-    if (Math.random() < errorRate) {
+    if (rng() < errorRate) {
       req.status = 'ERROR';
       newState.errorCount++;
       newState.completed.push(req);
@@ -125,17 +273,215 @@ function processNodeQueue(
   }
 
   newState.queue = remaining;
+  newState.intake = tickCapacity;
   newState.utilization =
     remaining.length > 0
-      ? Math.min(1, (remaining.length + toProcess) / perTick)
-      : perTick > 0
-        ? toProcess / perTick
+      ? Math.min(1, (remaining.length + toProcess) / tickCapacity)
+      : tickCapacity > 0
+        ? Math.min(1, toProcess / tickCapacity)
         : 0;
   newState.throughput = toProcess;
 
   return { state: newState, outgoing };
 }
 
+// Replicated databases: primary + read replicas behind one node
+const DEFAULT_REPLICATION_LAG_MS = 100;
+
+// Every queued request holds a connection. Writes wait on the primary, reads on
+// the replicas (or the primary when there are none); arrivals beyond the
+// members' maxConnections are refused.
+function admitConnections(state: NodeState, maxConnections: number, replicas: number, tick: number) {
+  const writeLimit = replicas > 0 ? maxConnections : Infinity;
+  const readLimit = replicas > 0 ? maxConnections * replicas : Infinity;
+  const sharedLimit = replicas > 0 ? Infinity : maxConnections;
+  let writes = 0;
+  let reads = 0;
+  const admitted: SimRequest[] = [];
+  for (const req of state.queue) {
+    const isWrite = req.operation === 'WRITE';
+    if ((isWrite ? writes : reads) < (isWrite ? writeLimit : readLimit) && writes + reads < sharedLimit) {
+      if (isWrite) writes++;
+      else reads++;
+      admitted.push(req);
+    } else {
+      recordHop(req, tick, 0);
+      req.status = 'ERROR';
+      req.failureReason = 'CONNECTION_LIMIT';
+      state.errorCount++;
+      state.rejectedConnections = (state.rejectedConnections ?? 0) + 1;
+      state.completed.push(req);
+    }
+  }
+  state.queue = admitted;
+}
+
+// Writes are served by the primary at `primaryCapacity`; reads are spread over
+// the replicas, each of which first spends its capacity applying the writes
+// the primary committed. A backlog of unapplied writes is replication lag, and
+// a keyed read of a key written within the lag window is a stale read.
+function processDatabase(
+  state: NodeState,
+  config: SqlDatabaseConfig | NosqlDatabaseConfig,
+  primaryCapacity: number,
+  replicas: number,
+  outgoing: SimRequest[],
+  ctx: SimContext,
+): { state: NodeState; outgoing: SimRequest[] } {
+  const { tick, tickMs, rng } = ctx;
+  const newState = { ...state, readReplicas: replicas };
+  admitConnections(newState, config.maxConnections, replicas, tick);
+  if (replicas === 0) {
+    return processNodeQueue(newState, newState.queue, primaryCapacity, config.baseLatency, 0, outgoing, ctx, config);
+  }
+
+  const replicaTick = ratePerTick(config.capacity, tickMs);
+  const applied = Math.min(state.replicationBacklog ?? 0, replicaTick);
+  const writeTick = ratePerTick(primaryCapacity, tickMs);
+  const readTick = replicas * (replicaTick - applied);
+  const writeBudget = writeTick + (state.capacityCarry ?? 0);
+  const readBudget = readTick + (state.readCapacityCarry ?? 0);
+  const writePerTick = Math.floor(writeBudget);
+  const readPerTick = Math.floor(readBudget);
+  newState.capacityCarry = writeBudget - writePerTick;
+  newState.readCapacityCarry = readBudget - readPerTick;
+
+  // Each lane takes requests in arrival order up to its own budget
+  const served: SimRequest[] = [];
+  const remaining: SimRequest[] = [];
+  let servedWrites = 0;
+  let servedReads = 0;
+  for (const req of newState.queue) {
+    if (req.operation === 'WRITE' && servedWrites < writePerTick) {
+      servedWrites++;
+      served.push(req);
+    } else if (req.operation !== 'WRITE' && servedReads < readPerTick) {
+      servedReads++;
+      served.push(req);
+    } else {
+      remaining.push(req);
+    }
+  }
+  const waitingWrites = remaining.filter((r) => r.operation === 'WRITE').length;
+  const waitingReads = remaining.length - waitingWrites;
+
+  const lagMs = state.replicationLagMs ?? config.replicationLagMs ?? DEFAULT_REPLICATION_LAG_MS;
+  const nowMs = tick * tickMs;
+  const lastWrites = newState.lastWrites ?? new Map<number, number>();
+
+  for (const req of served) {
+    const isWrite = req.operation === 'WRITE';
+    const meanLatency = isWrite ? (config.writeLatency ?? config.baseLatency) : config.baseLatency;
+    const serviceTime = sampleServiceTime(config, meanLatency, rng);
+    const laneWaiting = isWrite ? waitingWrites : waitingReads;
+    const lanePerTick = isWrite ? writePerTick : readPerTick;
+    const queueDelay = lanePerTick > 0 ? (laneWaiting / lanePerTick) * config.baseLatency * 0.5 : 0;
+    req.latency += serviceTime + queueDelay;
+    recordHop(req, tick, serviceTime, queueDelay);
+
+    if (isWrite) {
+      if (req.key !== undefined) lastWrites.set(req.key, nowMs);
+    } else if (req.key !== undefined) {
+      const writtenAt = lastWrites.get(req.key);
+      if (writtenAt !== undefined && nowMs - writtenAt < lagMs) {
+        newState.staleReads = (newState.staleReads ?? 0) + 1;
+      }
+    }
+    req.status = 'SUCCESS';
+    outgoing.push(req);
+  }
+
+  // Lag is the configured delay plus the time replicas need to catch up
+  const backlog = (state.replicationBacklog ?? 0) - applied + servedWrites;
+  newState.replicationBacklog = backlog;
+  newState.replicationLagMs =
+    (config.replicationLagMs ?? DEFAULT_REPLICATION_LAG_MS) + (config.capacity > 0 ? (backlog / config.capacity) * 1000 : 0);
+  for (const [key, writtenAt] of lastWrites) {
+    if (nowMs - writtenAt >= newState.replicationLagMs) lastWrites.delete(key);
+  }
+  newState.lastWrites = lastWrites;
+
+  const laneUtilization = (waiting: number, done: number, perTick: number) =>
+    waiting > 0 ? Math.min(1, (waiting + done) / perTick) : perTick > 0 ? Math.min(1, done / perTick) : 0;
+  newState.queue = remaining;
+  newState.utilization = Math.max(
+    laneUtilization(waitingWrites, servedWrites, writeTick),
+    laneUtilization(waitingReads, servedReads, readTick),
+  );
+  newState.throughput = served.length;
+  newState.intake = writeTick + readTick;
+
+  return { state: newState, outgoing };
+}
+
+// -----------------------------------------------------------------------------
+// Streams
+// -----------------------------------------------------------------------------
+
+// Keyed requests land on key % partitions, so hot keys make hot partitions;
+// unkeyed ones spread evenly by a hash of their id
+function partitionOf(req: SimRequest, partitions: number): number {
+  if (req.key !== undefined) return req.key % partitions;
+  let hash = 0;
+  for (let i = 0; i < req.id.length; i++) hash = (hash * 31 + req.id.charCodeAt(i)) | 0;
+  return Math.abs(hash) % partitions;
+}
+
+// One consumer per partition, each serving `capacity` from its own backlog,
+// so a hot partition lags while the others sit idle
+function processPartitions(
+  state: NodeState,
+  config: StreamProcessorConfig,
+  outgoing: SimRequest[],
+  ctx: SimContext,
+): { state: NodeState; outgoing: SimRequest[] } {
+  const { tick, tickMs, rng } = ctx;
+  const newState = { ...state };
+  const partitions = Math.max(1, Math.floor(config.partitions));
+  const tickCapacity = ratePerTick(config.capacity, tickMs);
+  const budget = tickCapacity + (state.capacityCarry ?? 0);
+  const perPartition = Math.floor(budget);
+  newState.capacityCarry = budget - perPartition;
+
+  const taken: number[] = new Array(partitions).fill(0);
+  const waiting: number[] = new Array(partitions).fill(0);
+  const served: { req: SimRequest; partition: number }[] = [];
+  const remaining: SimRequest[] = [];
+  for (const req of state.queue) {
+    const partition = partitionOf(req, partitions);
+    if (taken[partition] < perPartition) {
+      taken[partition]++;
+      served.push({ req, partition });
+    } else {
+      waiting[partition]++;
+      remaining.push(req);
+    }
+  }
+
+  for (const { req, partition } of served) {
+    const serviceTime = sampleServiceTime(config, config.baseLatency, rng);
+    const queueDelay = perPartition > 0 ? (waiting[partition] / perPartition) * config.baseLatency * 0.5 : 0;
+    req.latency += serviceTime + queueDelay;
+    recordHop(req, tick, serviceTime, queueDelay);
+    req.status = 'SUCCESS';
+    outgoing.push(req);
+  }
+
+  // The busiest partition's consumer is the one that falls behind
+  let utilization = 0;
+  for (let p = 0; p < partitions; p++) {
+    const load = waiting[p] > 0 ? 1 : tickCapacity > 0 ? taken[p] / tickCapacity : 0;
+    utilization = Math.max(utilization, Math.min(1, load));
+  }
+  newState.queue = remaining;
+  newState.utilization = utilization;
+  newState.throughput = served.length;
+  newState.intake = tickCapacity * partitions;
+  newState.consumerLag = { ...consumerLag(remaining, tick, tickMs), partitions: waiting };
+
+  return { state: newState, outgoing };
+}
+
 // -----------------------------------------------------------------------------
 // Main dispatch — process a single node for one tick
 // -----------------------------------------------------------------------------
@@ -144,8 +490,13 @@ export function processNode(
   node: NodeData,
   state: NodeState,
   incomingRequests: SimRequest[],
-  tick: number,
+  ctx: SimContext,
 ): { state: NodeState; outgoing: SimRequest[] } {
+  const { tick, tickMs, rng } = ctx;
+  for (const req of incomingRequests) {
+    openHop(req, node.id, tick);
+  }
+
   const newState: NodeState = {
     ...state,
     queue: [...state.queue, ...incomingRequests],
@@ -153,82 +504,102 @@ export function processNode(
   };
   const outgoing: SimRequest[] = [];
   const config = node.config;
+  newState.concurrencyLimit = (config as { maxConcurrency?: number }).maxConcurrency;
 
   switch (node.type as NodeType) {
     // --- Traffic -----------------------------------------------------------
     case 'CLIENT': {
-      return { state: newState, outgoing: generateClientRequests(config as ClientConfig, tick) };
+      return { state: newState, outgoing: generateClientRequests(node.id, config as ClientConfig, newState, ctx) };
     }
 
     // --- Networking --------------------------------------------------------
     case 'LOAD_BALANCER': {
       const c = config as LoadBalancerConfig;
-      return processNodeQueue(newState, newState.queue, c.capacity, c.baseLatency, 0, outgoing);
+      return processNodeQueue(newState, newState.queue, c.capacity, c.baseLatency, 0, outgoing, ctx, c);
     }
 
     case 'API_GATEWAY': {
       const c = config as ApiGatewayConfig;
-      return processNodeQueue(newState, newState.queue, c.capacity, c.baseLatency, c.errorRate, outgoing);
+      return processNodeQueue(newState, newState.queue, c.capacity, c.baseLatency, c.errorRate, outgoing, ctx, c);
     }
 
     case 'RATE_LIMITER': {
       const c = config as RateLimiterConfig;
-      // Simple rate limiter: pass up to maxRequests per window, drop rest
-      // 1 tick = 100ms
-      // Formula: (maxRequests * 100) / windowMs
-      // We do NOT clamp to 1. If limit is low (e.g. 5 req / 1000ms), perTick might be 0.5 -> 0.
-      // This means it will block until enough tokens accumulate (not implemented here) or just block.
-      // For this simple model, 0 means explicit blocking.
-      const perTickLimit = Math.floor((c.maxRequests * 100) / c.windowMs);
-      const allowed = newState.queue.splice(0, perTickLimit);
-      const dropped = newState.queue.splice(0); // everything else
-      for (const r of dropped) {
-        r.status = 'DROPPED';
-        newState.completed.push(r);
-      }
-      for (const r of allowed) {
-        r.latency += c.baseLatency;
-        r.status = 'SUCCESS';
-        outgoing.push(r);
+      // Over-limit requests are refused outright (HTTP 429), not queued
+      if (!newState.rateLimiter) newState.rateLimiter = new RateLimiter();
+      const nowMs = tick * tickMs;
+      let allowed = 0;
+      for (const r of newState.queue) {
+        const key = c.keyBy === 'CLIENT' ? r.originId : 'global';
+        if (newState.rateLimiter.allow(key, nowMs, c)) {
+          recordHop(r, tick, c.baseLatency);
+          r.latency += c.baseLatency;
+          r.status = 'SUCCESS';
+          outgoing.push(r);
+          allowed++;
+        } else {
+          recordHop(r, tick, 0);
+          r.status = 'DROPPED';
+          r.failureReason = 'THROTTLED';
+          newState.completed.push(r);
+        }
       }
+      // Utilization is the share of the sustained limit in use this tick
+      const limitPerTick = ratePerTick((c.maxRequests * 1000) / c.windowMs, tickMs);
       newState.queue = [];
-      newState.utilization = perTickLimit > 0 ? allowed.length / perTickLimit : 0;
-      newState.throughput = allowed.length;
+      newState.utilization = limitPerTick > 0 ? Math.min(1, allowed / limitPerTick) : 0;
+      newState.throughput = allowed;
       return { state: newState, outgoing };
     }
 
     // --- APIs --------------------------------------------------------------
     case 'REST_API': {
       const c = config as RestApiConfig;
-      return processNodeQueue(newState, newState.queue, c.capacity, c.baseLatency, c.errorRate, outgoing);
+      return processNodeQueue(newState, newState.queue, c.capacity, c.baseLatency, c.errorRate, outgoing, ctx, c);
     }
 
     case 'GRAPHQL_API': {
       const c = config as GraphqlApiConfig;
       // GraphQL has higher latency due to query complexity
       const adjustedLatency = c.baseLatency * (1 + c.maxDepth * 0.1);
-      return processNodeQueue(newState, newState.queue, c.capacity, adjustedLatency, c.errorRate, outgoing);
+      return processNodeQueue(newState, newState.queue, c.capacity, adjustedLatency, c.errorRate, outgoing, ctx, c);
     }
 
     case 'AUTH_SERVICE': {
       const c = config as AuthServiceConfig;
-      return processNodeQueue(newState, newState.queue, c.capacity, c.baseLatency, c.errorRate, outgoing);
+      return processNodeQueue(newState, newState.queue, c.capacity, c.baseLatency, c.errorRate, outgoing, ctx, c);
     }
 
     case 'API': {
       const c = config as ApiConfig;
-      return processNodeQueue(newState, newState.queue, c.capacity, c.baseLatency, c.errorRate, outgoing);
+      return processNodeQueue(newState, newState.queue, c.capacity, c.baseLatency, c.errorRate, outgoing, ctx, c);
     }
 
     // --- Caching -----------------------------------------------------------
     case 'CACHE':
     case 'REDIS_CACHE': {
       const c = config as CacheConfig;
+      // With the keyspace model, keyed requests hit only if their entry is held
+      if (c.keyspaceModel && !newState.cache) newState.cache = new CacheStore();
+      const store = c.keyspaceModel ? newState.cache : undefined;
+      const nowMs = tick * tickMs;
+      store?.advanceTo(nowMs, c, rng);
       const hits: SimRequest[] = [];
       const misses: SimRequest[] = [];
-      for (const req of newState.queue) {
-        if (Math.random() < c.hitRate) {
-          hits.push({ ...req, latency: req.latency + c.baseLatency, status: 'SUCCESS' });
+      for (const [i, req] of newState.queue.entries()) {
+        const isNew = i >= state.queue.length;
+        // Writes go through to the backing store and invalidate the cached copy
+        if (req.operation === 'WRITE') {
+          if (store && isNew && req.key !== undefined) store.invalidate(req.key);
+          misses.push(req);
+          continue;
+        }
+        // Keyed misses still queued from an earlier tick were already looked up
+        const hit = store && req.key !== undefined ? isNew && store.get(req.key, nowMs) : rng() < c.hitRate;
+        if (hit) {
+          const serviceTime = sampleServiceTime(c, c.baseLatency, rng);
+          recordHop(req, tick, serviceTime);
+          hits.push({ ...req, latency: req.latency + serviceTime, status: 'SUCCESS' });
         } else {
           misses.push(req);
         }
@@ -236,30 +607,30 @@ export function processNode(
       newState.completed = [...newState.completed, ...hits];
       newState.queue = misses;
       // Misses flow downstream
-      return processNodeQueue(newState, misses, c.capacity, c.baseLatency, 0, outgoing);
+      return processNodeQueue(newState, misses, c.capacity, c.baseLatency, 0, outgoing, ctx, c);
     }
 
     // --- Storage -----------------------------------------------------------
     case 'DATABASE': {
       const c = config as DatabaseConfig;
-      return processNodeQueue(newState, newState.queue, c.capacity, c.baseLatency, 0, outgoing);
+      return processNodeQueue(newState, newState.queue, c.capacity, c.baseLatency, 0, outgoing, ctx, c);
     }
 
     case 'SQL_DATABASE': {
       const c = config as SqlDatabaseConfig;
-      // Connection pool bottleneck
+      // Connection pool bottleneck (the pool talks to the primary)
       const effectiveCapacity = Math.min(c.capacity, c.poolSize * 10);
-      return processNodeQueue(newState, newState.queue, effectiveCapacity, c.baseLatency, 0, outgoing);
+      return processDatabase(newState, c, effectiveCapacity, c.readReplicas ?? 0, outgoing, ctx);
     }
 
     case 'NOSQL_DATABASE': {
       const c = config as NosqlDatabaseConfig;
-      return processNodeQueue(newState, newState.queue, c.capacity, c.baseLatency, 0, outgoing);
+      return processDatabase(newState, c, c.capacity, Math.max(0, c.replicaCount - 1), outgoing, ctx);
     }
 
     case 'OBJECT_STORAGE': {
       const c = config as ObjectStorageConfig;
-      return processNodeQueue(newState, newState.queue, c.capacity, c.baseLatency, 0, outgoing);
+      return processNodeQueue(newState, newState.queue, c.capacity, c.baseLatency, 0, outgoing, ctx, c);
     }
 
     // --- Compute -----------------------------------------------------------
@@ -268,40 +639,58 @@ export function processNode(
       if (newState.queue.length > c.maxSize) {
         if (c.dropPolicy === 'DROP_OLDEST') {
           const dropped = newState.queue.splice(0, newState.queue.length - c.maxSize);
-          dropped.forEach((r) => (r.status = 'DROPPED'));
+          dropped.forEach((r) => {
+            r.status = 'DROPPED';
+            recordHop(r, tick, 0);
+          });
           newState.completed = [...newState.completed, ...dropped];
         } else {
           const dropped = newState.queue.splice(c.maxSize);
-          dropped.forEach((r) => (r.status = 'DROPPED'));
+          dropped.forEach((r) => {
+            r.status = 'DROPPED';
+            recordHop(r, tick, 0);
+          });
           newState.completed = [...newState.completed, ...dropped];
         }
       }
-      const toDrain = newState.queue.splice(0, Math.min(100, newState.queue.length));
+      // Consumers pull only what they can start; a queue that pushes, or ends
+      // the graph, drains at the default rate
+      const drainLimit = Math.max(1, Math.floor(ratePerTick(QUEUE_DRAIN_RPS, tickMs)));
+      const pullLimit = ctx.pullCapacity === undefined || !Number.isFinite(ctx.pullCapacity) ? drainLimit : ctx.pullCapacity;
+      const toDrain = newState.queue.splice(0, Math.min(pullLimit, newState.queue.length));
+      // Time spent waiting for a consumer is part of the request's latency
+      for (const r of toDrain) {
+        const waitMs = (tick - (r.hops[r.hops.length - 1]?.enqueueTick ?? tick)) * tickMs;
+        r.latency += waitMs;
+        recordHop(r, tick, 0, waitMs);
+      }
       newState.utilization = newState.queue.length > 0 ? Math.min(1, newState.queue.length / c.maxSize) : 0;
       newState.throughput = toDrain.length;
+      newState.consumerLag = consumerLag(newState.queue, tick, tickMs);
       return { state: newState, outgoing: toDrain };
     }
 
     case 'WORKER': {
       const c = config as WorkerConfig;
       const effectiveCapacity = c.capacity * c.concurrency;
-      return processNodeQueue(newState, newState.queue, effectiveCapacity, c.baseLatency, 0, outgoing);
+      return processNodeQueue(newState, newState.queue, effectiveCapacity, c.baseLatency, 0, outgoing, ctx, c);
     }
 
     // --- Big Data ----------------------------------------------------------
     case 'STREAM_PROCESSOR': {
-      const c = config as StreamProcessorConfig;
-      const effectiveCapacity = c.capacity * c.partitions;
-      return processNodeQueue(newState, newState.queue, effectiveCapacity, c.baseLatency, 0, outgoing);
+      return processPartitions(newState, config as StreamProcessorConfig, outgoing, ctx);
     }
 
     case 'BATCH_PROCESSOR': {
       const c = config as BatchProcessorConfig;
-      const ticksPerBatch = Math.max(1, Math.floor(c.scheduleIntervalMs / 100));
+      const ticksPerBatch = msToTicks(c.scheduleIntervalMs, tickMs);
       if (tick % ticksPerBatch === 0) {
         const batch = newState.queue.splice(0, c.batchSize);
         for (const req of batch) {
-          req.latency += c.baseLatency;
+          // Requests wait for the next scheduled run before they are processed
+          const waitMs = (tick - (req.hops[req.hops.length - 1]?.enqueueTick ?? tick)) * tickMs;
+          recordHop(req, tick, c.baseLatency, waitMs);
+          req.latency += waitMs + c.baseLatency;
           req.status = 'SUCCESS';
           outgoing.push(req);
         }
@@ -311,18 +700,41 @@ export function processNode(
         newState.throughput = 0;
         newState.utilization = 0;
       }
+      newState.consumerLag = consumerLag(newState.queue, tick, tickMs);
       return { state: newState, outgoing };
     }
 
     case 'ANALYTICS_SINK': {
       const c = config as AnalyticsSinkConfig;
-      return processNodeQueue(newState, newState.queue, c.capacity, c.baseLatency, 0, outgoing);
+      // Events buffer until the buffer fills or the flush interval passes,
+      // then go out together in one write
+      const intervalDue = (tick - (state.lastFlushTick ?? 0)) * tickMs >= c.flushIntervalMs;
+      if (intervalDue) newState.lastFlushTick = tick;
+      if (newState.queue.length > 0 && (intervalDue || newState.queue.length >= c.bufferSize)) {
+        const serviceTime = sampleServiceTime(c, c.baseLatency, rng);
+        const batch = newState.queue.splice(0, newState.queue.length);
+        for (const req of batch) {
+          const waitMs = (tick - (req.hops[req.hops.length - 1]?.enqueueTick ?? tick)) * tickMs;
+          recordHop(req, tick, serviceTime, waitMs);
+          req.latency += waitMs + serviceTime;
+          req.status = 'SUCCESS';
+          outgoing.push(req);
+        }
+        newState.lastFlushTick = tick;
+        newState.throughput = batch.length;
+      } else {
+        newState.throughput = 0;
+      }
+      // How full the buffer is
+      newState.utilization = c.bufferSize > 0 ? Math.min(1, newState.queue.length / c.bufferSize) : 0;
+      newState.consumerLag = consumerLag(newState.queue, tick, tickMs);
+      return { state: newState, outgoing };
     }
 
     // --- Custom ------------------------------------------------------------
     case 'CUSTOM_LOGIC': {
       const c = config as CustomLogicConfig;
-      return processNodeQueue(newState, newState.queue, c.capacity, c.baseLatency, c.errorRate, outgoing);
+      return processNodeQueue(newState, newState.queue, c.capacity, c.baseLatency, c.errorRate, outgoing, ctx, c);
     }
 
     default:
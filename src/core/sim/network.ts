@@ -0,0 +1,148 @@
+// =============================================================================
+// Atlas Learn - Network Links
+// =============================================================================
+// Geography for the simulator: nodes sit in regions and availability zones,
+// and every edge is a network link with latency, bandwidth and packet loss.
+// Links without explicit settings take their latency from a region-pair
+// matrix, so moving a node to another region is enough to slow its calls.
+// =============================================================================
+
+import { NodeData, EdgeData, Placement, SqlDatabaseConfig, NosqlDatabaseConfig } from '@/core/types';
+import { SimRequest } from './models';
+import { Rng } from './random';
+
+/** Region of nodes that don't set one. */
+export const DEFAULT_REGION = 'us-east-1';
+
+export const REGIONS = [
+  'us-east-1',
+  'us-west-2',
+  'eu-west-1',
+  'eu-central-1',
+  'ap-southeast-1',
+  'ap-northeast-1',
+  'sa-east-1',
+];
+
+export const ZONES = ['a', 'b', 'c'];
+
+export const DEFAULT_PAYLOAD_KB = 10;
+
+// A lost request is resent after the retransmission timeout, which doubles
+// with each loss; past MAX_RETRANSMITS the sender gives up
+export const RETRANSMIT_TIMEOUT_MS = 200;
+export const MAX_RETRANSMITS = 3;
+
+// Round trip between two availability zones of one region
+const CROSS_ZONE_RTT_MS = 1;
+
+// Round trip between regions the matrix doesn't know (e.g. typed by hand)
+const UNKNOWN_REGION_RTT_MS = 150;
+
+// Typical round-trip times between regions in ms; each pair is listed once
+const REGION_RTT_MS: Record<string, Record<string, number>> = {
+  'us-east-1': { 'us-west-2': 65, 'eu-west-1': 70, 'eu-central-1': 90, 'ap-southeast-1': 220, 'ap-northeast-1': 150, 'sa-east-1': 115 },
+  'us-west-2': { 'eu-west-1': 130, 'eu-central-1': 145, 'ap-southeast-1': 165, 'ap-northeast-1': 100, 'sa-east-1': 175 },
+  'eu-west-1': { 'eu-central-1': 25, 'ap-southeast-1': 170, 'ap-northeast-1': 210, 'sa-east-1': 180 },
+  'eu-central-1': { 'ap-southeast-1': 155, 'ap-northeast-1': 225, 'sa-east-1': 200 },
+  'ap-southeast-1': { 'ap-northeast-1': 70, 'sa-east-1': 320 },
+  'ap-northeast-1': { 'sa-east-1': 255 },
+};
+
+// -----------------------------------------------------------------------------
+// Placement
+// -----------------------------------------------------------------------------
+
+/** The node's region and zone, with the defaults filled in. */
+export function nodePlacement(node: NodeData): Required<Placement> {
+  const config = node.config as Placement;
+  return { region: config.region || DEFAULT_REGION, zone: config.zone ?? '' };
+}
+
+/** Round-trip time between two regions. */
+export function regionRttMs(from: string, to: string): number {
+  if (from === to) return 0;
+  return REGION_RTT_MS[from]?.[to] ?? REGION_RTT_MS[to]?.[from] ?? UNKNOWN_REGION_RTT_MS;
+}
+
+/** Round-trip time between two placements. Nodes in one zone are treated as co-located. */
+export function placementRttMs(from: Required<Placement>, to: Required<Placement>): number {
+  if (from.region !== to.region) return regionRttMs(from.region, to.region);
+  return from.zone && to.zone && from.zone !== to.zone ? CROSS_ZONE_RTT_MS : 0;
+}
+
+// Reads into a replicated database are served by its read replicas, which
+// may run in another region than the primary
+function servingPlacement(node: NodeData, request?: SimRequest): Required<Placement> {
+  const placement = nodePlacement(node);
+  if (!request || request.operation === 'WRITE') return placement;
+
+  let replicas = 0;
+  if (node.type === 'SQL_DATABASE') replicas = (node.config as SqlDatabaseConfig).readReplicas ?? 0;
+  if (node.type === 'NOSQL_DATABASE') replicas = (node.config as NosqlDatabaseConfig).replicaCount - 1;
+  const replicaRegion = (node.config as SqlDatabaseConfig | NosqlDatabaseConfig).replicaRegion;
+  return replicas > 0 && replicaRegion ? { region: replicaRegion, zone: '' } : placement;
+}
+
+/**
+ * One-way delay over the edge: its own latency when set, otherwise half the
+ * round trip between the endpoints. `request` picks the replica for reads.
+ */
+export function linkLatencyMs(edge: EdgeData, source: NodeData, target: NodeData, request?: SimRequest): number {
+  if (edge.network?.latencyMs !== undefined) return edge.network.latencyMs;
+  return placementRttMs(nodePlacement(source), servingPlacement(target, request)) / 2;
+}
+
+// -----------------------------------------------------------------------------
+// Transfers
+// -----------------------------------------------------------------------------
+
+export interface Transfer {
+  delayMs: number; // propagation, link queueing, serialisation and retransmits
+  returnMs: number; // the response's trip back, paid when a SYNC call is answered
+  lost: boolean; // every retransmit was lost too
+}
+
+/**
+ * Moves requests over edges. Links with a bandwidth send one request at a
+ * time, so a saturated link queues requests behind each other.
+ */
+export class NetworkLinks {
+  private busyUntilMs: Map<string, number> = new Map();
+
+  /**
+   * Sends `request` over `edge` at `nowMs`. The request arrives after the
+   * one-way latency; `returnMs` is what the answer takes to come back.
+   */
+  transfer(edge: EdgeData, source: NodeData, target: NodeData, request: SimRequest, nowMs: number, rng: Rng): Transfer {
+    const link = edge.network ?? {};
+    const returnMs = linkLatencyMs(edge, source, target, request);
+    let delayMs = returnMs;
+
+    if (link.bandwidthMbps && link.bandwidthMbps > 0) {
+      // KB × 8 = kilobits, and one Mbps moves one kilobit per ms
+      const sendMs = ((link.payloadKB ?? DEFAULT_PAYLOAD_KB) * 8) / link.bandwidthMbps;
+      const startMs = Math.max(nowMs, this.busyUntilMs.get(edge.id) ?? 0);
+      this.busyUntilMs.set(edge.id, startMs + sendMs);
+      delayMs += startMs - nowMs + sendMs;
+    }
+
+    const loss = link.packetLoss ?? 0;
+    if (loss > 0) {
+      for (let losses = 0; rng() < loss; losses++) {
+        if (losses === MAX_RETRANSMITS) return { delayMs, returnMs, lost: true };
+        delayMs += RETRANSMIT_TIMEOUT_MS * 2 ** losses;
+      }
+    }
+
+    return { delayMs, returnMs, lost: false };
+  }
+
+  remove(edgeId: string) {
+    this.busyUntilMs.delete(edgeId);
+  }
+
+  reset() {
+    this.busyUntilMs.clear();
+  }
+}
@@ -0,0 +1,127 @@
+// =============================================================================
+// Atlas Learn - Per-Node Run Statistics
+// =============================================================================
+// Cumulative counters and timings for each node over a run, for the
+// inspector's per-node drill-down.
+// =============================================================================
+
+import { SimRequest } from './models';
+import { LatencySketch } from './sketch';
+
+export interface NodeRunMetrics {
+  arrivals: number;        // requests that reached the node (generated, for clients)
+  completions: number;     // requests the node finished and passed on or answered
+  errors: number;
+  drops: number;
+  throttled: number;       // refused by a rate limit, counted apart from drops
+  avgServiceTime: number;  // ms
+  p95ServiceTime: number;  // ms
+  avgQueueTime: number;    // ms
+  latencyShare: number;    // 0-1 share of end-to-end latency spent at this node
+}
+
+interface NodeCounters {
+  arrivals: number;
+  completions: number;
+  errors: number;
+  drops: number;
+  throttled: number;
+  serviced: number;
+  serviceTimeSum: number;
+  queueTimeSum: number;
+  serviceTimes: LatencySketch;
+  timeInRequests: number; // ms this node contributed to successful requests
+}
+
+function createCounters(): NodeCounters {
+  return {
+    arrivals: 0,
+    completions: 0,
+    errors: 0,
+    drops: 0,
+    throttled: 0,
+    serviced: 0,
+    serviceTimeSum: 0,
+    queueTimeSum: 0,
+    serviceTimes: new LatencySketch(),
+    timeInRequests: 0,
+  };
+}
+
+export class NodeStatsTracker {
+  private counters: Map<string, NodeCounters> = new Map();
+  private totalLatency: number = 0;
+
+  private get(nodeId: string): NodeCounters {
+    let c = this.counters.get(nodeId);
+    if (!c) {
+      c = createCounters();
+      this.counters.set(nodeId, c);
+    }
+    return c;
+  }
+
+  /**
+   * Counts one tick of a node's work: what arrived, what it passed on
+   * (`outgoing`) and what finished at it (`completed`).
+   */
+  recordTick(
+    nodeId: string,
+    tick: number,
+    incoming: SimRequest[],
+    outgoing: SimRequest[],
+    completed: SimRequest[],
+    isClient: boolean,
+  ) {
+    const c = this.get(nodeId);
+    c.arrivals += isClient ? outgoing.length : incoming.length;
+
+    for (const req of [...outgoing, ...completed]) {
+      if (req.status === 'ERROR') c.errors++;
+      else if (req.failureReason === 'THROTTLED') c.throttled++;
+      else if (req.status === 'DROPPED') c.drops++;
+      else c.completions++;
+
+      // Only hops that closed at this node this tick carry its timings
+      const hop = req.hops[req.hops.length - 1];
+      if (!hop || hop.nodeId !== nodeId || hop.dequeueTick !== tick || req.status === 'DROPPED') continue;
+      c.serviced++;
+      c.serviceTimeSum += hop.serviceTime;
+      c.queueTimeSum += hop.queueTime;
+      c.serviceTimes.add(hop.serviceTime);
+    }
+  }
+
+  /** Attributes a finished request's end-to-end latency to the nodes it visited. */
+  recordCompletion(req: SimRequest) {
+    if (req.status !== 'SUCCESS') return;
+    this.totalLatency += req.latency;
+    for (const hop of req.hops) {
+      this.get(hop.nodeId).timeInRequests += hop.queueTime + hop.serviceTime;
+    }
+  }
+
+  getMetrics(nodeId: string): NodeRunMetrics {
+    const c = this.get(nodeId);
+    return {
+      arrivals: c.arrivals,
+      completions: c.completions,
+      errors: c.errors,
+      drops: c.drops,
+      throttled: c.throttled,
+      avgServiceTime: c.serviced > 0 ? c.serviceTimeSum / c.serviced : 0,
+      p95ServiceTime: c.serviceTimes.quantile(95),
+      avgQueueTime: c.serviced > 0 ? c.queueTimeSum / c.serviced : 0,
+      latencyShare: this.totalLatency > 0 ? Math.min(1, c.timeInRequests / this.totalLatency) : 0,
+    };
+  }
+
+  remove(nodeId: string) {
+    this.counters.delete(nodeId);
+  }
+
+  reset() {
+    this.counters.clear();
+    this.totalLatency = 0;
+  }
+}
@@ -0,0 +1,41 @@
+// =============================================================================
+// Atlas Learn - Seeded Randomness
+// =============================================================================
+// Every stochastic decision in the simulator draws from an Rng created here so
+// that a graph plus a seed always replays the exact same run.
+// =============================================================================
+
+/** Returns a float in [0, 1), like Math.random(). */
+export type Rng = () => number;
+
+// -----------------------------------------------------------------------------
+// Seeding
+// -----------------------------------------------------------------------------
+
+/** Picks a fresh 32-bit seed for runs that did not ask for one. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * A second seed derived from `seed`, for a stream of draws that must not shift
+ * when some other part of the run draws more or fewer numbers.
+ */
+export function deriveSeed(seed: number, stream: number): number {
+  return Math.floor(createRng(seed ^ Math.imul(stream, 0x9e3779b9))() * 0x100000000) >>> 0;
+}
+
+// -----------------------------------------------------------------------------
+// PRNG (mulberry32 — small, fast, and good enough for simulation noise)
+// -----------------------------------------------------------------------------
+
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
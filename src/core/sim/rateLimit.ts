@@ -0,0 +1,84 @@
+// =============================================================================
+// Atlas Learn - Rate Limiting
+// =============================================================================
+// The algorithms behind RATE_LIMITER nodes. Each limit is tracked per key
+// (one global key, or one per originating client) in simulated time.
+// =============================================================================
+
+import { RateLimiterConfig, RateLimitAlgorithm } from '@/core/types';
+
+interface Bucket {
+  tokens: number;
+  refilledAtMs: number;
+}
+
+interface Window {
+  startMs: number;
+  count: number;
+  previousCount: number; // SLIDING_WINDOW: requests admitted in the window before
+}
+
+/**
+ * Admission decisions for one rate limiter node.
+ * TOKEN_BUCKET:   tokens refill at maxRequests per windowMs up to burstSize;
+ *                 each request spends one, so bursts pass until the bucket empties.
+ * FIXED_WINDOW:   at most maxRequests per aligned window; cheap, but allows up
+ *                 to twice the limit across a window boundary.
+ * SLIDING_WINDOW: weighs the previous window's count by how much of it still
+ *                 overlaps the last windowMs, smoothing the boundary burst.
+ */
+export class RateLimiter {
+  private algorithm: RateLimitAlgorithm | null = null;
+  private buckets: Map<string, Bucket> = new Map();
+  private windows: Map<string, Window> = new Map();
+
+  /** Whether one request for `key` arriving at `nowMs` is within the limit. */
+  allow(key: string, nowMs: number, config: RateLimiterConfig): boolean {
+    const algorithm = config.algorithm ?? 'TOKEN_BUCKET';
+    // Switching algorithms mid-run starts every key afresh
+    if (algorithm !== this.algorithm) {
+      this.algorithm = algorithm;
+      this.buckets.clear();
+      this.windows.clear();
+    }
+
+    switch (algorithm) {
+      case 'TOKEN_BUCKET':
+        return this.takeToken(key, nowMs, config);
+      case 'FIXED_WINDOW':
+        return this.countInWindow(key, nowMs, config, false);
+      case 'SLIDING_WINDOW':
+        return this.countInWindow(key, nowMs, config, true);
+    }
+  }
+
+  private takeToken(key: string, nowMs: number, config: RateLimiterConfig): boolean {
+    const burst = config.burstSize ?? config.maxRequests;
+    // New keys start with a full bucket
+    const bucket = this.buckets.get(key) ?? { tokens: burst, refilledAtMs: nowMs };
+    const refill = ((nowMs - bucket.refilledAtMs) * config.maxRequests) / config.windowMs;
+    bucket.tokens = Math.min(burst, bucket.tokens + refill);
+    bucket.refilledAtMs = nowMs;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens < 1) return false;
+    bucket.tokens--;
+    return true;
+  }
+
+  private countInWindow(key: string, nowMs: number, config: RateLimiterConfig, sliding: boolean): boolean {
+    const startMs = Math.floor(nowMs / config.windowMs) * config.windowMs;
+    let window = this.windows.get(key);
+    if (!window || window.startMs !== startMs) {
+      // Only the window right before this one still overlaps it
+      const previousCount = window && window.startMs === startMs - config.windowMs ? window.count : 0;
+      window = { startMs, count: 0, previousCount };
+      this.windows.set(key, window);
+    }
+
+    const overlap = sliding ? 1 - (nowMs - startMs) / config.windowMs : 0;
+    if (window.count + window.previousCount * overlap >= config.maxRequests) return false;
+    window.count++;
+    return true;
+  }
+}
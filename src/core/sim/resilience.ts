@@ -0,0 +1,115 @@
+// =============================================================================
+// Atlas Learn - Resilience Policies
+// =============================================================================
+// Caller-side behaviour on edges: retry backoff and per-edge circuit breakers.
+// Timeouts and the retry loop itself live in the engine, which sees calls
+// complete; this module only answers "how long to wait" and "may I call".
+// =============================================================================
+
+import { EdgeData, RetryPolicy } from '@/core/types';
+import { Rng } from './random';
+
+// -----------------------------------------------------------------------------
+// Retry Backoff
+// -----------------------------------------------------------------------------
+
+/**
+ * Wait in ms before retry number `attempt` (1 for the first retry):
+ * backoffMs doubling each attempt, with up to `jitter` of it shaved off at
+ * random so retries from a burst of failures don't land together.
+ */
+export function backoffDelay(policy: RetryPolicy, attempt: number, rng: Rng): number {
+  const base = policy.backoffMs * Math.pow(2, attempt - 1);
+  const jitter = Math.min(1, Math.max(0, policy.jitter));
+  return base * (1 - jitter * rng());
+}
+
+/** True when calls over the edge need tracking by the engine. */
+export function hasCallPolicy(edge: EdgeData): boolean {
+  return edge.timeoutMs !== undefined || edge.retry !== undefined || edge.circuitBreaker !== undefined;
+}
+
+// -----------------------------------------------------------------------------
+// Circuit Breakers
+// -----------------------------------------------------------------------------
+
+export type BreakerState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+interface Breaker {
+  state: BreakerState;
+  failures: number; // consecutive, while closed
+  openedAtTick: number;
+  trialInFlight: boolean;
+}
+
+/**
+ * One breaker per edge with a circuitBreaker policy. Closed, it counts
+ * consecutive failures; open, it fast-fails every call; once `openMs` has
+ * passed it lets a single trial call through and closes or reopens on its
+ * outcome.
+ */
+export class CircuitBreakers {
+  private breakers: Map<string, Breaker> = new Map();
+
+  private get(edgeId: string): Breaker {
+    let breaker = this.breakers.get(edgeId);
+    if (!breaker) {
+      breaker = { state: 'CLOSED', failures: 0, openedAtTick: 0, trialInFlight: false };
+      this.breakers.set(edgeId, breaker);
+    }
+    return breaker;
+  }
+
+  /** Whether a call may go out over the edge this tick. */
+  allow(edge: EdgeData, tick: number, tickMs: number): boolean {
+    const policy = edge.circuitBreaker;
+    if (!policy) return true;
+    const breaker = this.get(edge.id);
+
+    if (breaker.state === 'OPEN') {
+      if ((tick - breaker.openedAtTick) * tickMs < policy.openMs) return false;
+      breaker.state = 'HALF_OPEN';
+      breaker.trialInFlight = false;
+    }
+    if (breaker.state === 'HALF_OPEN') {
+      if (breaker.trialInFlight) return false;
+      breaker.trialInFlight = true;
+    }
+    return true;
+  }
+
+  /** Feeds back the outcome of a call that went out over the edge. */
+  record(edge: EdgeData, failed: boolean, tick: number) {
+    const policy = edge.circuitBreaker;
+    if (!policy) return;
+    const breaker = this.get(edge.id);
+    // Late answers to calls made before the breaker opened don't move it
+    if (breaker.state === 'OPEN') return;
+
+    if (!failed) {
+      breaker.state = 'CLOSED';
+      breaker.failures = 0;
+      return;
+    }
+
+    breaker.failures++;
+    if (breaker.state === 'HALF_OPEN' || breaker.failures >= policy.failureThreshold) {
+      breaker.state = 'OPEN';
+      breaker.openedAtTick = tick;
+      breaker.failures = 0;
+    }
+  }
+
+  /** Edge ids whose breaker is currently open or probing. */
+  openEdges(): string[] {
+    return [...this.breakers].filter(([, b]) => b.state !== 'CLOSED').map(([edgeId]) => edgeId);
+  }
+
+  remove(edgeId: string) {
+    this.breakers.delete(edgeId);
+  }
+
+  reset() {
+    this.breakers.clear();
+  }
+}
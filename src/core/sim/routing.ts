@@ -0,0 +1,278 @@
+// =============================================================================
+// Atlas Learn - Edge Routing
+// =============================================================================
+// Decides which outgoing edge(s) each request leaving a node travels on:
+// weighted shares, load-balancer algorithms, fan-out copies, error paths, and
+// failover away from targets known to be down.
+// Fan-out copies are joined back into one request by ForkTracker so global
+// metrics still count each client request once, and whoever waits on the
+// request upstream is answered once.
+// =============================================================================
+
+import { NodeData, EdgeData, LoadBalancerConfig } from '@/core/types';
+import { SimRequest, NodeState } from './models';
+import { Rng } from './random';
+
+// -----------------------------------------------------------------------------
+// Edge Helpers
+// -----------------------------------------------------------------------------
+
+export function edgeMode(edge: EdgeData) {
+  return edge.mode ?? 'SHARE';
+}
+
+function edgeWeight(edge: EdgeData): number {
+  return Math.max(0, edge.weight ?? 1);
+}
+
+// Cheap stable string hash (FNV-1a) for IP_HASH stickiness
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Maps a point in [0, totalWeight) onto the edge that owns that slice
+function pickByWeight(edges: EdgeData[], point: number): EdgeData {
+  let cumulative = 0;
+  for (const edge of edges) {
+    cumulative += edgeWeight(edge);
+    if (point < cumulative) return edge;
+  }
+  return edges[edges.length - 1];
+}
+
+// Edges to targets known to be down are skipped while a sibling is still up;
+// with every target down the request goes out anyway and fails there
+function avoidDown(edges: EdgeData[], healthy: (nodeId: string) => boolean): EdgeData[] {
+  const up = edges.filter((e) => healthy(e.targetId));
+  return up.length > 0 ? up : edges;
+}
+
+// -----------------------------------------------------------------------------
+// Share Selection
+// -----------------------------------------------------------------------------
+
+/**
+ * Picks one edge per request among `edges`. Plain nodes use weighted round
+ * robin; load balancers honour their configured algorithm. `credit` holds
+ * the round-robin standing of this pool of edges across ticks.
+ */
+function selectShareEdges(
+  node: NodeData,
+  credit: Record<string, number>,
+  requests: SimRequest[],
+  edges: EdgeData[],
+  queueDepth: (nodeId: string) => number,
+  rng: Rng,
+): EdgeData[] {
+  // All-zero weights would route nowhere; treat them as an even split
+  const weighted = edges.some((e) => edgeWeight(e) > 0)
+    ? edges
+    : edges.map((e) => ({ ...e, weight: 1 }));
+  const totalWeight = weighted.reduce((sum, e) => sum + edgeWeight(e), 0);
+  const live = weighted.filter((e) => edgeWeight(e) > 0);
+
+  const algorithm =
+    node.type === 'LOAD_BALANCER'
+      ? (node.config as LoadBalancerConfig).algorithm
+      : 'ROUND_ROBIN';
+
+  switch (algorithm) {
+    case 'LEAST_CONNECTIONS': {
+      // Count what this tick has already assigned so one burst spreads out
+      const assigned = new Map<string, number>();
+      return requests.map(() => {
+        let best = live[0];
+        let bestLoad = Infinity;
+        for (const edge of live) {
+          const load = (queueDepth(edge.targetId) + (assigned.get(edge.id) ?? 0)) / edgeWeight(edge);
+          if (load < bestLoad) {
+            best = edge;
+            bestLoad = load;
+          }
+        }
+        assigned.set(best.id, (assigned.get(best.id) ?? 0) + 1);
+        return best;
+      });
+    }
+
+    case 'RANDOM':
+      return requests.map(() => pickByWeight(weighted, rng() * totalWeight));
+
+    case 'IP_HASH':
+      // The originating client stands in for the caller's IP, so each client
+      // sticks to one backend; keyed requests stick by key instead
+      return requests.map((req) => {
+        const identity = req.key !== undefined ? `key:${req.key}` : req.originId;
+        return pickByWeight(weighted, (hashString(identity) / 0x100000000) * totalWeight);
+      });
+
+    case 'ROUND_ROBIN':
+    default: {
+      // Smooth weighted round robin: each pick, every edge earns its weight
+      // and the one with the most credit goes, paying the total back. Any
+      // weights split exactly, without sending a heavy edge's share in a burst.
+      // Edges that are down, deleted or weighted out forfeit their credit, so
+      // one that comes back rejoins level rather than owed or owing a burst.
+      for (const id of Object.keys(credit)) {
+        if (!live.some((e) => e.id === id)) delete credit[id];
+      }
+      return requests.map(() => {
+        let best = live[0];
+        for (const edge of live) {
+          credit[edge.id] = (credit[edge.id] ?? 0) + edgeWeight(edge);
+          if (credit[edge.id] > credit[best.id]) best = edge;
+        }
+        credit[best.id] -= totalWeight;
+        return best;
+      });
+    }
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Copies
+// -----------------------------------------------------------------------------
+
+// Call after ForkTracker.fork, so copies share the fork but not what waits on it
+function cloneRequest(req: SimRequest, suffix: number): SimRequest {
+  return {
+    ...req,
+    id: `${req.id}.${suffix}`,
+    hops: req.hops.map((h) => ({ ...h })),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Route
+// -----------------------------------------------------------------------------
+
+export interface RoutedRequest {
+  edge: EdgeData;
+  request: SimRequest;
+}
+
+/**
+ * Routes requests leaving `node` over its outgoing `edges`. `failed` requests
+ * only travel ON_ERROR edges; everything else gets one SHARE edge plus a copy
+ * per BROADCAST edge. Fan-out is registered with `forks`. SHARE and ON_ERROR
+ * picks fail over from targets `healthy` reports down to their siblings, so
+ * a standby edge with weight 0 only carries traffic once the others are out.
+ */
+export function routeRequests(
+  node: NodeData,
+  state: NodeState,
+  requests: SimRequest[],
+  edges: EdgeData[],
+  queueDepth: (nodeId: string) => number,
+  forks: ForkTracker,
+  rng: Rng,
+  healthy: (nodeId: string) => boolean = () => true,
+  failed: boolean = false,
+): RoutedRequest[] {
+  const routed: RoutedRequest[] = [];
+  if (requests.length === 0) return routed;
+
+  if (failed) {
+    const errorEdges = avoidDown(edges.filter((e) => edgeMode(e) === 'ON_ERROR'), healthy);
+    if (errorEdges.length === 0) return routed;
+    const picks = selectShareEdges(node, state.errorRoundRobinCredit ??= {}, requests, errorEdges, queueDepth, rng);
+    requests.forEach((request, i) => routed.push({ edge: picks[i], request }));
+    return routed;
+  }
+
+  const shareEdges = avoidDown(edges.filter((e) => edgeMode(e) === 'SHARE'), healthy);
+  const broadcastEdges = edges.filter((e) => edgeMode(e) === 'BROADCAST');
+  const picks = shareEdges.length > 0
+    ? selectShareEdges(node, state.roundRobinCredit ??= {}, requests, shareEdges, queueDepth, rng)
+    : [];
+
+  requests.forEach((request, i) => {
+    const targets = picks[i] ? [picks[i], ...broadcastEdges] : broadcastEdges;
+    if (targets.length > 1) forks.fork(request, targets.length - 1);
+    targets.forEach((edge, k) => {
+      routed.push({ edge, request: k === 0 ? request : cloneRequest(request, k) });
+    });
+  });
+
+  return routed;
+}
+
+// -----------------------------------------------------------------------------
+// Fork Tracker — joins fan-out copies back into one request
+// -----------------------------------------------------------------------------
+
+const STATUS_SEVERITY: Record<SimRequest['status'], number> = {
+  PENDING: 0,
+  SUCCESS: 1,
+  DROPPED: 2,
+  ERROR: 3,
+};
+
+// What the forked request carried before it split, restored at the join
+type ForkParent = Pick<SimRequest, 'id' | 'forkOf' | 'callers' | 'calls'>;
+
+interface OpenFork {
+  pending: number;
+  merged: SimRequest | null;
+  parent: ForkParent;
+}
+
+export class ForkTracker {
+  private open: Map<string, OpenFork> = new Map();
+  private nextId: number = 1;
+
+  /**
+   * Splits `req` into itself plus `extra` copies. Its SYNC callers and open
+   * calls wait for the join, so the branches start without them. Forks nest:
+   * a branch may fork again and joins its own fork first.
+   */
+  fork(req: SimRequest, extra: number) {
+    const forkId = `fork_${this.nextId++}`;
+    this.open.set(forkId, {
+      pending: extra + 1,
+      merged: null,
+      parent: { id: req.id, forkOf: req.forkOf, callers: req.callers, calls: req.calls },
+    });
+    req.forkOf = forkId;
+    req.callers = undefined;
+    req.calls = undefined;
+  }
+
+  /**
+   * Records a finished request or copy. Returns null while other branches of
+   * its fork are still out; once the last one finishes, returns the joined
+   * request with the callers and calls it had before forking. It takes the
+   * slowest branch's latency and hops, and the worst status. Requests outside
+   * any fork come straight back.
+   */
+  complete(req: SimRequest): SimRequest | null {
+    const forkId = req.forkOf;
+    const entry = forkId !== undefined ? this.open.get(forkId) : undefined;
+    if (forkId === undefined || !entry) return req;
+
+    const prev = entry.merged;
+    if (!prev) {
+      entry.merged = req;
+    } else {
+      const slowest = req.latency > prev.latency ? req : prev;
+      const worst = STATUS_SEVERITY[req.status] > STATUS_SEVERITY[prev.status] ? req.status : prev.status;
+      entry.merged = { ...slowest, status: worst };
+    }
+
+    entry.pending--;
+    if (entry.pending > 0) return null;
+
+    this.open.delete(forkId);
+    return { ...entry.merged, ...entry.parent };
+  }
+
+  reset() {
+    this.open.clear();
+    this.nextId = 1;
+  }
+}
@@ -0,0 +1,114 @@
+// =============================================================================
+// Atlas Learn - Latency Sketch
+// =============================================================================
+// Streaming quantile sketch with log-spaced buckets (HDR / DDSketch style).
+// Each bucket spans a fixed ratio, so any quantile is reported within ~1% of
+// the true value while memory stays constant however long the run is.
+// =============================================================================
+
+// Relative accuracy of every reported quantile
+const RELATIVE_ACCURACY = 0.01;
+const GAMMA = (1 + RELATIVE_ACCURACY) / (1 - RELATIVE_ACCURACY);
+const LOG_GAMMA = Math.log(GAMMA);
+
+// Values outside this range are clamped into the first/last bucket
+const MIN_VALUE = 0.01; // ms
+const MAX_VALUE = 10_000_000; // ms
+
+const MIN_INDEX = Math.ceil(Math.log(MIN_VALUE) / LOG_GAMMA);
+const MAX_INDEX = Math.ceil(Math.log(MAX_VALUE) / LOG_GAMMA);
+
+function bucketIndex(value: number): number {
+  const clamped = Math.min(MAX_VALUE, Math.max(MIN_VALUE, value));
+  return Math.ceil(Math.log(clamped) / LOG_GAMMA);
+}
+
+// Midpoint of a bucket's range, which keeps the relative error symmetric
+function bucketValue(index: number): number {
+  return (2 * Math.pow(GAMMA, index)) / (GAMMA + 1);
+}
+
+export interface LatencyBucket {
+  lowerMs: number;
+  upperMs: number;
+  count: number;
+}
+
+export class LatencySketch {
+  private counts: Float64Array = new Float64Array(MAX_INDEX - MIN_INDEX + 1);
+  private zeroCount: number = 0;
+  private total: number = 0;
+  private min: number = Infinity;
+  private max: number = 0;
+
+  add(value: number) {
+    if (value <= 0) {
+      this.zeroCount++;
+    } else {
+      this.counts[bucketIndex(value) - MIN_INDEX]++;
+    }
+    this.total++;
+    this.min = Math.min(this.min, value);
+    this.max = Math.max(this.max, value);
+  }
+
+  get count(): number {
+    return this.total;
+  }
+
+  get maxValue(): number {
+    return this.max;
+  }
+
+  /** Value at `percentile` (0-100); exact at the extremes, ~1% elsewhere. */
+  quantile(percentile: number): number {
+    if (this.total === 0) return 0;
+    if (percentile >= 100) return this.max;
+
+    const rank = Math.max(1, Math.ceil((percentile / 100) * this.total));
+    let seen = this.zeroCount;
+    if (seen >= rank) return 0;
+
+    for (let i = 0; i < this.counts.length; i++) {
+      seen += this.counts[i];
+      if (seen >= rank) {
+        return Math.min(this.max, Math.max(this.min, bucketValue(i + MIN_INDEX)));
+      }
+    }
+    return this.max;
+  }
+
+  /**
+   * Re-buckets the sketch into `bucketCount` log-spaced bins spanning the
+   * observed range, for charting.
+   */
+  histogram(bucketCount: number = 20): LatencyBucket[] {
+    if (this.total === 0) return [];
+
+    const low = Math.max(MIN_VALUE, this.min);
+    const high = Math.max(low * GAMMA, this.max);
+    const ratio = Math.pow(high / low, 1 / bucketCount);
+    const buckets: LatencyBucket[] = Array.from({ length: bucketCount }, (_, i) => ({
+      lowerMs: low * Math.pow(ratio, i),
+      upperMs: low * Math.pow(ratio, i + 1),
+      count: 0,
+    }));
+
+    buckets[0].count += this.zeroCount;
+    for (let i = 0; i < this.counts.length; i++) {
+      if (this.counts[i] === 0) continue;
+      const value = Math.min(high, Math.max(low, bucketValue(i + MIN_INDEX)));
+      const slot = Math.min(bucketCount - 1, Math.floor(Math.log(value / low) / Math.log(ratio)));
+      buckets[Math.max(0, slot)].count += this.counts[i];
+    }
+    return buckets;
+  }
+
+  reset() {
+    this.counts.fill(0);
+    this.zeroCount = 0;
+    this.total = 0;
+    this.min = Infinity;
+    this.max = 0;
+  }
+}
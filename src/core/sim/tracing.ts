@@ -0,0 +1,70 @@
+// =============================================================================
+// Atlas Learn - Request Tracing
+// =============================================================================
+// Picks latency outliers out of a run and lays out a single request's hops as
+// a waterfall (queue wait + service time per node).
+// =============================================================================
+
+import { SimRequest } from './models';
+
+// -----------------------------------------------------------------------------
+// Outlier Selection
+// -----------------------------------------------------------------------------
+
+/**
+ * Successful requests sitting at the given latency percentile, slowest last.
+ * `percentile = 100` returns the slowest requests of the run instead.
+ */
+export function selectOutliers(
+  requests: SimRequest[],
+  percentile: number,
+  limit: number = 10,
+): SimRequest[] {
+  const sorted = requests
+    .filter((r) => r.status === 'SUCCESS')
+    .sort((a, b) => a.latency - b.latency);
+  if (sorted.length === 0) return [];
+
+  if (percentile >= 100) {
+    return sorted.slice(-limit);
+  }
+
+  const index = Math.max(0, Math.ceil((percentile / 100) * sorted.length) - 1);
+  const start = Math.min(index, Math.max(0, sorted.length - limit));
+  return sorted.slice(start, start + limit);
+}
+
+// -----------------------------------------------------------------------------
+// Waterfall
+// -----------------------------------------------------------------------------
+
+export interface WaterfallSpan {
+  nodeId: string;
+  start: number; // ms since the request was issued, once it reached the node
+  networkTime: number; // ms on the link just before `start`
+  queueTime: number; // ms
+  serviceTime: number; // ms
+  enqueueTick: number;
+  dequeueTick: number | null;
+}
+
+export function buildWaterfall(request: SimRequest): WaterfallSpan[] {
+  const spans: WaterfallSpan[] = [];
+  let cursor = 0;
+
+  for (const hop of request.hops) {
+    cursor += hop.networkTime;
+    spans.push({
+      nodeId: hop.nodeId,
+      start: cursor,
+      networkTime: hop.networkTime,
+      queueTime: hop.queueTime,
+      serviceTime: hop.serviceTime,
+      enqueueTick: hop.enqueueTick,
+      dequeueTick: hop.dequeueTick,
+    });
+    cursor += hop.queueTime + hop.serviceTime;
+  }
+
+  return spans;
+}
@@ -0,0 +1,102 @@
+// =============================================================================
+// Atlas Learn - Client Traffic Profiles
+// =============================================================================
+// Turns a CLIENT's traffic shape into a request rate at a point in simulated
+// time, and that rate into a whole number of arrivals for one tick.
+// =============================================================================
+
+import { ClientConfig } from '@/core/types';
+import { Rng } from './random';
+
+// Defaults used when a shape's optional parameters are left unset
+const DEFAULT_RAMP_MS = 10000;
+const DEFAULT_PERIOD_MS = 10000;
+const DEFAULT_AMPLITUDE = 0.5;
+const DEFAULT_SPIKE_MS = 2000;
+const DEFAULT_STEP_AT_MS = 5000;
+
+// -----------------------------------------------------------------------------
+// Target Rate
+// -----------------------------------------------------------------------------
+
+/** Requests per second the client aims for at `elapsedMs` into the run. */
+export function getClientRate(config: ClientConfig, elapsedMs: number): number {
+  const base = config.rps;
+  const peak = config.rps * config.burstMultiplier;
+
+  switch (config.trafficShape ?? 'CONSTANT') {
+    case 'RAMP': {
+      const ramp = Math.max(1, config.rampDurationMs ?? DEFAULT_RAMP_MS);
+      return peak * Math.min(1, elapsedMs / ramp);
+    }
+
+    case 'SINE': {
+      const period = Math.max(1, config.periodMs ?? DEFAULT_PERIOD_MS);
+      const amplitude = config.amplitude ?? DEFAULT_AMPLITUDE;
+      return Math.max(0, base * (1 + amplitude * Math.sin((2 * Math.PI * elapsedMs) / period)));
+    }
+
+    case 'SPIKE': {
+      const period = Math.max(1, config.periodMs ?? DEFAULT_PERIOD_MS);
+      const spike = config.spikeDurationMs ?? DEFAULT_SPIKE_MS;
+      // Spikes sit at the end of each period so the run starts at baseline
+      return elapsedMs % period >= period - spike ? peak : base;
+    }
+
+    case 'STEP':
+      return elapsedMs >= (config.stepAtMs ?? DEFAULT_STEP_AT_MS) ? peak : base;
+
+    case 'CONSTANT':
+    case 'POISSON':
+    default:
+      return peak;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Arrivals per Tick
+// -----------------------------------------------------------------------------
+
+/**
+ * Number of requests arriving in one tick. Deterministic shapes carry the
+ * fractional remainder forward so e.g. 15 RPS averages 1.5 per 100ms tick;
+ * POISSON samples the count instead.
+ */
+export function sampleArrivals(
+  config: ClientConfig,
+  elapsedMs: number,
+  tickMs: number,
+  carry: number,
+  rng: Rng,
+): { count: number; carry: number } {
+  const expected = (getClientRate(config, elapsedMs) * tickMs) / 1000;
+
+  if (config.trafficShape === 'POISSON') {
+    return { count: samplePoisson(expected, rng), carry: 0 };
+  }
+
+  const total = expected + carry;
+  const count = Math.floor(total);
+  return { count, carry: total - count };
+}
+
+function samplePoisson(mean: number, rng: Rng): number {
+  if (mean <= 0) return 0;
+
+  // Knuth's method is exact but O(mean); fall back to a normal approximation
+  if (mean > 30) {
+    const u1 = Math.max(rng(), Number.EPSILON);
+    const u2 = rng();
+    const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+    return Math.max(0, Math.round(mean + z * Math.sqrt(mean)));
+  }
+
+  const limit = Math.exp(-mean);
+  let count = 0;
+  let p = rng();
+  while (p > limit) {
+    count++;
+    p *= rng();
+  }
+  return count;
+}
@@ -0,0 +1,170 @@
+// =============================================================================
+// Atlas Learn - Simulation Worker Client
+// =============================================================================
+// Page-side handle on the simulation worker: fire-and-forget controls, a
+// snapshot callback for each tick, and promise-based queries that reject
+// when the worker fails them.
+// =============================================================================
+
+import { GraphState } from '@/core/types';
+import { SimRequest } from '../models';
+import { MetricsHistorySeries } from '../history';
+import { ChaosEvent, FaultSpec } from '../chaos';
+import { CapacityReport, CapacitySweepOptions } from '../capacity';
+import { ComparisonOptions, ComparisonReport, GraphVariant } from '../compare';
+import { CompactSnapshot, WorkerCommand, WorkerEvent } from './protocol';
+
+interface PendingQuery {
+  resolve: (value: never) => void;
+  reject: (error: Error) => void;
+}
+
+export class SimulationWorkerClient {
+  private worker: Worker;
+  private nextRequestId: number = 1;
+  private pending: Map<number, PendingQuery> = new Map();
+
+  /** `onError` hears about failed controls; failed queries reject instead. */
+  constructor(onSnapshot: (snapshot: CompactSnapshot) => void, onError?: (message: string) => void) {
+    this.worker = new Worker(new URL('./simulation.worker.ts', import.meta.url));
+    this.worker.onmessage = (e: MessageEvent<WorkerEvent>) => {
+      const event = e.data;
+      switch (event.type) {
+        case 'snapshot':
+          onSnapshot(event.snapshot);
+          break;
+        case 'traces':
+          this.resolve(event.requestId, event.traces);
+          break;
+        case 'history':
+          this.resolve(event.requestId, event.history);
+          break;
+        case 'chaosScenario':
+          this.resolve(event.requestId, event.events);
+          break;
+        case 'capacity':
+        case 'comparison':
+          this.resolve(event.requestId, event.report);
+          break;
+        case 'error':
+          if (event.requestId !== undefined) this.reject(event.requestId, new Error(event.message));
+          else onError?.(event.message);
+          break;
+      }
+    };
+    // The worker itself failed (e.g. its script didn't load): nothing pending will be answered
+    this.worker.onerror = (e: ErrorEvent) => {
+      this.rejectAll(new Error(`Simulation worker failed: ${e.message}`));
+      onError?.(e.message);
+    };
+  }
+
+  private send(command: WorkerCommand) {
+    this.worker.postMessage(command);
+  }
+
+  private request<T>(build: (requestId: number) => WorkerCommand): Promise<T> {
+    const requestId = this.nextRequestId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(requestId, { resolve: resolve as (value: never) => void, reject });
+      this.send(build(requestId));
+    });
+  }
+
+  private resolve(requestId: number, value: unknown) {
+    const query = this.pending.get(requestId);
+    this.pending.delete(requestId);
+    query?.resolve(value as never);
+  }
+
+  private reject(requestId: number, error: Error) {
+    const query = this.pending.get(requestId);
+    this.pending.delete(requestId);
+    query?.reject(error);
+  }
+
+  private rejectAll(error: Error) {
+    const queries = [...this.pending.values()];
+    this.pending.clear();
+    queries.forEach((query) => query.reject(error));
+  }
+
+  // -------------------------------------------------------------------------
+  // Controls
+  // -------------------------------------------------------------------------
+
+  init(graph: GraphState, options: { seed?: number; tickMs?: number; chaos?: ChaosEvent[] } = {}) {
+    this.send({ type: 'init', graph, ...options });
+  }
+
+  /** Runs live at `speed` × real time. */
+  start(speed: number = 1) {
+    this.send({ type: 'start', speed });
+  }
+
+  setSpeed(speed: number) {
+    this.send({ type: 'setSpeed', speed });
+  }
+
+  pause() {
+    this.send({ type: 'pause' });
+  }
+
+  step() {
+    this.send({ type: 'step' });
+  }
+
+  reset() {
+    this.send({ type: 'reset' });
+  }
+
+  updateGraph(graph: GraphState) {
+    this.send({ type: 'updateGraph', graph });
+  }
+
+  setChaosScenario(events: ChaosEvent[]) {
+    this.send({ type: 'setChaosScenario', events });
+  }
+
+  /** Injects a fault, by default from the next tick. */
+  scheduleFault(fault: FaultSpec) {
+    this.send({ type: 'scheduleFault', fault });
+  }
+
+  clearFaults(targetId?: string) {
+    this.send({ type: 'clearFaults', targetId });
+  }
+
+  // -------------------------------------------------------------------------
+  // Queries
+  // -------------------------------------------------------------------------
+
+  getOutlierTraces(percentile: number, limit?: number): Promise<SimRequest[]> {
+    return this.request((requestId) => ({ type: 'getTraces', requestId, percentile, limit }));
+  }
+
+  getHistory(): Promise<MetricsHistorySeries> {
+    return this.request((requestId) => ({ type: 'getHistory', requestId }));
+  }
+
+  /** The scheduled faults, including those injected with scheduleFault. */
+  getChaosScenario(): Promise<ChaosEvent[]> {
+    return this.request((requestId) => ({ type: 'getChaosScenario', requestId }));
+  }
+
+  /** Stress-tests `graph` for the highest client load that meets the objectives. */
+  findCapacity(graph: GraphState, options: CapacitySweepOptions = {}): Promise<CapacityReport> {
+    return this.request((requestId) => ({ type: 'findCapacity', requestId, graph, options }));
+  }
+
+  /** Runs each variant under the same seed and reports them side by side. */
+  compareVariants(variants: GraphVariant[], options: ComparisonOptions = {}): Promise<ComparisonReport> {
+    return this.request((requestId) => ({ type: 'compareVariants', requestId, variants, options }));
+  }
+
+  /** Stops the worker and rejects unanswered queries; the client can't be used afterwards. */
+  terminate() {
+    this.worker.terminate();
+    this.rejectAll(new Error('Simulation worker terminated'));
+  }
+}
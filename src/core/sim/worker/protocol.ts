@@ -0,0 +1,67 @@
+// =============================================================================
+// Atlas Learn - Simulation Worker Protocol
+// =============================================================================
+// Messages exchanged between the page and the worker that owns the
+// SimulationEngine. Everything here must survive structured cloning.
+// =============================================================================
+
+import { GraphState } from '@/core/types';
+import { SimulationSnapshot } from '../engine';
+import { SimRequest } from '../models';
+import { MetricsHistorySeries } from '../history';
+import { ChaosEvent, FaultSpec } from '../chaos';
+import { CapacityReport, CapacitySweepOptions } from '../capacity';
+import { ComparisonOptions, ComparisonReport, GraphVariant } from '../compare';
+
+/**
+ * What the page needs to render a tick. Leaves out `nodeStates`, whose
+ * queues hold every in-flight request and would be costly to copy.
+ */
+export type CompactSnapshot = Omit<SimulationSnapshot, 'nodeStates'>;
+
+export function toCompactSnapshot(snapshot: SimulationSnapshot): CompactSnapshot {
+  return {
+    tick: snapshot.tick,
+    tickMs: snapshot.tickMs,
+    seed: snapshot.seed,
+    metrics: snapshot.metrics,
+    nodeMetrics: snapshot.nodeMetrics,
+    cost: snapshot.cost,
+    faults: snapshot.faults,
+    openBreakers: snapshot.openBreakers,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Page → Worker
+// -----------------------------------------------------------------------------
+
+export type WorkerCommand =
+  | { type: 'init'; graph: GraphState; seed?: number; tickMs?: number; chaos?: ChaosEvent[] }
+  | { type: 'start'; speed: number }
+  | { type: 'setSpeed'; speed: number }
+  | { type: 'pause' }
+  | { type: 'step' }
+  | { type: 'reset' }
+  | { type: 'updateGraph'; graph: GraphState }
+  | { type: 'setChaosScenario'; events: ChaosEvent[] }
+  | { type: 'scheduleFault'; fault: FaultSpec }
+  | { type: 'clearFaults'; targetId?: string }
+  | { type: 'getTraces'; requestId: number; percentile: number; limit?: number }
+  | { type: 'getHistory'; requestId: number }
+  | { type: 'getChaosScenario'; requestId: number }
+  | { type: 'findCapacity'; requestId: number; graph: GraphState; options: CapacitySweepOptions }
+  | { type: 'compareVariants'; requestId: number; variants: GraphVariant[]; options: ComparisonOptions };
+
+// -----------------------------------------------------------------------------
+// Worker → Page
+// -----------------------------------------------------------------------------
+
+export type WorkerEvent =
+  | { type: 'snapshot'; snapshot: CompactSnapshot }
+  | { type: 'traces'; requestId: number; traces: SimRequest[] }
+  | { type: 'history'; requestId: number; history: MetricsHistorySeries }
+  | { type: 'chaosScenario'; requestId: number; events: ChaosEvent[] }
+  | { type: 'capacity'; requestId: number; report: CapacityReport }
+  | { type: 'comparison'; requestId: number; report: ComparisonReport }
+  | { type: 'error'; requestId?: number; message: string }; // requestId when a query failed
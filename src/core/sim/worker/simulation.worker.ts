@@ -0,0 +1,95 @@
+// =============================================================================
+// Atlas Learn - Simulation Worker
+// =============================================================================
+// Owns the SimulationEngine off the UI thread and streams compact snapshots
+// back to the page. See protocol.ts for the message shapes.
+// =============================================================================
+
+import { SimulationEngine } from '../engine';
+import { findMaxRps } from '../capacity';
+import { compareVariants } from '../compare';
+import { WorkerCommand, WorkerEvent, toCompactSnapshot } from './protocol';
+
+const ctx = self as unknown as Worker;
+let engine: SimulationEngine | null = null;
+
+function post(event: WorkerEvent) {
+  ctx.postMessage(event);
+}
+
+function requireEngine(): SimulationEngine {
+  if (!engine) throw new Error('Simulation worker received a command before init');
+  return engine;
+}
+
+ctx.onmessage = (e: MessageEvent<WorkerCommand>) => {
+  const command = e.data;
+  try {
+    switch (command.type) {
+      case 'init':
+        engine?.pause();
+        engine = new SimulationEngine(command.graph, { seed: command.seed, tickMs: command.tickMs, chaos: command.chaos });
+        break;
+
+      case 'start':
+        requireEngine().start((snapshot) => post({ type: 'snapshot', snapshot: toCompactSnapshot(snapshot) }), command.speed);
+        break;
+
+      case 'setSpeed':
+        requireEngine().setSpeed(command.speed);
+        break;
+
+      case 'pause':
+        engine?.pause();
+        break;
+
+      case 'step':
+        post({ type: 'snapshot', snapshot: toCompactSnapshot(requireEngine().step()) });
+        break;
+
+      case 'reset':
+        engine?.reset();
+        break;
+
+      case 'updateGraph':
+        requireEngine().updateGraph(command.graph);
+        break;
+
+      case 'setChaosScenario':
+        requireEngine().setChaosScenario(command.events);
+        break;
+
+      case 'scheduleFault':
+        requireEngine().scheduleFault(command.fault);
+        break;
+
+      case 'clearFaults':
+        requireEngine().clearFaults(command.targetId);
+        break;
+
+      case 'getTraces':
+        post({ type: 'traces', requestId: command.requestId, traces: engine?.getOutlierTraces(command.percentile, command.limit) ?? [] });
+        break;
+
+      case 'getHistory':
+        post({ type: 'history', requestId: command.requestId, history: engine?.getHistory() ?? { global: [], nodes: new Map() } });
+        break;
+
+      case 'getChaosScenario':
+        post({ type: 'chaosScenario', requestId: command.requestId, events: engine?.getChaosScenario() ?? [] });
+        break;
+
+      // These run their own engines, so the live run is untouched (if held up meanwhile)
+      case 'findCapacity':
+        post({ type: 'capacity', requestId: command.requestId, report: findMaxRps(command.graph, command.options) });
+        break;
+
+      case 'compareVariants':
+        post({ type: 'comparison', requestId: command.requestId, report: compareVariants(command.variants, command.options) });
+        break;
+    }
+  } catch (err) {
+    const requestId = 'requestId' in command ? command.requestId : undefined;
+    post({ type: 'error', requestId, message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -1,7 +1,16 @@
 import { TestSuite } from '../types';
 import { assert, assertEqual } from '../runner';
 import { SimulationEngine } from '../../sim/engine';
-import { GraphState } from '../../types';
+import { LatencySketch } from '../../sim/sketch';
+import { RingBuffer } from '../../sim/history';
+import { analyzeRun } from '../../sim/analyzer';
+import { toCompactSnapshot } from '../../sim/worker/protocol';
+import { sampleServiceTime } from '../../sim/distributions';
+import { createRng } from '../../sim/random';
+import { RateLimiter } from '../../sim/rateLimit';
+import { findMaxRps } from '../../sim/capacity';
+import { compareVariants, sweepVariants } from '../../sim/compare';
+import { GraphState, EdgeData, ServiceTimeDistribution, RateLimiterConfig, RateLimitAlgorithm } from '../../types';
 
 export const simulationSuite: TestSuite = {
   name: 'Simulation Engine',
@@ -61,6 +70,1108 @@ export const simulationSuite: TestSuite = {
             // Throughput should be around 10.
             assert(apiMetrics!.throughput > 0, 'Should have throughput > 0');
         }
+    },
+    {
+        name: 'Spike profile raises client load during the spike',
+        fn: () => {
+            const graph: GraphState = {
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 100, burstMultiplier: 3, trafficShape: 'SPIKE', periodMs: 1000, spikeDurationMs: 500 } }
+                ],
+                edges: [],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            };
+            const engine = new SimulationEngine(graph, { seed: 1 });
+
+            // First half of each second is baseline, second half is the spike
+            const baseline = engine.step().nodeMetrics.get('c1')!.throughput;
+            for (let i = 0; i < 5; i++) engine.step();
+            const spike = engine.getSnapshot().nodeMetrics.get('c1')!.throughput;
+
+            assertEqual(baseline, 10, 'Baseline should emit 10 requests per tick');
+            assertEqual(spike, 30, 'Spike should emit 30 requests per tick');
+        }
+    },
+    {
+        name: 'Completed requests record their hop path',
+        fn: () => {
+            const graph: GraphState = {
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 100, burstMultiplier: 1 } },
+                    { id: 'api1', type: 'API', position: { x: 100, y: 0 }, label: 'API', config: { capacity: 200, baseLatency: 10, errorRate: 0 } },
+                    { id: 'db1', type: 'DATABASE', position: { x: 200, y: 0 }, label: 'DB', config: { capacity: 50, baseLatency: 40, maxConnections: 50 } }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'api1' },
+                    { id: 'e2', sourceId: 'api1', targetId: 'db1' }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            };
+            const engine = new SimulationEngine(graph, { seed: 7 });
+            for (let i = 0; i < 20; i++) engine.step();
+
+            const [slowest] = engine.getOutlierTraces(100, 1);
+            assert(slowest, 'Should have a completed request');
+            assertEqual(slowest.hops.map((h) => h.nodeId).join('>'), 'api1>db1', 'Hops should follow the graph');
+
+            const traced = slowest.hops.reduce((sum, h) => sum + h.queueTime + h.serviceTime, 0);
+            assert(Math.abs(traced - slowest.latency) < 1e-6, 'Hop times should add up to the request latency');
+        }
+    },
+    {
+        name: 'Weighted edges split traffic by weight',
+        fn: () => {
+            const graph: GraphState = {
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 400, burstMultiplier: 1 } },
+                    { id: 'lb1', type: 'LOAD_BALANCER', position: { x: 100, y: 0 }, label: 'LB', config: { capacity: 1000, baseLatency: 2, algorithm: 'ROUND_ROBIN', healthCheckIntervalMs: 5000 } },
+                    { id: 'a1', type: 'API', position: { x: 200, y: 0 }, label: 'A', config: { capacity: 1000, baseLatency: 10, errorRate: 0 } },
+                    { id: 'a2', type: 'API', position: { x: 200, y: 100 }, label: 'B', config: { capacity: 1000, baseLatency: 10, errorRate: 0 } }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'lb1' },
+                    { id: 'e2', sourceId: 'lb1', targetId: 'a1', weight: 3 },
+                    { id: 'e3', sourceId: 'lb1', targetId: 'a2', weight: 1 }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            };
+            const engine = new SimulationEngine(graph, { seed: 3 });
+            const snap = engine.step();
+
+            assertEqual(snap.nodeMetrics.get('a1')!.throughput, 30, 'Weight 3 edge should carry 3/4 of traffic');
+            assertEqual(snap.nodeMetrics.get('a2')!.throughput, 10, 'Weight 1 edge should carry 1/4 of traffic');
+        }
+    },
+    {
+        name: 'Round robin splits fractional weights and IP hash keeps a client on one backend',
+        fn: () => {
+            const build = (algorithm: 'ROUND_ROBIN' | 'IP_HASH'): GraphState => ({
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 400, burstMultiplier: 1 } },
+                    { id: 'lb1', type: 'LOAD_BALANCER', position: { x: 100, y: 0 }, label: 'LB', config: { capacity: 1000, baseLatency: 2, algorithm, healthCheckIntervalMs: 5000 } },
+                    { id: 'a1', type: 'API', position: { x: 200, y: 0 }, label: 'A', config: { capacity: 1000, baseLatency: 10, errorRate: 0 } },
+                    { id: 'a2', type: 'API', position: { x: 200, y: 100 }, label: 'B', config: { capacity: 1000, baseLatency: 10, errorRate: 0 } }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'lb1' },
+                    { id: 'e2', sourceId: 'lb1', targetId: 'a1', weight: 0.75 },
+                    { id: 'e3', sourceId: 'lb1', targetId: 'a2', weight: 0.25 }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            });
+
+            const roundRobin = new SimulationEngine(build('ROUND_ROBIN'), { seed: 3 }).step();
+            assertEqual(roundRobin.nodeMetrics.get('a1')!.throughput, 30, 'Weight 0.75 should carry 3/4 of traffic');
+            assertEqual(roundRobin.nodeMetrics.get('a2')!.throughput, 10, 'Weight 0.25 should carry 1/4 of traffic');
+
+            const hashed = new SimulationEngine(build('IP_HASH'), { seed: 3 }).runFor(10);
+            const served = ['a1', 'a2'].map((id) => hashed.nodeMetrics.get(id)!.run.arrivals);
+            assert(served.includes(0) && served.includes(400), `One client should stick to one backend, got ${served.join('/')}`);
+        }
+    },
+    {
+        name: 'Broadcast fan-out completes each request once',
+        fn: () => {
+            const graph: GraphState = {
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 100, burstMultiplier: 1 } },
+                    { id: 'api1', type: 'API', position: { x: 100, y: 0 }, label: 'API', config: { capacity: 1000, baseLatency: 10, errorRate: 0 } },
+                    { id: 'auth1', type: 'API', position: { x: 200, y: 0 }, label: 'Auth', config: { capacity: 1000, baseLatency: 20, errorRate: 0 } },
+                    { id: 'db1', type: 'DATABASE', position: { x: 200, y: 100 }, label: 'DB', config: { capacity: 1000, baseLatency: 50, maxConnections: 50 } }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'api1' },
+                    { id: 'e2', sourceId: 'api1', targetId: 'auth1', mode: 'BROADCAST' },
+                    { id: 'e3', sourceId: 'api1', targetId: 'db1', mode: 'BROADCAST' }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            };
+            const engine = new SimulationEngine(graph, { seed: 5 });
+            for (let i = 0; i < 10; i++) engine.step();
+            const snap = engine.getSnapshot();
+
+            assertEqual(snap.nodeMetrics.get('auth1')!.throughput, 10, 'Auth should see every request');
+            assertEqual(snap.nodeMetrics.get('db1')!.throughput, 10, 'DB should see every request');
+            // 10 ticks × 10 requests, each fanned out to two branches
+            assertEqual(snap.metrics.completedRequests, 100, 'Each request should be counted once');
+            assertEqual(snap.metrics.p50Latency, 60, 'Joined latency should follow the slowest branch');
+        }
+    },
+    {
+        name: 'Removing a node mid-flight still joins the fan-out it was a branch of',
+        fn: () => {
+            const build = (rps: number, withDb: boolean): GraphState => ({
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps, burstMultiplier: 1 } },
+                    { id: 'api1', type: 'API', position: { x: 100, y: 0 }, label: 'API', config: { capacity: 1000, baseLatency: 10, errorRate: 0 } },
+                    { id: 'auth1', type: 'API', position: { x: 200, y: 0 }, label: 'Auth', config: { capacity: 1000, baseLatency: 20, errorRate: 0 } },
+                    ...(withDb ? [{ id: 'db1', type: 'DATABASE' as const, position: { x: 200, y: 100 }, label: 'DB', config: { capacity: 20, baseLatency: 50, maxConnections: 50 } }] : [])
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'api1' },
+                    { id: 'e2', sourceId: 'api1', targetId: 'auth1', mode: 'BROADCAST', callMode: 'SYNC' },
+                    ...(withDb ? [{ id: 'e3', sourceId: 'api1', targetId: 'db1', mode: 'BROADCAST' as const, callMode: 'SYNC' as const }] : [])
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            });
+            const engine = new SimulationEngine(build(100, true), { seed: 5 });
+            const before = engine.runFor(10);
+            assert(before.nodeMetrics.get('db1')!.queueDepth > 0, 'The slow database should hold branches when removed');
+
+            // Remove the database and stop the load; everything sent must resolve
+            engine.updateGraph(build(0, false));
+            const after = engine.runFor(20);
+            assertEqual(after.nodeMetrics.get('api1')!.inFlight, 0, 'The caller should hear back on every call');
+            assertEqual(after.metrics.totalRequests, 100, 'Requests whose branch was stranded should still complete');
+        }
+    },
+    {
+        name: 'Round robin drops credit for edges that are down or deleted',
+        fn: () => {
+            const build = (backends: string[]): GraphState => ({
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 70, burstMultiplier: 1 } },
+                    { id: 'api1', type: 'API', position: { x: 100, y: 0 }, label: 'API', config: { capacity: 1000, baseLatency: 1, errorRate: 0 } },
+                    ...backends.map((id, i) => ({ id, type: 'API' as const, position: { x: 200, y: i * 100 }, label: id, config: { capacity: 1000, baseLatency: 10, errorRate: 0 } }))
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'api1' },
+                    ...backends.map((id) => ({ id: `to-${id}`, sourceId: 'api1', targetId: id }))
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            });
+            const engine = new SimulationEngine(build(['a1', 'a2', 'a3']), {
+                seed: 1,
+                chaos: [{ id: 'kill-a3', kind: 'KILL', targetId: 'a3', atTick: 3 }]
+            });
+            const creditedEdges = () => Object.keys(engine.getSnapshot().nodeStates.get('api1')!.roundRobinCredit ?? {}).sort().join(',');
+
+            engine.runFor(2);
+            assertEqual(creditedEdges(), 'to-a1,to-a2,to-a3', 'Every backend should earn credit while up');
+            // Past failover detection, the dead backend is routed around
+            engine.runFor(150);
+            assertEqual(creditedEdges(), 'to-a1,to-a2', 'A backend routed around should lose its credit');
+            engine.updateGraph(build(['a1']));
+            engine.runFor(2);
+            assertEqual(creditedEdges(), 'to-a1', 'Deleted edges should lose their credit');
+        }
+    },
+    {
+        name: 'Sync calls back-pressure a slow database into the caller',
+        fn: () => {
+            const buildGraph = (callMode: 'SYNC' | 'ASYNC'): GraphState => ({
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 150, burstMultiplier: 1 } },
+                    { id: 'api1', type: 'API', position: { x: 100, y: 0 }, label: 'API', config: { capacity: 200, baseLatency: 10, errorRate: 0, maxConcurrency: 20 } },
+                    { id: 'db1', type: 'DATABASE', position: { x: 200, y: 0 }, label: 'DB', config: { capacity: 80, baseLatency: 50, maxConnections: 50 } }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'api1' },
+                    { id: 'e2', sourceId: 'api1', targetId: 'db1', callMode }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            });
+
+            const sync = new SimulationEngine(buildGraph('SYNC'), { seed: 1 });
+            const async = new SimulationEngine(buildGraph('ASYNC'), { seed: 1 });
+            for (let i = 0; i < 30; i++) {
+                sync.step();
+                async.step();
+            }
+
+            const syncApi = sync.getSnapshot().nodeMetrics.get('api1')!;
+            const asyncApi = async.getSnapshot().nodeMetrics.get('api1')!;
+            assert(syncApi.inFlight <= 20, 'Open calls should respect maxConcurrency');
+            assert(syncApi.queueDepth > 0, 'Sync caller should queue behind the slow database');
+            assertEqual(asyncApi.queueDepth, 0, 'Async caller should not wait on the database');
+        }
+    },
+    {
+        name: 'Open sync calls are only capped by an explicit concurrency limit',
+        fn: () => {
+            const build = (maxConcurrency?: number): GraphState => ({
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 20, burstMultiplier: 1 } },
+                    { id: 'api1', type: 'API', position: { x: 100, y: 0 }, label: 'API', config: { capacity: 20, baseLatency: 10, errorRate: 0, maxConcurrency } },
+                    { id: 'db1', type: 'DATABASE', position: { x: 200, y: 0 }, label: 'DB', config: { capacity: 5, baseLatency: 50, maxConnections: 1000 } }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'api1' },
+                    { id: 'e2', sourceId: 'api1', targetId: 'db1', callMode: 'SYNC' }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            });
+
+            // 20 rps against a 5 rps callee leaves ever more calls open
+            const unlimited = new SimulationEngine(build(), { seed: 1 }).runFor(30).nodeMetrics.get('api1')!;
+            const limited = new SimulationEngine(build(10), { seed: 1 }).runFor(30).nodeMetrics.get('api1')!;
+            assert(unlimited.inFlight > 20, `An rps capacity should not cap open calls, got ${unlimited.inFlight}`);
+            assertEqual(unlimited.queueDepth, 0, 'Without a limit nothing should wait for a slot');
+            assert(limited.inFlight <= 10, 'An explicit limit should cap open calls');
+            assert(limited.queueDepth > 0, 'Work past the limit should queue');
+        }
+    },
+    {
+        name: 'A sync caller is answered once the callee hands off asynchronously',
+        fn: () => {
+            const engine = new SimulationEngine({
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 100, burstMultiplier: 1 } },
+                    { id: 'api1', type: 'API', position: { x: 100, y: 0 }, label: 'API', config: { capacity: 1000, baseLatency: 5, errorRate: 0, maxConcurrency: 20 } },
+                    { id: 'svc1', type: 'API', position: { x: 200, y: 0 }, label: 'Service', config: { capacity: 1000, baseLatency: 5, errorRate: 0 } },
+                    { id: 'q1', type: 'QUEUE', position: { x: 300, y: 0 }, label: 'Queue', config: { maxSize: 100000, dropPolicy: 'REJECT_NEW' } },
+                    { id: 'w1', type: 'WORKER', position: { x: 400, y: 0 }, label: 'Worker', config: { capacity: 20, baseLatency: 100, concurrency: 1 } }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'api1' },
+                    { id: 'e2', sourceId: 'api1', targetId: 'svc1', callMode: 'SYNC' },
+                    { id: 'e3', sourceId: 'svc1', targetId: 'q1' },
+                    { id: 'e4', sourceId: 'q1', targetId: 'w1' }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            }, { seed: 1 });
+
+            const snap = engine.runFor(50);
+            const api = snap.nodeMetrics.get('api1')!;
+            assertEqual(api.inFlight, 0, 'The slot should free when the service enqueues, not when the worker finishes');
+            assertEqual(api.queueDepth, 0, 'The caller should not back up behind the worker');
+            assert(snap.nodeMetrics.get('q1')!.queueDepth > 100, 'The backlog should build in the queue instead');
+        }
+    },
+    {
+        name: 'A sync call into a fan-out holds the caller\'s slot until every branch returns',
+        fn: () => {
+            const engine = new SimulationEngine({
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 100, burstMultiplier: 1 } },
+                    { id: 'api1', type: 'API', position: { x: 100, y: 0 }, label: 'API', config: { capacity: 1000, baseLatency: 5, errorRate: 0, maxConcurrency: 20 } },
+                    { id: 'svc1', type: 'API', position: { x: 200, y: 0 }, label: 'Service', config: { capacity: 1000, baseLatency: 5, errorRate: 0 } },
+                    { id: 'db1', type: 'DATABASE', position: { x: 300, y: 0 }, label: 'Slow DB', config: { capacity: 20, baseLatency: 10, maxConnections: 1000 } },
+                    { id: 'db2', type: 'DATABASE', position: { x: 300, y: 100 }, label: 'Fast DB', config: { capacity: 1000, baseLatency: 10, maxConnections: 1000 } }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'api1' },
+                    { id: 'e2', sourceId: 'api1', targetId: 'svc1', callMode: 'SYNC' },
+                    { id: 'e3', sourceId: 'svc1', targetId: 'db1', mode: 'BROADCAST', callMode: 'SYNC' },
+                    { id: 'e4', sourceId: 'svc1', targetId: 'db2', mode: 'BROADCAST', callMode: 'SYNC' }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            }, { seed: 1 });
+
+            const snap = engine.runFor(50);
+            const api = snap.nodeMetrics.get('api1')!;
+            assert(api.inFlight > 10 && api.inFlight <= 20, `The caller should hold its slots while the slow branch lags, got ${api.inFlight}`);
+            assert(api.queueDepth > 0, 'The caller should queue behind the slow branch');
+            assert(snap.nodeMetrics.get('db1')!.queueDepth <= 20, 'The slow branch should only see what the caller lets through');
+        }
+    },
+    {
+        name: 'Latency sketch tracks tail percentiles within 1%',
+        fn: () => {
+            const sketch = new LatencySketch();
+            for (let ms = 1; ms <= 10000; ms++) sketch.add(ms);
+
+            const within = (actual: number, expected: number) => Math.abs(actual - expected) / expected <= 0.01;
+            assert(within(sketch.quantile(50), 5000), `p50 should be ~5000, got ${sketch.quantile(50)}`);
+            assert(within(sketch.quantile(99), 9900), `p99 should be ~9900, got ${sketch.quantile(99)}`);
+            assert(within(sketch.quantile(99.9), 9990), `p99.9 should be ~9990, got ${sketch.quantile(99.9)}`);
+            assertEqual(sketch.quantile(100), 10000, 'Max should be exact');
+
+            const histogram = sketch.histogram(20);
+            assertEqual(histogram.length, 20, 'Histogram should have the requested bucket count');
+            assertEqual(histogram.reduce((sum, b) => sum + b.count, 0), 10000, 'Histogram should account for every sample');
+        }
+    },
+    {
+        name: 'History samples once per second, globally and per node',
+        fn: () => {
+            const graph: GraphState = {
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 100, burstMultiplier: 1 } },
+                    { id: 'api1', type: 'API', position: { x: 100, y: 0 }, label: 'API', config: { capacity: 500, baseLatency: 10, errorRate: 0 } }
+                ],
+                edges: [{ id: 'e1', sourceId: 'c1', targetId: 'api1' }],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            };
+            const engine = new SimulationEngine(graph, { seed: 1 });
+            for (let i = 0; i < 35; i++) engine.step();
+
+            const history = engine.getHistory();
+            assertEqual(history.global.length, 3, '35 ticks should yield 3 one-second samples');
+            assertEqual(history.global[1].tick, 20, 'Samples should close at the end of each second');
+            assertEqual(history.global[1].throughput, 100, 'Steady state should complete 100 RPS');
+            assertEqual(history.nodes.get('api1')?.length, 3, 'Each node should have its own series');
+
+            const ring = new RingBuffer<number>(3);
+            [1, 2, 3, 4, 5].forEach((n) => ring.push(n));
+            assertEqual(ring.toArray().join(','), '3,4,5', 'Ring buffer should keep only the newest samples');
+        }
+    },
+    {
+        name: 'Per-node metrics break down arrivals, timing and latency share',
+        fn: () => {
+            const graph: GraphState = {
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 100, burstMultiplier: 1 } },
+                    { id: 'api1', type: 'API', position: { x: 100, y: 0 }, label: 'API', config: { capacity: 500, baseLatency: 10, errorRate: 0 } },
+                    { id: 'db1', type: 'DATABASE', position: { x: 200, y: 0 }, label: 'DB', config: { capacity: 500, baseLatency: 30, maxConnections: 50 } }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'api1' },
+                    { id: 'e2', sourceId: 'api1', targetId: 'db1' }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            };
+            const engine = new SimulationEngine(graph, { seed: 1 });
+            for (let i = 0; i < 20; i++) engine.step();
+
+            const snap = engine.getSnapshot();
+            const api = snap.nodeMetrics.get('api1')!.run;
+            const db = snap.nodeMetrics.get('db1')!.run;
+            assertEqual(snap.nodeMetrics.get('c1')!.run.arrivals, 200, 'Client arrivals should be generated requests');
+            assertEqual(api.arrivals, 200, 'API should see every client request');
+            assertEqual(api.completions, 200, 'API should pass every request on');
+            assertEqual(api.avgServiceTime, 10, 'API service time should match its base latency');
+            assertEqual(db.avgServiceTime, 30, 'DB service time should match its base latency');
+            assertEqual(db.latencyShare, 0.75, 'DB should account for 30 of every 40ms');
+        }
+    },
+    {
+        name: 'Analyzer flags an undersized SQL pool and a cache behind the database',
+        fn: () => {
+            const graph: GraphState = {
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 200, burstMultiplier: 1 } },
+                    { id: 'sql1', type: 'SQL_DATABASE', position: { x: 100, y: 0 }, label: 'Postgres', config: { capacity: 1000, baseLatency: 20, maxConnections: 100, poolSize: 5, engine: 'POSTGRES' } },
+                    { id: 'cache1', type: 'REDIS_CACHE', position: { x: 200, y: 0 }, label: 'Redis', config: { capacity: 5000, baseLatency: 1, hitRate: 0.8, ttl: 60, maxMemoryMB: 256, evictionPolicy: 'LRU' } }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'sql1' },
+                    { id: 'e2', sourceId: 'sql1', targetId: 'cache1' }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            };
+            const engine = new SimulationEngine(graph, { seed: 1 });
+            for (let i = 0; i < 30; i++) engine.step();
+
+            const ids = analyzeRun(graph, engine.getSnapshot()).map((f) => f.id);
+            assert(ids.includes('sql1:sql-pool'), `Pool cap should be reported, got ${ids.join(', ')}`);
+            assert(!ids.includes('sql1:unbounded-queue'), 'Pool cap should not also be reported as a generic backlog');
+            assert(ids.includes('cache1:cache-after-db'), 'Cache after database should be reported');
+        }
+    },
+    {
+        name: 'Headless runs stop once the system reaches steady state',
+        fn: () => {
+            const graph: GraphState = {
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 100, burstMultiplier: 1 } },
+                    { id: 'api1', type: 'API', position: { x: 100, y: 0 }, label: 'API', config: { capacity: 500, baseLatency: 10, errorRate: 0 } }
+                ],
+                edges: [{ id: 'e1', sourceId: 'c1', targetId: 'api1' }],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            };
+
+            const fixed = new SimulationEngine(graph, { seed: 1 }).runFor(50);
+            assertEqual(fixed.ticksRun, 50, 'runFor should run exactly the requested ticks');
+            assertEqual(fixed.metrics.completedRequests, 500, 'runFor should report the final metrics');
+
+            const steady = new SimulationEngine(graph, { seed: 1 }).runUntilSteady(0.05, { windowSeconds: 3, maxTicks: 600 });
+            assert(steady.steady, 'A constant load should settle');
+            assert(steady.ticksRun < 600, `Run should stop early, ran ${steady.ticksRun} ticks`);
+            assertEqual(steady.steadyAtTick, steady.tick, 'Run should stop at the tick it settled');
+        }
+    },
+    {
+        name: 'Worker snapshots drop node queues and survive structured cloning',
+        fn: () => {
+            const graph: GraphState = {
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 100, burstMultiplier: 1 } },
+                    { id: 'api1', type: 'API', position: { x: 100, y: 0 }, label: 'API', config: { capacity: 50, baseLatency: 10, errorRate: 0 } }
+                ],
+                edges: [{ id: 'e1', sourceId: 'c1', targetId: 'api1' }],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            };
+            const engine = new SimulationEngine(graph, { seed: 1 });
+            for (let i = 0; i < 9; i++) engine.step();
+
+            const compact = structuredClone(toCompactSnapshot(engine.step()));
+            assert(!('nodeStates' in compact), 'Compact snapshot should not carry node queues');
+            assertEqual(compact.tick, 10, 'Tick should survive cloning');
+            assert(compact.nodeMetrics.get('api1')!.queueDepth > 0, 'Node metrics should survive cloning');
+        }
+    },
+    {
+        name: 'Rates hold regardless of simulated tick length',
+        fn: () => {
+            const graph: GraphState = {
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 100, burstMultiplier: 1 } },
+                    { id: 'api1', type: 'API', position: { x: 100, y: 0 }, label: 'API', config: { capacity: 55, baseLatency: 10, errorRate: 0 } }
+                ],
+                edges: [{ id: 'e1', sourceId: 'c1', targetId: 'api1' }],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            };
+
+            // 10 simulated seconds each way
+            const coarse = new SimulationEngine(graph, { seed: 1, tickMs: 100 }).runFor(100);
+            const fine = new SimulationEngine(graph, { seed: 1, tickMs: 10 }).runFor(1000);
+            assertEqual(coarse.metrics.completedRequests, 550, 'Capacity should be honoured at 100ms ticks');
+            assertEqual(fine.metrics.completedRequests, 550, 'Capacity should be honoured at 10ms ticks');
+            assertEqual(fine.metrics.throughput, 55, 'Throughput should be per simulated second');
+        }
+    },
+    {
+        name: 'Chaos events kill a node and partition a link on schedule',
+        fn: () => {
+            const graph: GraphState = {
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 100, burstMultiplier: 1 } },
+                    { id: 'api1', type: 'API', position: { x: 100, y: 0 }, label: 'API', config: { capacity: 200, baseLatency: 10, errorRate: 0 } },
+                    { id: 'db1', type: 'DATABASE', position: { x: 200, y: 0 }, label: 'DB', config: { capacity: 200, baseLatency: 20, maxConnections: 50 } }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'api1' },
+                    { id: 'e2', sourceId: 'api1', targetId: 'db1' }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            };
+
+            const engine = new SimulationEngine(graph, {
+                seed: 1,
+                chaos: [
+                    { id: 'kill-db', kind: 'KILL', targetId: 'db1', atTick: 11, durationTicks: 10 },
+                    { id: 'cut-e1', kind: 'PARTITION', targetId: 'e1', atTick: 31, durationTicks: 10 }
+                ]
+            });
+
+            const healthy = engine.runFor(10);
+            assertEqual(healthy.metrics.erroredRequests, 0, 'No errors before the first fault');
+
+            engine.runFor(5);
+            assert(engine.getSnapshot().faults.down.includes('db1'), 'Database should be reported down');
+            engine.runFor(15);
+            const afterKill = engine.getSnapshot();
+            assertEqual(afterKill.faults.down.length, 0, 'Kill should lift after its duration');
+            assert(afterKill.metrics.erroredRequests > 0, 'Requests reaching a downed node should fail');
+            assert(afterKill.nodeMetrics.get('db1')!.run.errors > 0, 'Failures should be charged to the downed node');
+
+            const erroredBefore = afterKill.metrics.erroredRequests;
+            engine.runFor(5);
+            const partitioned = engine.getSnapshot();
+            assert(partitioned.faults.partitioned.includes('e1'), 'Link should be reported partitioned');
+            assertEqual(partitioned.nodeMetrics.get('api1')!.throughput, 0, 'Nothing should cross a partitioned link');
+            assert(partitioned.metrics.erroredRequests > erroredBefore, 'Requests sent over a cut link should fail');
+        }
+    },
+    {
+        name: 'Edge retries, timeouts and circuit breakers shape the caller\'s view',
+        fn: () => {
+            const buildGraph = (edge: Partial<EdgeData>, errorRate: number, dbLatency: number): GraphState => ({
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 100, burstMultiplier: 1 } },
+                    { id: 'api1', type: 'API', position: { x: 100, y: 0 }, label: 'API', config: { capacity: 1000, baseLatency: 10, errorRate } },
+                    { id: 'db1', type: 'DATABASE', position: { x: 200, y: 0 }, label: 'DB', config: { capacity: 1000, baseLatency: dbLatency, maxConnections: 50 } }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'api1', ...edge },
+                    { id: 'e2', sourceId: 'api1', targetId: 'db1' }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            });
+
+            // Two retries turn a 50% failure rate into roughly 12.5%, at the cost of extra calls
+            const retried = new SimulationEngine(
+                buildGraph({ retry: { maxRetries: 2, backoffMs: 100, jitter: 0.5 } }, 0.5, 10),
+                { seed: 1 }
+            ).runFor(200).metrics;
+            assert(retried.retries > 0, 'Failed calls should be retried');
+            assert(retried.retryAmplification > 1.5, `Retries should amplify load, got ${retried.retryAmplification.toFixed(2)}x`);
+            assert(retried.errorRate < 0.2, `Retries should hide most failures, got ${(retried.errorRate * 100).toFixed(1)}%`);
+
+            const timedOut = new SimulationEngine(buildGraph({ timeoutMs: 100 }, 0, 500), { seed: 1 }).runFor(50).metrics;
+            assert(timedOut.timedOutCalls > 0, 'Slow calls should time out');
+            assertEqual(timedOut.completedRequests, 0, 'Every call is slower than the timeout');
+
+            const breakerEngine = new SimulationEngine(
+                buildGraph({ circuitBreaker: { failureThreshold: 5, openMs: 1000 } }, 1, 10),
+                { seed: 1 }
+            );
+            const broken = breakerEngine.runFor(100);
+            assertEqual(breakerEngine.getSnapshot().openBreakers.join(','), 'e1', 'The snapshot should report the tripped edge');
+            const apiArrivals = broken.nodeMetrics.get('api1')!.run.arrivals;
+            assert(apiArrivals < broken.metrics.totalRequests / 2, 'An open breaker should fast-fail most calls');
+            assertEqual(broken.metrics.errorRate, 1, 'Fast-failed calls count as errors');
+        }
+    },
+    {
+        name: 'Calls time out at their deadline and retries pile onto the slow callee',
+        fn: () => {
+            const engine = new SimulationEngine({
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 100, burstMultiplier: 1 } },
+                    { id: 'api1', type: 'API', position: { x: 100, y: 0 }, label: 'API', config: { capacity: 1000, baseLatency: 5, errorRate: 0, maxConcurrency: 100 } },
+                    { id: 'db1', type: 'DATABASE', position: { x: 200, y: 0 }, label: 'DB', config: { capacity: 60, baseLatency: 50, maxConnections: 1000 } }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'api1' },
+                    { id: 'e2', sourceId: 'api1', targetId: 'db1', callMode: 'SYNC', timeoutMs: 200, retry: { maxRetries: 2, backoffMs: 50, jitter: 0 } }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            }, { seed: 1 });
+
+            const snap = engine.runFor(100);
+            const dbArrivals = snap.nodeMetrics.get('db1')!.run.arrivals;
+            assert(snap.metrics.timedOutCalls > 0, 'Calls stuck behind the backlog should time out');
+            assert(snap.metrics.retryAmplification > 2, `Timeouts should be retried, got ${snap.metrics.retryAmplification.toFixed(2)}x`);
+            assert(dbArrivals > snap.metrics.totalRequests * 2, `Orphaned originals and their retries should both reach the database, got ${dbArrivals} for ${snap.metrics.totalRequests} requests`);
+            assert(snap.nodeMetrics.get('api1')!.inFlight < 100, 'Timed-out calls should free the caller\'s slots');
+            // 1000 requests sent; all but the last 700ms (three attempts and two backoffs) are answered
+            assert(snap.metrics.totalRequests > 850, `Callers should hear back by the deadline, not when the backlog clears, got ${snap.metrics.totalRequests}`);
+        }
+    },
+    {
+        name: 'Service-time distributions spread p95 away from p50',
+        fn: () => {
+            const buildGraph = (serviceTime: ServiceTimeDistribution): GraphState => ({
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 100, burstMultiplier: 1 } },
+                    { id: 'api1', type: 'API', position: { x: 100, y: 0 }, label: 'API', config: { capacity: 1000, baseLatency: 20, errorRate: 0, serviceTime } }
+                ],
+                edges: [{ id: 'e1', sourceId: 'c1', targetId: 'api1' }],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            });
+
+            const constant = new SimulationEngine(buildGraph('CONSTANT'), { seed: 1 }).runFor(100).metrics;
+            const exponential = new SimulationEngine(buildGraph('EXPONENTIAL'), { seed: 1 }).runFor(100).metrics;
+            assert(constant.p95Latency < constant.p50Latency * 1.05, 'Constant service time should have no spread');
+            assert(exponential.p95Latency > exponential.p50Latency * 3, 'Exponential service time should have a long tail');
+
+            const rng = createRng(7);
+            let sum = 0;
+            for (let i = 0; i < 20000; i++) sum += sampleServiceTime({ serviceTime: 'LOG_NORMAL', serviceTimeSigma: 1 }, 20, rng);
+            assert(Math.abs(sum / 20000 - 20) < 1, `Log-normal mean should match baseLatency, got ${(sum / 20000).toFixed(2)}`);
+        }
+    },
+    {
+        name: 'Autoscaler adds replicas after the provisioning delay',
+        fn: () => {
+            const graph: GraphState = {
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 200, burstMultiplier: 1 } },
+                    {
+                        id: 'api1', type: 'API', position: { x: 100, y: 0 }, label: 'API',
+                        config: {
+                            capacity: 50, baseLatency: 10, errorRate: 0,
+                            autoscaling: { minReplicas: 1, maxReplicas: 10, targetUtilization: 0.7, cooldownTicks: 10, provisioningTicks: 20 }
+                        }
+                    }
+                ],
+                edges: [{ id: 'e1', sourceId: 'c1', targetId: 'api1' }],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            };
+
+            const engine = new SimulationEngine(graph, { seed: 1 });
+            const early = engine.runFor(15).nodeMetrics.get('api1')!;
+            assertEqual(early.replicas, 1, 'New replicas should still be provisioning');
+            assert(early.provisioningReplicas > 0, 'Overload should request replicas');
+
+            const late = engine.runFor(285).nodeMetrics.get('api1')!;
+            assert(late.replicas >= 5 && late.replicas <= 10, `Should settle near 200 / (50 × 0.7) replicas, got ${late.replicas}`);
+            assert(late.utilization < 0.9, 'Scaled-out node should have headroom');
+
+            const series = engine.getHistory().nodes.get('api1')!;
+            assert(series[series.length - 1].replicas > series[0].replicas, 'History should record the replica count');
+        }
+    },
+    {
+        name: 'Keyspace caches earn their hit rate from real entries',
+        fn: () => {
+            const build = (cache: Record<string, unknown>): GraphState => ({
+                nodes: [
+                    {
+                        id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client',
+                        config: { rps: 200, burstMultiplier: 1, keyDistribution: 'ZIPF', keyspaceSize: 1000, zipfSkew: 1 }
+                    },
+                    {
+                        id: 'cache1', type: 'CACHE', position: { x: 100, y: 0 }, label: 'Cache',
+                        // hitRate 0 would mean no hits at all without the keyspace model
+                        config: { capacity: 1000, baseLatency: 1, hitRate: 0, ttl: 300, keyspaceModel: true, ...cache }
+                    },
+                    { id: 'db1', type: 'DATABASE', position: { x: 200, y: 0 }, label: 'DB', config: { capacity: 1000, baseLatency: 20, maxConnections: 50 } }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'cache1' },
+                    { id: 'e2', sourceId: 'cache1', targetId: 'db1' }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            });
+            const hitRate = (engine: SimulationEngine) => {
+                const stats = engine.getSnapshot().nodeMetrics.get('cache1')!.cache!;
+                return stats.hits / (stats.hits + stats.misses);
+            };
+
+            const roomy = new SimulationEngine(build({}), { seed: 1 });
+            roomy.runFor(1);
+            const cold = roomy.getSnapshot().nodeMetrics.get('cache1')!.cache!;
+            assertEqual(cold.hits, 0, 'A cold cache has nothing to hit until misses come back');
+            assert(cold.herdMisses > 0, 'Hot keys should miss again while their first fetch is in flight');
+            roomy.runFor(299);
+            assert(hitRate(roomy) > 0.7, `A working set that fits should mostly hit, got ${hitRate(roomy).toFixed(2)}`);
+
+            // 64 MB of 1 MB entries holds only 64 of the 1000 keys
+            const cramped = new SimulationEngine(build({ maxMemoryMB: 64, entrySizeKB: 1024 }), { seed: 1 });
+            cramped.runFor(300);
+            const stats = cramped.getSnapshot().nodeMetrics.get('cache1')!.cache!;
+            assertEqual(stats.entries, 64, 'Entries should stay within the memory cap');
+            assert(stats.evictions > 0, 'A full cache should evict');
+            assert(hitRate(cramped) < hitRate(roomy), 'A working set that does not fit should hit less');
+
+            const shortTtl = new SimulationEngine(build({ ttl: 1 }), { seed: 1 });
+            shortTtl.runFor(100);
+            assert(shortTtl.getSnapshot().nodeMetrics.get('cache1')!.cache!.expirations > 0, 'Entries should expire after their TTL');
+        }
+    },
+    {
+        name: 'Writes pass through caches and are timed separately',
+        fn: () => {
+            const graph: GraphState = {
+                nodes: [
+                    {
+                        id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client',
+                        config: { rps: 100, burstMultiplier: 1, writeRatio: 0.3, keyDistribution: 'UNIFORM', keyspaceSize: 20 }
+                    },
+                    {
+                        id: 'cache1', type: 'CACHE', position: { x: 100, y: 0 }, label: 'Cache',
+                        config: { capacity: 1000, baseLatency: 2, hitRate: 1, ttl: 300, keyspaceModel: true }
+                    },
+                    {
+                        id: 'db1', type: 'DATABASE', position: { x: 200, y: 0 }, label: 'DB',
+                        config: { capacity: 1000, baseLatency: 10, writeLatency: 60, maxConnections: 50 }
+                    }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'cache1' },
+                    { id: 'e2', sourceId: 'cache1', targetId: 'db1' }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            };
+
+            const report = new SimulationEngine(graph, { seed: 1 }).runFor(200);
+            const { READ, WRITE } = report.metrics.byOperation;
+            assertEqual(READ.completed + WRITE.completed, report.metrics.completedRequests, 'Every success should count under one operation');
+            assert(WRITE.completed / report.metrics.completedRequests > 0.2, 'About 30% of requests should be writes');
+            assert(WRITE.p50Latency >= 60, `Writes should all reach the DB at writeLatency, got p50 ${WRITE.p50Latency.toFixed(1)}`);
+            assert(READ.p50Latency < 10, 'Most reads of a 20-key keyspace should hit the cache');
+
+            const cache = report.nodeMetrics.get('cache1')!.cache!;
+            assert(cache.invalidations > 0, 'Writes should invalidate cached keys');
+            assert(cache.misses > 20, 'Invalidated keys should miss again on the next read');
+        }
+    },
+    {
+        name: 'Read replicas spread reads, lag behind writes and cap connections',
+        fn: () => {
+            const build = (db: GraphState['nodes'][number]): GraphState => ({
+                nodes: [
+                    {
+                        id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client',
+                        config: { rps: 300, burstMultiplier: 1, writeRatio: 0.2, keyDistribution: 'UNIFORM', keyspaceSize: 50 }
+                    },
+                    db
+                ],
+                edges: [{ id: 'e1', sourceId: 'c1', targetId: 'db1' }],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            });
+
+            // 300 RPS would swamp a 200 RPS primary; three replicas, each also
+            // applying the 60 writes/s, take the 240 reads/s between them
+            const replicated = new SimulationEngine(build({
+                id: 'db1', type: 'SQL_DATABASE', position: { x: 100, y: 0 }, label: 'Postgres',
+                config: { capacity: 200, baseLatency: 10, maxConnections: 500, poolSize: 20, readReplicas: 3, replicationLagMs: 500, engine: 'POSTGRES' }
+            }), { seed: 1 });
+            const report = replicated.runFor(200);
+            const db = report.nodeMetrics.get('db1')!;
+            assertEqual(db.database!.readReplicas, 3, 'Read replicas should be reported');
+            assert(db.database!.replicationLagMs >= 500, 'Lag should include the configured delay');
+            assert(db.database!.staleReads > 0, 'Reads right after a write to the same key should be stale');
+            assert(report.metrics.byOperation.READ.p95Latency < 50, 'Reads should not queue behind the primary');
+            assertEqual(db.database!.rejectedConnections, 0, 'No connections should run out');
+
+            // Without replicas the same load piles up until connections run out
+            const single = new SimulationEngine(build({
+                id: 'db1', type: 'NOSQL_DATABASE', position: { x: 100, y: 0 }, label: 'Mongo',
+                config: { capacity: 100, baseLatency: 10, maxConnections: 20, replicaCount: 1, engine: 'MONGODB' }
+            }), { seed: 1 }).runFor(100);
+            const limited = single.nodeMetrics.get('db1')!;
+            assert(limited.database!.rejectedConnections > 0, 'Arrivals beyond maxConnections should be refused');
+            assert(limited.queueDepth <= 20, `Queue should stay within maxConnections, got ${limited.queueDepth}`);
+            assert(single.metrics.errorRate > 0.3, 'Refused requests should count as errors');
+        }
+    },
+    {
+        name: 'Consumers pull from queues and hot keys make hot partitions',
+        fn: () => {
+            const queued: GraphState = {
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 200, burstMultiplier: 1 } },
+                    { id: 'q1', type: 'QUEUE', position: { x: 100, y: 0 }, label: 'Queue', config: { maxSize: 100000, dropPolicy: 'REJECT_NEW' } },
+                    { id: 'w1', type: 'WORKER', position: { x: 200, y: 0 }, label: 'Worker', config: { capacity: 50, baseLatency: 10, concurrency: 1 } }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'q1' },
+                    { id: 'e2', sourceId: 'q1', targetId: 'w1' }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            };
+            const pulled = new SimulationEngine(queued, { seed: 1 }).runFor(100).nodeMetrics;
+            assert(pulled.get('w1')!.queueDepth <= 10, 'The worker should only hold what it pulled');
+            const lag = pulled.get('q1')!.consumerLag!;
+            assert(lag.messages > 1000, `The backlog should wait in the queue, got ${lag.messages}`);
+            assert(lag.ms > 5000, 'The oldest message should have waited most of the run');
+
+            // With nothing consuming it, a queue ends the graph and keeps draining
+            const leaf = new SimulationEngine({ ...queued, nodes: queued.nodes.slice(0, 2), edges: queued.edges.slice(0, 1) }, { seed: 1 }).runFor(100);
+            assertEqual(leaf.metrics.droppedRequests, 0, 'A leaf queue should not fill up and drop');
+            assert(leaf.metrics.completedRequests > 1900, `A leaf queue should complete what it drains, got ${leaf.metrics.completedRequests}`);
+            assert(leaf.nodeMetrics.get('q1')!.queueDepth <= 20, 'A leaf queue should not build a backlog');
+
+            const streamed: GraphState = {
+                nodes: [
+                    {
+                        id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client',
+                        config: { rps: 200, burstMultiplier: 1, keyDistribution: 'ZIPF', keyspaceSize: 100, zipfSkew: 1.5 }
+                    },
+                    {
+                        id: 's1', type: 'STREAM_PROCESSOR', position: { x: 100, y: 0 }, label: 'Stream',
+                        config: { capacity: 60, baseLatency: 5, partitions: 4, consumerGroup: 'default' }
+                    }
+                ],
+                edges: [{ id: 'e1', sourceId: 'c1', targetId: 's1' }],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            };
+            const engine = new SimulationEngine(streamed, { seed: 1 });
+            engine.runFor(100);
+            const partitions = engine.getSnapshot().nodeMetrics.get('s1')!.consumerLag!.partitions!;
+            assertEqual(partitions.length, 4, 'Lag should be reported per partition');
+            assert(partitions[0] > 10 * Math.max(partitions[1], partitions[2], partitions[3], 1), `Key 0's partition should lag, got ${partitions.join('/')}`);
+            const ids = analyzeRun(streamed, engine.getSnapshot()).map((f) => f.id);
+            assert(ids.includes('s1:partition-skew'), `Skew should be reported, got ${ids.join(', ')}`);
+        }
+    },
+    {
+        name: 'Analytics sinks flush on buffer size or interval',
+        fn: () => {
+            const build = (bufferSize: number): GraphState => ({
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 100, burstMultiplier: 1 } },
+                    {
+                        id: 'sink1', type: 'ANALYTICS_SINK', position: { x: 100, y: 0 }, label: 'Sink',
+                        config: { capacity: 1000, baseLatency: 5, flushIntervalMs: 2000, bufferSize }
+                    }
+                ],
+                edges: [{ id: 'e1', sourceId: 'c1', targetId: 'sink1' }],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            });
+
+            // 100 events/s never fill a 1000-event buffer, so the 2s timer flushes
+            const timed = new SimulationEngine(build(1000), { seed: 1 });
+            const early = timed.runFor(19);
+            assertEqual(early.metrics.completedRequests, 0, 'Nothing should leave before the first flush');
+            assertEqual(early.nodeMetrics.get('sink1')!.consumerLag!.messages, 190, 'Events should wait in the buffer');
+            const flushed = timed.runFor(1);
+            assertEqual(flushed.metrics.completedRequests, 200, 'The interval flush should write the whole buffer');
+            assert(flushed.metrics.p50Latency > 900, 'Buffered events should carry their wait');
+
+            // A 50-event buffer fills every half second
+            const sized = new SimulationEngine(build(50), { seed: 1 }).runFor(19);
+            assert(sized.metrics.completedRequests >= 150, 'Full buffers should flush before the interval');
+            assert(sized.metrics.p95Latency < 600, 'Size-triggered flushes should keep waits short');
+        }
+    },
+    {
+        name: 'Rate limiters throttle by algorithm and key',
+        fn: () => {
+            const build = (limiter: Partial<RateLimiterConfig>, clients: number = 1): GraphState => ({
+                nodes: [
+                    ...Array.from({ length: clients }, (_, i) => ({
+                        id: `c${i}`, type: 'CLIENT' as const, position: { x: 0, y: i * 100 }, label: 'Client', config: { rps: 100, burstMultiplier: 1 }
+                    })),
+                    {
+                        id: 'rl1', type: 'RATE_LIMITER', position: { x: 100, y: 0 }, label: 'Limiter',
+                        config: { maxRequests: 50, windowMs: 1000, capacity: 1000, baseLatency: 1, ...limiter }
+                    }
+                ],
+                edges: Array.from({ length: clients }, (_, i) => ({ id: `e${i}`, sourceId: `c${i}`, targetId: 'rl1' })),
+                selectedNodeId: null,
+                selectedEdgeId: null
+            });
+
+            // 100 RPS against 50 per second for 10s
+            const bucket = new SimulationEngine(build({ algorithm: 'TOKEN_BUCKET' }), { seed: 1 }).runFor(100);
+            assert(bucket.metrics.completedRequests >= 500 && bucket.metrics.completedRequests <= 560, `Bucket should pass its burst plus the refill rate, got ${bucket.metrics.completedRequests}`);
+            assertEqual(bucket.metrics.throttledRequests + bucket.metrics.completedRequests, 1000, 'Every refusal should count as throttled');
+            assertEqual(bucket.metrics.droppedRequests, 0, 'Throttling is not a drop');
+            assertEqual(bucket.nodeMetrics.get('rl1')!.run.throttled, bucket.metrics.throttledRequests, 'The limiter should own the throttles');
+
+            const perClient = new SimulationEngine(build({ algorithm: 'FIXED_WINDOW', keyBy: 'CLIENT' }, 2), { seed: 1 }).runFor(100);
+            const global = new SimulationEngine(build({ algorithm: 'FIXED_WINDOW' }, 2), { seed: 1 }).runFor(100);
+            assert(perClient.metrics.completedRequests > 1.8 * global.metrics.completedRequests, 'Per-client limits should admit each client separately');
+
+            // A fixed window lets a burst through either side of the boundary; a sliding one does not
+            const config = { maxRequests: 10, windowMs: 1000, capacity: 1000, baseLatency: 1 };
+            const admitted = (algorithm: RateLimitAlgorithm) => {
+                const limiter = new RateLimiter();
+                let passed = 0;
+                for (const nowMs of [900, 1000]) {
+                    for (let i = 0; i < 10; i++) if (limiter.allow('global', nowMs, { ...config, algorithm })) passed++;
+                }
+                return passed;
+            };
+            assertEqual(admitted('FIXED_WINDOW'), 20, 'Fixed windows reset at the boundary');
+            assertEqual(admitted('SLIDING_WINDOW'), 10, 'Sliding windows still count the previous window');
+
+            // The default 100 per minute used to round down to zero per tick and drop everything
+            const defaults = new SimulationEngine(build({ maxRequests: 100, windowMs: 60000 }), { seed: 1 }).runFor(10);
+            assertEqual(defaults.metrics.completedRequests, 100, 'A full bucket should pass the first 100 requests');
+        }
+    },
+    {
+        name: 'Cost model prices instances, memory and requests',
+        fn: () => {
+            const graph: GraphState = {
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 100, burstMultiplier: 1 } },
+                    { id: 'gw1', type: 'API_GATEWAY', position: { x: 100, y: 0 }, label: 'Gateway', config: { capacity: 1000, baseLatency: 1, authEnabled: false, rateLimitEnabled: false, corsEnabled: false, errorRate: 0 } },
+                    { id: 'cache1', type: 'REDIS_CACHE', position: { x: 200, y: 0 }, label: 'Redis', config: { capacity: 1000, baseLatency: 1, hitRate: 0, ttl: 60, maxMemoryMB: 1024, evictionPolicy: 'LRU' } },
+                    { id: 'db1', type: 'SQL_DATABASE', position: { x: 300, y: 0 }, label: 'Postgres', config: { capacity: 1000, baseLatency: 5, maxConnections: 100, poolSize: 5, readReplicas: 2, engine: 'POSTGRES' } }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'gw1' },
+                    { id: 'e2', sourceId: 'gw1', targetId: 'cache1' },
+                    { id: 'e3', sourceId: 'cache1', targetId: 'db1' }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            };
+
+            const report = new SimulationEngine(graph, { seed: 1 }).runFor(100);
+            const monthly = (id: string) => report.nodeMetrics.get(id)!.monthlyCost;
+            const close = (a: number, b: number) => Math.abs(a - b) < 0.01;
+
+            // 100 RPS for a 730-hour month is 262.8M requests at $3.50 per million
+            assert(close(monthly('gw1'), 919.8), `Gateway should bill per request, got ${monthly('gw1')}`);
+            assert(close(monthly('cache1'), 9.125), `Cache should bill per GB of memory, got ${monthly('cache1')}`);
+            assert(close(monthly('db1'), 3 * 0.068 * 730), `Primary and replicas should each bill, got ${monthly('db1')}`);
+            assertEqual(monthly('c1'), 0, 'Clients are free');
+            assert(close(report.cost.monthly, monthly('gw1') + monthly('cache1') + monthly('db1')), 'The total should sum the nodes');
+
+            // 10 simulated seconds of the monthly bill, spread over what succeeded
+            const runCost = (report.cost.monthly * 10) / (730 * 3600);
+            assert(close(report.cost.per1kRequests, (runCost / report.metrics.completedRequests) * 1000), 'Cost per 1k should follow successful requests');
+        }
+    },
+    {
+        name: 'Capacity sweep finds the max sustainable RPS and the saturating node',
+        fn: () => {
+            const graph: GraphState = {
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 100, burstMultiplier: 1 } },
+                    { id: 'api1', type: 'API', position: { x: 100, y: 0 }, label: 'API', config: { capacity: 500, baseLatency: 10, errorRate: 0 } },
+                    { id: 'db1', type: 'DATABASE', position: { x: 200, y: 0 }, label: 'DB', config: { capacity: 200, baseLatency: 20, maxConnections: 1000 } }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'api1' },
+                    { id: 'e2', sourceId: 'api1', targetId: 'db1' }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            };
+
+            const report = findMaxRps(graph, { durationMs: 10000 });
+            assert(report.maxRps >= 190 && report.maxRps <= 200, `The database caps load at 200 RPS, got ${report.maxRps}`);
+            assertEqual(report.limitedBy?.nodeId, 'db1', 'The database should saturate first');
+            assert(!report.ceilingReached, 'The search should find a failing load');
+            assert(report.steps.every((s) => s.bottleneck?.nodeId === 'db1'), 'Every step should name its most loaded node');
+            assert(report.steps.some((s) => !s.passed && s.bottleneck!.load > 1), 'Failing steps should be past capacity');
+
+            // Already over the target: search downward
+            const strict = findMaxRps(graph, { durationMs: 10000, objectives: [{ metric: 'p95', operator: '<', value: 10 }] });
+            assertEqual(strict.maxRps, 0, 'No load meets a p95 below the service time');
+
+            // Throttled requests never reach latency or error rate, but still aren't served
+            const limited = findMaxRps({
+                ...graph,
+                nodes: [
+                    graph.nodes[0],
+                    { id: 'rl1', type: 'RATE_LIMITER', position: { x: 50, y: 0 }, label: 'Limiter', config: { maxRequests: 50, windowMs: 1000, capacity: 1000, baseLatency: 1 } },
+                    graph.nodes[1]
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'rl1' },
+                    { id: 'e2', sourceId: 'rl1', targetId: 'api1' }
+                ]
+            }, { durationMs: 10000 });
+            assert(limited.maxRps >= 45 && limited.maxRps <= 60, `The limiter caps load near 50 RPS, got ${limited.maxRps}`);
+            assert(!limited.ceilingReached, 'Throttling should fail a step');
+            assertEqual(limited.limitedBy?.nodeId, 'rl1', 'The limiter should be named as the limit');
+        }
+    },
+    {
+        name: 'Variant comparison holds traffic fixed while sweeping a config field',
+        fn: () => {
+            const graph: GraphState = {
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 200, burstMultiplier: 1, trafficShape: 'POISSON' } },
+                    { id: 'cache1', type: 'REDIS_CACHE', position: { x: 100, y: 0 }, label: 'Redis', config: { capacity: 5000, baseLatency: 1, hitRate: 0.5, ttl: 60, maxMemoryMB: 256, evictionPolicy: 'LRU' } },
+                    { id: 'db1', type: 'DATABASE', position: { x: 200, y: 0 }, label: 'DB', config: { capacity: 5000, baseLatency: 40, maxConnections: 5000 } }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'cache1' },
+                    { id: 'e2', sourceId: 'cache1', targetId: 'db1' }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            };
+
+            const variants = sweepVariants(graph, { nodeId: 'cache1', field: 'hitRate', from: 0.5, to: 0.99, steps: 3 });
+            assertEqual(variants.length, 3, 'A sweep should make one variant per step');
+            assertEqual((variants[2].graph.nodes[1].config as { hitRate: number }).hitRate, 0.99, 'The last step should hit the upper bound');
+            assertEqual((graph.nodes[1].config as { hitRate: number }).hitRate, 0.5, 'Sweeping should not touch the original graph');
+
+            const counts = sweepVariants(graph, { nodeId: 'db1', field: 'maxConnections', from: 1, to: 4, steps: 5 });
+            assertEqual(counts.map((v) => (v.graph.nodes[2].config as { maxConnections: number }).maxConnections).join(','), '1,2,3,4', 'Count fields should sweep whole numbers only');
+
+            const report = compareVariants(variants, { seed: 7, durationMs: 10000 });
+            const [low, , high] = report.results;
+            assertEqual(low.metrics.totalRequests, high.metrics.totalRequests, 'Every variant should receive the same seeded traffic');
+            assert(high.metrics.p50Latency < low.metrics.p50Latency, 'A better hit rate should cut median latency');
+            assertEqual(low.history.length, 10, 'Each variant should keep a per-second history for the chart');
+        }
+    },
+    {
+        name: 'Cross-region hops pay network latency and a region outage fails over',
+        fn: () => {
+            // Reads from Europe to a database in us-east-1, with its replica at home or near the users
+            const buildGraph = (replicaRegion?: string): GraphState => ({
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 100, burstMultiplier: 1, region: 'eu-west-1' } },
+                    { id: 'api1', type: 'API', position: { x: 100, y: 0 }, label: 'API', config: { capacity: 1000, baseLatency: 10, errorRate: 0, region: 'eu-west-1' } },
+                    { id: 'db1', type: 'SQL_DATABASE', position: { x: 200, y: 0 }, label: 'DB', config: { capacity: 1000, baseLatency: 20, maxConnections: 500, poolSize: 100, engine: 'POSTGRES', readReplicas: 1, region: 'us-east-1', replicaRegion } }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'api1' },
+                    { id: 'e2', sourceId: 'api1', targetId: 'db1', callMode: 'SYNC' }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            });
+
+            const remote = new SimulationEngine(buildGraph(), { seed: 1 });
+            const far = remote.runFor(50).metrics;
+            const near = new SimulationEngine(buildGraph('eu-west-1'), { seed: 1 }).runFor(50).metrics;
+            assertEqual(far.p50Latency - near.p50Latency, 70, 'A sync call to another region should pay the round trip');
+            const [trace] = remote.getOutlierTraces(50, 1);
+            assertEqual(trace.hops.find((h) => h.nodeId === 'db1')!.networkTime, 70, 'The trace should charge the network time to the database hop');
+
+            // A 150ms link delivers the call a tick later; the answer's trip back is paid once it returns
+            const slowLink = buildGraph('eu-west-1');
+            slowLink.edges[1] = { ...slowLink.edges[1], network: { latencyMs: 150 } };
+            const slow = new SimulationEngine(slowLink, { seed: 1 });
+            slow.runFor(20);
+            const [api, db] = slow.getOutlierTraces(50, 1)[0].hops;
+            assertEqual(db.enqueueTick - api.enqueueTick, 1, 'The call should arrive after the one-way latency');
+            assertEqual(db.networkTime, 300, 'The trip back should be charged to the database hop once it answers');
+
+            // A load balancer in Europe with a standby backend that only takes traffic on failover
+            const failover = new SimulationEngine({
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 100, burstMultiplier: 1, region: 'eu-west-1' } },
+                    { id: 'lb1', type: 'LOAD_BALANCER', position: { x: 100, y: 0 }, label: 'LB', config: { capacity: 1000, baseLatency: 2, algorithm: 'ROUND_ROBIN', healthCheckIntervalMs: 2000, region: 'eu-west-1' } },
+                    { id: 'us1', type: 'API', position: { x: 200, y: 0 }, label: 'API (US)', config: { capacity: 1000, baseLatency: 10, errorRate: 0, region: 'us-east-1' } },
+                    { id: 'eu1', type: 'API', position: { x: 200, y: 100 }, label: 'API (EU)', config: { capacity: 1000, baseLatency: 10, errorRate: 0, region: 'eu-west-1' } }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'lb1' },
+                    { id: 'e2', sourceId: 'lb1', targetId: 'us1' },
+                    { id: 'e3', sourceId: 'lb1', targetId: 'eu1', weight: 0 }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            }, { seed: 1, chaos: [{ id: 'us-out', kind: 'REGION_OUTAGE', targetId: 'us-east-1', atTick: 11 }] });
+
+            const before = failover.runFor(10);
+            assertEqual(before.metrics.erroredRequests, 0, 'No errors before the outage');
+            assertEqual(before.nodeMetrics.get('eu1')!.run.completions, 0, 'The standby should sit idle while the primary is up');
+
+            failover.runFor(25);
+            const detected = failover.getSnapshot();
+            assert(detected.faults.down.includes('us1'), 'Nodes in the region should be reported down');
+            assert(!detected.faults.down.includes('eu1'), 'Nodes elsewhere should stay up');
+            assert(detected.metrics.erroredRequests > 0, 'Requests should fail until the health check notices');
+
+            const recovered = failover.runFor(20);
+            assertEqual(recovered.metrics.erroredRequests, detected.metrics.erroredRequests, 'No errors once traffic has failed over');
+            assert(recovered.nodeMetrics.get('eu1')!.run.completions > 0, 'The standby region should take over the traffic');
+        }
+    },
+    {
+        name: 'Same seed replays identical snapshots',
+        fn: () => {
+            const graph: GraphState = {
+                nodes: [
+                    { id: 'c1', type: 'CLIENT', position: { x: 0, y: 0 }, label: 'Client', config: { rps: 200, burstMultiplier: 1 } },
+                    { id: 'api1', type: 'API', position: { x: 100, y: 0 }, label: 'API', config: { capacity: 200, baseLatency: 10, errorRate: 0.1 } },
+                    { id: 'cache1', type: 'CACHE', position: { x: 200, y: 0 }, label: 'Cache', config: { capacity: 500, baseLatency: 5, hitRate: 0.5, ttl: 300 } },
+                    { id: 'db1', type: 'DATABASE', position: { x: 300, y: 0 }, label: 'DB', config: { capacity: 80, baseLatency: 50, maxConnections: 50 } }
+                ],
+                edges: [
+                    { id: 'e1', sourceId: 'c1', targetId: 'api1' },
+                    { id: 'e2', sourceId: 'api1', targetId: 'cache1' },
+                    { id: 'e3', sourceId: 'cache1', targetId: 'db1' }
+                ],
+                selectedNodeId: null,
+                selectedEdgeId: null
+            };
+            const a = new SimulationEngine(graph, { seed: 42 });
+            const b = new SimulationEngine(graph, { seed: 42 });
+
+            for (let i = 0; i < 50; i++) {
+                const snapA = a.step();
+                const snapB = b.step();
+                assertEqual(JSON.stringify(snapB.metrics), JSON.stringify(snapA.metrics), `Metrics diverged at tick ${snapA.tick}`);
+            }
+            assertEqual(a.getSnapshot().seed, 42, 'Snapshot should report the seed');
+        }
     }
   ]
 };
@@ -23,7 +23,12 @@ export interface EvaluationResult {
 // -----------------------------------------------------------------------------
 
 export function evaluateLevel(level: TutorialLevel, metrics: Metrics): EvaluationResult {
-  const objectiveResults = level.objectives.map((objective) => {
+  return evaluateObjectives(level.objectives, metrics);
+}
+
+/** Checks metrics against a set of objectives; passes only if all of them hold. */
+export function evaluateObjectives(objectives: LevelObjective[], metrics: Metrics): EvaluationResult {
+  const objectiveResults = objectives.map((objective) => {
     const currentValue = getMetricValue(metrics, objective.metric);
     const passed = checkObjective(objective, currentValue);
     return { objective, currentValue, passed };
@@ -83,9 +83,9 @@ When utilization approaches 100%, queue times grow exponentially. This is why yo
 
 const level2Graph: GraphState = {
   nodes: [
-    createNode('client1', 'CLIENT', 150, 200, 'Users', { rps: 300, burstMultiplier: 1 }),
+    createNode('client1', 'CLIENT', 150, 200, 'Users', { rps: 300, burstMultiplier: 1, writeRatio: 0.1 }),
     createNode('api1', 'API', 400, 200, 'API Server', { capacity: 400, baseLatency: 10, errorRate: 0.01 }),
-    createNode('db1', 'DATABASE', 650, 200, 'Database', { capacity: 100, baseLatency: 50, maxConnections: 50 }),
+    createNode('db1', 'DATABASE', 650, 200, 'Database', { capacity: 100, baseLatency: 50, maxConnections: 50, writeLatency: 80 }),
   ],
   edges: [
     createEdge('e1', 'client1', 'api1'),
@@ -101,7 +101,7 @@ const level2: TutorialLevel = {
   description: 'Use caching to handle a read-heavy workload.',
   scenario: `Your product is growing! Traffic increased to 300 RPS.
 
-Most requests are reads (product listings, user profiles). These are perfect candidates for caching.
+Most requests are reads (product listings, user profiles). These are perfect candidates for caching. The other 10% are writes (orders, profile edits), which always have to reach the database.
 
 **Your Goal:** Support 300 RPS with p95 latency under 200ms.`,
   starterGraph: level2Graph,
@@ -129,7 +129,7 @@ Going from 90% → 95% hit rate = 2x reduction
 
 **Watch out for:**
 - Cache invalidation (stale data)
-- Write-heavy workloads (cache doesn't help writes)
+- Write-heavy workloads: writes pass through the cache to the database and invalidate the cached copy, so a cache only ever relieves the read share of the load
 - Cold start (empty cache on restart)`,
 };
 
@@ -139,7 +139,13 @@ Going from 90% → 95% hit rate = 2x reduction
 
 const level3Graph: GraphState = {
   nodes: [
-    createNode('client1', 'CLIENT', 150, 200, 'Users', { rps: 100, burstMultiplier: 3 }),
+    createNode('client1', 'CLIENT', 150, 200, 'Users', {
+      rps: 100,
+      burstMultiplier: 3,
+      trafficShape: 'SPIKE',
+      periodMs: 10000,
+      spikeDurationMs: 3000,
+    }),
     createNode('api1', 'API', 400, 200, 'API Server', { capacity: 200, baseLatency: 10, errorRate: 0.01 }),
     createNode('db1', 'DATABASE', 650, 200, 'Database', { capacity: 100, baseLatency: 100, maxConnections: 50 }),
   ],
@@ -155,7 +161,7 @@ const level3: TutorialLevel = {
   id: 'level-3-async',
   title: 'Bursts & Async Processing',
   description: 'Handle traffic spikes without dropping requests.',
-  scenario: `You just launched a marketing campaign. Traffic is spiking 3x normal!
+  scenario: `You just launched a marketing campaign. Every 10 seconds a wave of users arrives and traffic spikes to 3x normal for 3 seconds!
 
 Your current synchronous architecture can't handle the burst. Users are seeing errors.
 
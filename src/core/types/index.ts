@@ -74,19 +74,83 @@ export interface Position {
 // Node Configuration Interfaces
 // -----------------------------------------------------------------------------
 
+/** Shape of a node's per-request service time around its baseLatency. */
+export type ServiceTimeDistribution = 'CONSTANT' | 'EXPONENTIAL' | 'LOG_NORMAL' | 'BIMODAL';
+
+export interface ServiceTimeConfig {
+  serviceTime?: ServiceTimeDistribution; // defaults to CONSTANT (always baseLatency)
+  serviceTimeSigma?: number; // LOG_NORMAL: spread of ln(service time) (default 0.5)
+  slowPathRate?: number; // BIMODAL: share of requests hitting a pause (default 0.05)
+  slowPathMultiplier?: number; // BIMODAL: a paused request takes baseLatency × this (default 10)
+}
+
+/**
+ * Adds or removes replicas during a run to hold `targetUtilization`. Each
+ * replica brings the node's full configured capacity.
+ */
+export interface AutoscalingPolicy {
+  minReplicas: number;
+  maxReplicas: number;
+  targetUtilization: number; // 0-1
+  cooldownTicks: number; // minimum ticks between scaling actions
+  provisioningTicks: number; // a new replica serves traffic this many ticks after it is requested
+}
+
+/** Node types that run as interchangeable replicas and honour `autoscaling`. */
+export const SCALABLE_NODE_TYPES: NodeType[] = [
+  'REST_API',
+  'GRAPHQL_API',
+  'AUTH_SERVICE',
+  'API',
+  'WORKER',
+  'STREAM_PROCESSOR',
+  'CUSTOM_LOGIC',
+];
+
+/**
+ * Where a node runs. Nodes without a region share the default one, and
+ * nodes in one region without a zone share one zone.
+ */
+export interface Placement {
+  region?: string; // e.g. 'us-east-1'
+  zone?: string; // availability zone within the region, e.g. 'a'
+}
+
 // Common base for nodes that process requests
-interface BaseNodeConfig {
+interface BaseNodeConfig extends ServiceTimeConfig, Placement {
   capacity: number; // max requests per second
   baseLatency: number; // processing time in ms
+  maxConcurrency?: number; // open SYNC calls the node can hold (default: unlimited)
+  autoscaling?: AutoscalingPolicy; // SCALABLE_NODE_TYPES only
   jobSpec?: string; // description of the node's responsibility
   customCode?: string; // user-defined implementation logic
 }
 
 // --- Traffic -----------------------------------------------------------
 
-export interface ClientConfig {
+/** Shape of the load a client produces over time. */
+export type TrafficShape = 'CONSTANT' | 'RAMP' | 'SINE' | 'SPIKE' | 'STEP' | 'POISSON';
+
+/** How clients pick the key each request reads. */
+export type KeyDistribution = 'UNIFORM' | 'ZIPF';
+
+/** What a request does to the data it touches. */
+export type RequestOperation = 'READ' | 'WRITE';
+
+export interface ClientConfig extends Placement {
   rps: number;
   burstMultiplier: number;
+  trafficShape?: TrafficShape; // defaults to CONSTANT (rps × burstMultiplier)
+  rampDurationMs?: number; // RAMP: time to reach full load
+  periodMs?: number; // SINE: cycle length, SPIKE: time between spikes
+  amplitude?: number; // SINE: swing as a fraction of rps (0-1)
+  spikeDurationMs?: number; // SPIKE: how long each spike lasts
+  stepAtMs?: number; // STEP: when load jumps from rps to rps × burstMultiplier
+  // Keyspace model: omitted = requests carry no key and caches roll hitRate
+  keyDistribution?: KeyDistribution;
+  keyspaceSize?: number; // distinct keys (default 10,000)
+  zipfSkew?: number; // ZIPF exponent; higher = hotter hot keys (default 1)
+  writeRatio?: number; // share of requests that are writes, 0-1 (default 0)
   jobSpec?: string;
   customCode?: string;
 }
@@ -105,9 +169,15 @@ export interface ApiGatewayConfig extends BaseNodeConfig {
   errorRate: number;
 }
 
-export interface RateLimiterConfig {
+/** How a rate limiter decides whether a request fits its limit. */
+export type RateLimitAlgorithm = 'TOKEN_BUCKET' | 'FIXED_WINDOW' | 'SLIDING_WINDOW';
+
+export interface RateLimiterConfig extends Placement {
   maxRequests: number; // requests per window
   windowMs: number; // time window in ms
+  algorithm?: RateLimitAlgorithm; // default TOKEN_BUCKET
+  burstSize?: number; // TOKEN_BUCKET: bucket size (default maxRequests)
+  keyBy?: 'GLOBAL' | 'CLIENT'; // one shared limit, or one per originating client (default GLOBAL)
   capacity: number;
   baseLatency: number;
   jobSpec?: string;
@@ -141,45 +211,62 @@ export interface ApiConfig extends BaseNodeConfig {
 
 // --- Caching -----------------------------------------------------------
 
+export type CacheEvictionPolicy = 'LRU' | 'LFU' | 'RANDOM' | 'TTL';
+
 export interface CacheConfig extends BaseNodeConfig {
-  hitRate: number; // 0-1
+  hitRate: number; // 0-1, used unless keyspaceModel is on
   ttl: number; // seconds
+  // Keyspace model: track real entries for keyed requests; hit rate becomes an output
+  keyspaceModel?: boolean;
+  entrySizeKB?: number; // memory per entry (default 1)
+  maxMemoryMB?: number; // default 256
+  evictionPolicy?: CacheEvictionPolicy; // default LRU
 }
 
-export interface RedisCacheConfig extends BaseNodeConfig {
-  hitRate: number;
-  ttl: number;
+export interface RedisCacheConfig extends CacheConfig {
   maxMemoryMB: number;
-  evictionPolicy: 'LRU' | 'LFU' | 'RANDOM' | 'TTL';
+  evictionPolicy: CacheEvictionPolicy;
 }
 
 // --- Storage -----------------------------------------------------------
 
+// Storage nodes serve writes at their own speed; reads take baseLatency
+interface StorageConfig extends BaseNodeConfig {
+  writeLatency?: number; // ms per write (default baseLatency)
+}
+
 // Legacy Database (tutorials)
-export interface DatabaseConfig extends BaseNodeConfig {
+export interface DatabaseConfig extends StorageConfig {
   maxConnections: number;
 }
 
-export interface SqlDatabaseConfig extends BaseNodeConfig {
+// Primary + read replicas; each member serves `capacity` and holds
+// `maxConnections` open requests before rejecting new ones
+interface ReplicatedDatabaseConfig extends StorageConfig {
   maxConnections: number;
+  replicationLagMs?: number; // time for a committed write to reach replicas (default 100)
+  replicaRegion?: string; // where the read replicas run (default: with the primary)
+}
+
+export interface SqlDatabaseConfig extends ReplicatedDatabaseConfig {
   poolSize: number;
+  readReplicas?: number; // replicas serving reads (default 0)
   engine: 'POSTGRES' | 'MYSQL' | 'SQLITE';
 }
 
-export interface NosqlDatabaseConfig extends BaseNodeConfig {
-  maxConnections: number;
-  replicaCount: number;
+export interface NosqlDatabaseConfig extends ReplicatedDatabaseConfig {
+  replicaCount: number; // replica set members, primary included
   engine: 'MONGODB' | 'DYNAMODB' | 'CASSANDRA';
 }
 
-export interface ObjectStorageConfig extends BaseNodeConfig {
+export interface ObjectStorageConfig extends StorageConfig {
   maxObjectSizeMB: number;
   region: string;
 }
 
 // --- Compute -----------------------------------------------------------
 
-export interface QueueConfig {
+export interface QueueConfig extends Placement {
   maxSize: number;
   dropPolicy: 'DROP_OLDEST' | 'REJECT_NEW';
   jobSpec?: string;
@@ -252,10 +339,57 @@ export interface NodeData {
   config: AnyNodeConfig;
 }
 
+/**
+ * How the simulator sends traffic over an edge:
+ * SHARE splits requests across sibling edges by weight, BROADCAST copies every
+ * request (fan-out), ON_ERROR only carries requests that failed at the source.
+ */
+export type EdgeRouteMode = 'SHARE' | 'BROADCAST' | 'ON_ERROR';
+
+/**
+ * SYNC callers hold a concurrency slot until the callee answers: when its own
+ * processing ends, or when it hands the request off over an ASYNC edge.
+ * ASYNC edges (e.g. into a QUEUE) hand the request off and move on.
+ */
+export type EdgeCallMode = 'SYNC' | 'ASYNC';
+
+/** The caller re-sends a failed call after an exponential, jittered backoff. */
+export interface RetryPolicy {
+  maxRetries: number;
+  backoffMs: number; // wait before the first retry; doubles with each attempt
+  jitter: number; // 0-1 share of each wait that is randomised
+}
+
+/** After `failureThreshold` failures in a row the caller fast-fails for `openMs`. */
+export interface CircuitBreakerPolicy {
+  failureThreshold: number;
+  openMs: number;
+}
+
+/**
+ * The network between an edge's endpoints. Omitted fields default from the
+ * endpoints' placement: latency from the region-pair matrix, bandwidth
+ * unlimited and no packet loss.
+ */
+export interface NetworkLink {
+  latencyMs?: number; // one-way delay
+  bandwidthMbps?: number; // requests queue on the link once it is saturated
+  packetLoss?: number; // 0-1 chance a request has to be retransmitted
+  payloadKB?: number; // size of each request on the wire (default 10)
+}
+
 export interface EdgeData {
   id: string;
   sourceId: string;
   targetId: string;
+  mode?: EdgeRouteMode; // defaults to SHARE
+  weight?: number; // relative share among SHARE / ON_ERROR siblings (default 1)
+  callMode?: EdgeCallMode; // defaults to ASYNC
+  // Caller-side resilience policies for calls over this edge
+  timeoutMs?: number; // the call counts as an ERROR once it takes longer than this
+  retry?: RetryPolicy;
+  circuitBreaker?: CircuitBreakerPolicy;
+  network?: NetworkLink;
 }
 
 export interface GraphState {